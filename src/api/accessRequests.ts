@@ -0,0 +1,11 @@
+import { api } from './client';
+import { parseResponse, accessRequestResponseSchema } from './schemas';
+import type { StoreAccessRequestPayload } from '@/types/models';
+
+// Access Requests API endpoints. Any signed in user may ask; super admins are
+// notified and grant access through the user's role.
+export const accessRequestsApi = {
+  // Asking again for the same page returns the pending request
+  createAccessRequest: (data: StoreAccessRequestPayload) =>
+    api.post('/access-requests', data).then(parseResponse(accessRequestResponseSchema, 'POST /access-requests')),
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { authApi } from '@/api/auth';
+import { tokenStorage } from '@/api/tokenStorage';
+import type { AuthUser } from '@/api/schemas';
+
+const authUser = (id: number, role: AuthUser['role'], refresh_token?: string): AuthUser => ({
+  id,
+  name: `User ${id}`,
+  email: `user${id}@example.com`,
+  role,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  token: `access-${id}`,
+  refresh_token,
+});
+
+describe('Auth API', () => {
+  describe('impersonation - session storage', () => {
+    beforeEach(() => {
+      sessionStorage.clear();
+      // localStorage is a mock in tests, so keep the session in sessionStorage
+      tokenStorage.setPersistence('session');
+      authApi.storeSession(authUser(1, 'super_admin', 'refresh-1'));
+    });
+
+    afterEach(() => {
+      tokenStorage.setPersistence('local');
+    });
+
+    it('should switch to the impersonated session and restore the original', () => {
+      authApi.storeImpersonation(authUser(3, 'merchant', 'refresh-3'), authApi.getStoredSession()!);
+
+      expect(authApi.getToken()).toBe('access-3');
+      expect(authApi.getImpersonator()?.id).toBe(1);
+
+      expect(authApi.endImpersonation()?.id).toBe(1);
+      expect(authApi.getToken()).toBe('access-1');
+      expect(authApi.getRefreshToken()).toBe('refresh-1');
+      expect(authApi.getImpersonator()).toBeNull();
+    });
+
+    it("should never keep the other account's refresh token", () => {
+      authApi.storeImpersonation(authUser(3, 'merchant'), authApi.getStoredSession()!);
+      expect(authApi.getRefreshToken()).toBeNull();
+    });
+
+    it('should drop the impersonator with the rest of the session', () => {
+      authApi.storeImpersonation(authUser(3, 'merchant', 'refresh-3'), authApi.getStoredSession()!);
+      authApi.clearSession();
+      expect(authApi.getImpersonator()).toBeNull();
+    });
+  });
+});
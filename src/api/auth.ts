@@ -1,46 +1,61 @@
-import apiClient from './client';
-import type { AxiosError } from 'axios';
+import apiClient, { api, type RequestOptions } from './client';
+import { getJwtExpiry } from '@/lib/jwt';
+import { tokenStorage, type TokenPersistence } from './tokenStorage';
+import {
+  parseResponse,
+  userSchema,
+  authUserSchema,
+  authSessionResponseSchema,
+  loginResponseSchema,
+  invitationDetailsResponseSchema,
+  emptyResponseSchema,
+  userPermissionsResponseSchema,
+  type AuthUser,
+} from './schemas';
 import type {
   User,
   LoginPayload,
+  TwoFactorChallengePayload,
   RegisterPayload,
   ForgotPasswordPayload,
   ResetPasswordPayload,
-  ApiResponse,
+  AcceptInvitationPayload,
+  SsoCallbackPayload,
 } from '@/types/models';
 
 // Auth API endpoints
 export const authApi = {
-  login: async (data: LoginPayload): Promise<ApiResponse<{ user: User }>> => {
-    try {
-      const response = await apiClient.post<ApiResponse<{ user: User }>>('/auth/login', data);
-      return response.data;
-    } catch (error) {
-      const axiosError = error as AxiosError<ApiResponse<unknown>>;
-      if (axiosError.response?.data) {
-        throw axiosError;
-      }
-      throw error;
-    }
+  // Failures reject with ApiRequestError (see ./errors)
+  // data is the signed in user with its tokens, whichever shape the backend used,
+  // or a two-factor challenge to answer with verifyTwoFactor
+  login: async (data: LoginPayload) => {
+    const response = await apiClient.post('/auth/login', data);
+    return parseResponse(loginResponseSchema, 'POST /auth/login')(response.data);
+  },
+
+  // Finish a login that required a two-factor code
+  verifyTwoFactor: async (data: TwoFactorChallengePayload) => {
+    const response = await apiClient.post('/auth/two-factor-challenge', data);
+    return parseResponse(authSessionResponseSchema, 'POST /auth/two-factor-challenge')(response.data);
   },
 
   // Register (Super Admin only)
-  register: async (data: RegisterPayload): Promise<ApiResponse<{ user: User }>> => {
-    const response = await apiClient.post<ApiResponse<{ user: User }>>('/auth/register', data);
-    return response.data;
+  register: async (data: RegisterPayload) => {
+    const response = await apiClient.post('/auth/register', data);
+    return parseResponse(authSessionResponseSchema, 'POST /auth/register')(response.data);
   },
 
   // Refresh token
-  refreshToken: async (refreshToken: string): Promise<ApiResponse<{ user: User }>> => {
-    const response = await apiClient.post<ApiResponse<{ user: User }>>('/auth/refresh', {
+  refreshToken: async (refreshToken: string) => {
+    const response = await apiClient.post('/auth/refresh', {
       refresh_token: refreshToken,
     });
-    return response.data;
+    return parseResponse(authSessionResponseSchema, 'POST /auth/refresh')(response.data);
   },
 
   // Logout
   logout: async (): Promise<void> => {
-    const refreshToken = localStorage.getItem('refresh_token');
+    const refreshToken = tokenStorage.get('refresh_token');
     try {
       await apiClient.post('/auth/logout', { refresh_token: refreshToken });
     } catch {
@@ -48,33 +63,62 @@ export const authApi = {
     }
   },
 
-  // Forgot Password
-  forgotPassword: async (data: ForgotPasswordPayload): Promise<ApiResponse<{ reset_token: string; note: string }>> => {
-    const response = await apiClient.post<ApiResponse<{ reset_token: string; note: string }>>('/auth/forgot-password', data);
-    return response.data;
+  // Forgot Password - the backend emails a reset link and answers the same way
+  // for unknown emails; 429 (with Retry-After) while a resend is throttled
+  forgotPassword: async (data: ForgotPasswordPayload) => {
+    const response = await apiClient.post('/auth/forgot-password', data);
+    return parseResponse(emptyResponseSchema, 'POST /auth/forgot-password')(response.data);
+  },
+
+  resetPassword: async (data: ResetPasswordPayload) => {
+    const response = await apiClient.post('/auth/reset-password', data);
+    return parseResponse(emptyResponseSchema, 'POST /auth/reset-password')(response.data);
   },
 
-  resetPassword: async (data: ResetPasswordPayload): Promise<ApiResponse<null>> => {
+  // Who an invitation link is for; 404 once it expired, was revoked or used
+  getInvitation: (token: string, options?: RequestOptions) =>
+    api
+      .get(`/auth/invitations/${encodeURIComponent(token)}`, undefined, options)
+      .then(parseResponse(invitationDetailsResponseSchema, 'GET /auth/invitations/:token')),
+
+  // Create the invited account with the chosen password and sign in to it
+  acceptInvitation: async (data: AcceptInvitationPayload) => {
+    const response = await apiClient.post('/auth/accept-invitation', data);
+    return parseResponse(authSessionResponseSchema, 'POST /auth/accept-invitation')(response.data);
+  },
+
+  // Redeem the code from the SSO provider (see ./sso); the backend checks the
+  // PKCE verifier and ID token and answers like a password login
+  ssoCallback: async (data: SsoCallbackPayload) => {
+    const response = await apiClient.post('/auth/sso/callback', data);
+    return parseResponse(authSessionResponseSchema, 'POST /auth/sso/callback')(response.data);
+  },
+
+  // End an impersonation on the backend: the impersonated tokens stop working
+  leaveImpersonation: async (): Promise<void> => {
     try {
-      const response = await apiClient.post<ApiResponse<null>>('/auth/reset-password', data);
-      return response.data;
-    } catch (error) {
-      const axiosError = error as AxiosError<ApiResponse<unknown>>;
-      if (axiosError.response?.data) {
-        throw axiosError;
-      }
-      throw error;
+      await apiClient.post('/auth/leave-impersonation');
+    } catch {
+      // The super admin gets their own session back either way
     }
   },
 
+  // What the signed in user may do, as the backend's policy says right now
+  getPermissions: async () => {
+    const response = await apiClient.get('/auth/permissions');
+    return parseResponse(userPermissionsResponseSchema, 'GET /auth/permissions')(response.data);
+  },
+
   // Get current user (from stored data)
   getStoredUser: (): User | null => {
-    const userData = localStorage.getItem('user_data');
+    const userData = tokenStorage.get('user_data');
     if (!userData || userData === 'undefined' || userData === 'null') {
       return null;
     }
     try {
-      return JSON.parse(userData);
+      // Data stored by an older version may not match the current shape
+      const result = userSchema.safeParse(JSON.parse(userData));
+      return result.success ? result.data : null;
     } catch {
       return null;
     }
@@ -82,33 +126,101 @@ export const authApi = {
 
   // Store user data
   storeUser: (user: User): void => {
-    localStorage.setItem('user_data', JSON.stringify(user));
+    tokenStorage.set('user_data', JSON.stringify(user));
   },
 
   // Clear user data
   clearUser: (): void => {
-    localStorage.removeItem('user_data');
-    localStorage.removeItem('refresh_token');
+    tokenStorage.remove('user_data');
+    tokenStorage.remove('refresh_token');
   },
 
   // Check if user is authenticated
   isAuthenticated: (): boolean => {
-    return !!localStorage.getItem('auth_token');
+    return !!tokenStorage.get('auth_token');
   },
 
   // Get stored token
   getToken: (): string | null => {
-    return localStorage.getItem('auth_token');
+    return tokenStorage.get('auth_token');
   },
 
   // Get refresh token
   getRefreshToken: (): string | null => {
-    return localStorage.getItem('refresh_token');
+    return tokenStorage.get('refresh_token');
   },
 
   // Store refresh token
   storeRefreshToken: (token: string): void => {
-    localStorage.setItem('refresh_token', token);
+    tokenStorage.set('refresh_token', token);
+  },
+
+  // Store the tokens and user from a login or refresh response. Logins pass
+  // where to keep them ("Remember me"); refreshes keep the current storage.
+  storeSession: (user: AuthUser, persistence?: TokenPersistence): void => {
+    if (persistence) {
+      tokenStorage.setPersistence(persistence);
+    }
+    tokenStorage.set('auth_token', user.token);
+    if (user.refresh_token) {
+      authApi.storeRefreshToken(user.refresh_token);
+    }
+
+    // Prefer the exp claim; fall back to expires_in for opaque tokens
+    const expiresAt = getJwtExpiry(user.token) ?? (user.expires_in ? Date.now() + user.expires_in * 1000 : null);
+    if (expiresAt) {
+      tokenStorage.set('token_expires_at', String(expiresAt));
+    } else {
+      tokenStorage.remove('token_expires_at');
+    }
+
+    authApi.storeUser(user);
+  },
+
+  // The stored user with its tokens, in the shape storeSession takes
+  getStoredSession: (): AuthUser | null => {
+    const user = authApi.getStoredUser();
+    const token = authApi.getToken();
+    return user && token ? { ...user, token, refresh_token: authApi.getRefreshToken() ?? undefined } : null;
+  },
+
+  // Switch to an impersonated session, keeping the super admin's to return to
+  storeImpersonation: (target: AuthUser, impersonator: AuthUser): void => {
+    tokenStorage.set('impersonator_session', JSON.stringify(impersonator));
+    // Never refresh one account's session with the other's refresh token
+    tokenStorage.remove('refresh_token');
+    authApi.storeSession(target);
+  },
+
+  // The super admin behind the current session while impersonating, else null
+  getImpersonator: (): AuthUser | null => {
+    try {
+      const result = authUserSchema.safeParse(JSON.parse(tokenStorage.get('impersonator_session') ?? 'null'));
+      return result.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  },
+
+  // Put the super admin's own session back; returns it, or null if there was none
+  endImpersonation: (original: AuthUser | null = authApi.getImpersonator()): AuthUser | null => {
+    tokenStorage.remove('impersonator_session');
+    if (original) {
+      tokenStorage.remove('refresh_token');
+      authApi.storeSession(original);
+    }
+    return original;
+  },
+
+  // When the access token expires (ms since epoch), if known
+  getTokenExpiry: (): number | null => {
+    const expiresAt = Number(tokenStorage.get('token_expires_at'));
+    return expiresAt > 0 ? expiresAt : null;
+  },
+
+  // Remove every trace of the session
+  clearSession: (): void => {
+    tokenStorage.clear();
   },
 };
 
@@ -0,0 +1,64 @@
+import type { User } from '@/types/models';
+import type { AuthUser } from './schemas';
+import type { TokenPersistence } from './tokenStorage';
+import { createCrossTabChannel } from './crossTab';
+
+// Why the user was signed out, shown on the login page
+export type LogoutReason = 'unauthorized' | 'idle';
+
+// Session changes shared between the API layer, AuthContext and other tabs.
+// Login, refresh and impersonation carry the tokens too: sessionStorage is not
+// shared, so other tabs store them themselves. Only BroadcastChannel gets them;
+// the localStorage fallback sends 'session-changed' instead (see below).
+export type AuthEvent =
+  | { type: 'login'; user: AuthUser; persistence: TokenPersistence }
+  | { type: 'logout'; reason?: LogoutReason }
+  | { type: 'refreshed'; user: AuthUser }
+  | { type: 'session-expired' }
+  | { type: 'user-updated'; user: User }
+  // A super admin started or stopped viewing the app as another user
+  | { type: 'impersonation-started'; user: AuthUser; impersonator: AuthUser }
+  | { type: 'impersonation-ended'; user: AuthUser }
+  // One of the events above without its tokens: other tabs read the session
+  // from their own storage, which only has it when it is localStorage
+  | { type: 'session-changed'; change: SessionChange };
+
+type SessionChange = 'login' | 'refreshed' | 'impersonation-started' | 'impersonation-ended';
+
+// 'remote' events happened in another tab
+export type AuthEventSource = 'local' | 'remote';
+
+type AuthEventListener = (event: AuthEvent, source: AuthEventSource) => void;
+
+const listeners = new Set<AuthEventListener>();
+
+// Tokens never go to disk, whatever the "Remember me" choice was
+const withoutTokens = (event: AuthEvent): AuthEvent => {
+  switch (event.type) {
+    case 'login':
+    case 'refreshed':
+    case 'impersonation-started':
+    case 'impersonation-ended':
+      return { type: 'session-changed', change: event.type };
+    default:
+      return event;
+  }
+};
+
+const channel = createCrossTabChannel<AuthEvent>('admin-dashboard-session', { toStored: withoutTokens });
+channel.subscribe((event) => {
+  listeners.forEach((listener) => listener(event, 'remote'));
+});
+
+export function onAuthEvent(listener: AuthEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Notify listeners in this tab and every other open tab
+export function emitAuthEvent(event: AuthEvent) {
+  listeners.forEach((listener) => listener(event, 'local'));
+  channel.post(event);
+}
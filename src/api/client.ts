@@ -1,5 +1,9 @@
 import axios, { type AxiosInstance, type AxiosError, type InternalAxiosRequestConfig } from 'axios';
 import type { ApiResponse, ApiError } from '@/types/models';
+import { isApiRequestError, normalizeApiError } from './errors';
+import { withRetry, type RetryInfo, type RetryOption } from './retry';
+import { tokenStorage } from './tokenStorage';
+import { emitForbidden } from './forbiddenEvents';
 
 // API Base URL - Change this to your backend URL
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api';
@@ -14,13 +18,33 @@ const apiClient: AxiosInstance = axios.create({
   timeout: 10000, // 10 seconds
 });
 
+// Fake in-memory backend (src/api/mock) - loaded lazily so it never ships unless enabled
+if (import.meta.env.VITE_USE_MOCK_API === 'true') {
+  apiClient.defaults.adapter = (config) => import('./mock').then(({ mockAdapter }) => mockAdapter(config));
+}
+
+// Id of the super admin viewing the app as another user, if any
+const getImpersonatorId = (): string | null => {
+  try {
+    const impersonator = JSON.parse(tokenStorage.get('impersonator_session') ?? 'null') as { id?: unknown } | null;
+    return impersonator?.id ? String(impersonator.id) : null;
+  } catch {
+    return null;
+  }
+};
+
 // Request interceptor - Add auth token
 apiClient.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
-    const token = localStorage.getItem('auth_token');
+    const token = tokenStorage.get('auth_token');
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // Flag everything done while impersonating, so the backend can audit it
+    const impersonatorId = getImpersonatorId();
+    if (impersonatorId) {
+      config.headers['X-Impersonator-Id'] = impersonatorId;
+    }
     return config;
   },
   (error: AxiosError) => {
@@ -34,31 +58,18 @@ apiClient.interceptors.response.use(
     return response;
   },
   async (error: AxiosError<ApiError>) => {
+    // Cancelled requests were superseded on purpose - nothing to report
+    if (axios.isCancel(error)) {
+      return Promise.reject(normalizeApiError(error));
+    }
+
     // Log error details for debugging
     console.error('API Error:', error.config?.url, error.response?.data || error.message);
 
-    // Check if we're on the login page or making login/forgot-password requests
-    const isLoginRequest = error.config?.url?.includes('/auth/login');
-    const isForgotPasswordRequest = error.config?.url?.includes('/auth/forgot-password');
-    const isResetPasswordRequest = error.config?.url?.includes('/auth/reset-password');
-    const isRegisterRequest = error.config?.url?.includes('/auth/register');
-
-    // Skip auto-redirect for auth-related requests - let components handle the error
-    const isAuthRequest = isLoginRequest || isForgotPasswordRequest || isResetPasswordRequest || isRegisterRequest;
-
-    // Handle 401 Unauthorized - ONLY for non-auth requests
-    if (error.response?.status === 401 && !isAuthRequest) {
-      // Clear auth data
-      localStorage.removeItem('auth_token');
-      localStorage.removeItem('user_data');
+    // 401s are handled by the refresh pipeline in ./tokenRefresh
 
-      // Check if we're not already on the login page
-      if (!window.location.pathname.includes('/login')) {
-        window.location.href = '/login?reason=unauthorized';
-      }
-    }
-
-    // Handle 403 Forbidden
+    // Handle 403 Forbidden. Only a page's main data shows the Forbidden page
+    // (RequestOptions.forbiddenPage); other refusals are reported by the caller.
     if (error.response?.status === 403) {
       console.error('Access forbidden:', error.response.data?.message);
     }
@@ -73,28 +84,56 @@ apiClient.interceptors.response.use(
       console.error('Network error:', error.message);
     }
 
-    // IMPORTANT: Always reject the error so components can handle it
-    return Promise.reject(error);
+    // IMPORTANT: Always reject so components can handle it, as a typed ApiRequestError
+    return Promise.reject(normalizeApiError(error));
   }
 );
 
 export default apiClient;
 
+// Per-request options accepted by the api helpers
+export interface RequestOptions {
+  // Abort the request, e.g. when the page that started it unmounts
+  signal?: AbortSignal;
+  // GETs retry transient failures by default; writes only when set explicitly
+  retry?: RetryOption;
+  // Called before each retry so the UI can show that it is trying again
+  onRetry?: (info: RetryInfo) => void;
+  // The page's main data: a 403 means the page cannot be shown, so MainLayout
+  // swaps in the Forbidden page. Everything else surfaces 403s as errors.
+  forbiddenPage?: boolean;
+}
+
+const request = <T>(
+  method: string,
+  send: (signal?: AbortSignal) => Promise<{ data: ApiResponse<T> }>,
+  { signal, retry, onRetry, forbiddenPage }: RequestOptions
+): Promise<ApiResponse<T>> =>
+  withRetry(() => send(signal), { method, retry, signal, onRetry }).then(
+    (res) => res.data,
+    (error: unknown) => {
+      if (forbiddenPage && isApiRequestError(error) && error.kind === 'forbidden') {
+        emitForbidden({ message: error.message });
+      }
+      throw error;
+    }
+  );
+
 // API Helper functions
 export const api = {
-  get: <T>(url: string, params?: object): Promise<ApiResponse<T>> =>
-    apiClient.get<ApiResponse<T>>(url, { params }).then((res) => res.data),
+  get: <T>(url: string, params?: object, options: RequestOptions = {}): Promise<ApiResponse<T>> =>
+    request<T>('get', (signal) => apiClient.get(url, { params, signal }), options),
 
-  post: <T>(url: string, data?: object): Promise<ApiResponse<T>> =>
-    apiClient.post<ApiResponse<T>>(url, data).then((res) => res.data),
+  post: <T>(url: string, data?: object, options: RequestOptions = {}): Promise<ApiResponse<T>> =>
+    request<T>('post', (signal) => apiClient.post(url, data, { signal }), options),
 
-  put: <T>(url: string, data?: object): Promise<ApiResponse<T>> =>
-    apiClient.put<ApiResponse<T>>(url, data).then((res) => res.data),
+  put: <T>(url: string, data?: object, options: RequestOptions = {}): Promise<ApiResponse<T>> =>
+    request<T>('put', (signal) => apiClient.put(url, data, { signal }), options),
 
-  patch: <T>(url: string, data?: object): Promise<ApiResponse<T>> =>
-    apiClient.patch<ApiResponse<T>>(url, data).then((res) => res.data),
+  patch: <T>(url: string, data?: object, options: RequestOptions = {}): Promise<ApiResponse<T>> =>
+    request<T>('patch', (signal) => apiClient.patch(url, data, { signal }), options),
 
-  delete: <T>(url: string): Promise<ApiResponse<T>> =>
-    apiClient.delete<ApiResponse<T>>(url).then((res) => res.data),
+  // Like axios, a body goes in data: most deletes have none
+  delete: <T>(url: string, { data, ...options }: RequestOptions & { data?: object } = {}): Promise<ApiResponse<T>> =>
+    request<T>('delete', (signal) => apiClient.delete(url, { data, signal }), options),
 };
-
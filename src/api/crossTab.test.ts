@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCrossTabChannel, runAsLeader, withCrossTabLock } from '@/api/crossTab';
+
+describe('Cross Tab Coordination', () => {
+  describe('createCrossTabChannel - messaging', () => {
+    it('should deliver messages to other tabs but not the sender', async () => {
+      const tabA = createCrossTabChannel<{ type: string }>('test-channel');
+      const tabB = createCrossTabChannel<{ type: string }>('test-channel');
+      const receivedByA = vi.fn();
+      const received = new Promise((resolve) => tabB.subscribe(resolve));
+      tabA.subscribe(receivedByA);
+
+      tabA.post({ type: 'logout' });
+
+      await expect(received).resolves.toEqual({ type: 'logout' });
+      expect(receivedByA).not.toHaveBeenCalled();
+      tabA.close();
+      tabB.close();
+    });
+  });
+
+  describe('without BroadcastChannel - localStorage fallback', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should write only what toStored keeps', () => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+      const tab = createCrossTabChannel<{ type: string; token?: string }>('test-fallback', {
+        toStored: ({ type }) => ({ type }),
+      });
+
+      tab.post({ type: 'login', token: 'secret-token' });
+
+      expect(localStorage.setItem).toHaveBeenCalledWith('cross_tab:test-fallback', expect.stringContaining('"login"'));
+      expect(localStorage.setItem).not.toHaveBeenCalledWith(expect.anything(), expect.stringContaining('secret-token'));
+      expect(localStorage.removeItem).toHaveBeenCalledWith('cross_tab:test-fallback');
+      tab.close();
+    });
+  });
+
+  describe('without Web Locks - fallbacks', () => {
+    it('should still run locked work', async () => {
+      await expect(withCrossTabLock('test-lock', () => Promise.resolve('done'))).resolves.toBe('done');
+    });
+
+    it('should start and stop the leader task in this tab', () => {
+      const stopTask = vi.fn();
+      const start = vi.fn(() => stopTask);
+
+      const stop = runAsLeader('test-leader', start);
+      stop();
+
+      expect(start).toHaveBeenCalledTimes(1);
+      expect(stopTask).toHaveBeenCalledTimes(1);
+    });
+  });
+});
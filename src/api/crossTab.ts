@@ -0,0 +1,97 @@
+// Messaging and coordination between tabs of the same origin.
+// BroadcastChannel and Web Locks where available, localStorage events otherwise.
+
+export interface CrossTabChannel<T> {
+  post: (message: T) => void;
+  subscribe: (listener: (message: T) => void) => () => void;
+  close: () => void;
+}
+
+export interface CrossTabChannelOptions<T> {
+  // The localStorage fallback writes messages to disk, however briefly: use
+  // this to replace anything that must not be stored, like tokens
+  toStored?: (message: T) => T;
+}
+
+// Send messages to every other open tab (never back to the sender)
+export function createCrossTabChannel<T>(
+  name: string,
+  { toStored = (message) => message }: CrossTabChannelOptions<T> = {}
+): CrossTabChannel<T> {
+  const listeners = new Set<(message: T) => void>();
+  const deliver = (message: T) => listeners.forEach((listener) => listener(message));
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<T>) => deliver(event.data);
+
+    return {
+      post: (message) => channel.postMessage(message),
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close: () => channel.close(),
+    };
+  }
+
+  // Fallback: other tabs get a storage event when the key is written
+  const key = `cross_tab:${name}`;
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== key || !event.newValue) return;
+    try {
+      deliver((JSON.parse(event.newValue) as { message: T }).message);
+    } catch {
+      // Ignore values not written by us
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  return {
+    post: (message) => {
+      // The nonce makes repeated identical messages still count as a change
+      localStorage.setItem(key, JSON.stringify({ message: toStored(message), nonce: Math.random() }));
+      localStorage.removeItem(key);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => window.removeEventListener('storage', onStorage),
+  };
+}
+
+const hasWebLocks = () => typeof navigator !== 'undefined' && 'locks' in navigator && !!navigator.locks;
+
+// Run fn while holding a lock shared by all tabs, so only one tab runs it at a time
+export function withCrossTabLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  if (!hasWebLocks()) return fn();
+  return navigator.locks.request(name, fn) as Promise<T>;
+}
+
+// Run start() only in the one tab holding the leader lock. When that tab closes
+// or stops, the next waiting tab takes over. Returns a stop function.
+export function runAsLeader(name: string, start: () => () => void): () => void {
+  if (!hasWebLocks()) return start();
+
+  let stopped = false;
+  let stop: (() => void) | undefined;
+  let release: (() => void) | undefined;
+
+  navigator.locks
+    .request(name, () => {
+      if (stopped) return undefined;
+      stop = start();
+      // Hold the lock until this tab stops leading
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch(() => undefined);
+
+  return () => {
+    stopped = true;
+    stop?.();
+    release?.();
+  };
+}
@@ -1,10 +1,9 @@
-import { api } from './client';
-import type { DashboardData } from '@/types/models';
+import { api, type RequestOptions } from './client';
+import { parseResponse, dashboardResponseSchema } from './schemas';
 
 // Dashboard API endpoints
 export const dashboardApi = {
   // Get dashboard data based on user role
-  getDashboard: () =>
-    api.get<DashboardData>('/dashboard'),
+  getDashboard: (options?: RequestOptions) =>
+    api.get('/dashboard', undefined, options).then(parseResponse(dashboardResponseSchema, 'GET /dashboard')),
 };
-
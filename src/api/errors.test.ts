@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { AxiosError, AxiosHeaders, CanceledError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { ApiRequestError, getErrorKind, isCancelledError, normalizeApiError, parseRetryAfter } from '@/api/errors';
+import { getErrorMessage } from '@/utils/helpers';
+
+const config = { url: '/users', headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+// Build an AxiosError the way axios rejects for a failed HTTP response
+const httpError = (status: number, data: unknown, headers: Record<string, string> = {}) => {
+  const response = { status, statusText: '', data, headers, config } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, response);
+};
+
+describe('API Error Normalization', () => {
+  describe('getErrorKind - status mapping', () => {
+    it('should map status codes to error kinds', () => {
+      expect(getErrorKind(401)).toBe('auth');
+      expect(getErrorKind(403)).toBe('forbidden');
+      expect(getErrorKind(404)).toBe('not_found');
+      expect(getErrorKind(422)).toBe('validation');
+      expect(getErrorKind(409)).toBe('client');
+      expect(getErrorKind(423)).toBe('locked');
+      expect(getErrorKind(429)).toBe('rate_limited');
+      expect(getErrorKind(500)).toBe('server');
+      expect(getErrorKind(503)).toBe('server');
+    });
+
+    it('should treat a missing status as a network error', () => {
+      expect(getErrorKind(undefined)).toBe('network');
+      expect(getErrorKind(null)).toBe('network');
+    });
+  });
+
+  describe('normalizeApiError - axios errors', () => {
+    it('should use the backend message instead of the axios message', () => {
+      const error = normalizeApiError(httpError(403, { success: false, message: 'Admins only' }));
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error.kind).toBe('forbidden');
+      expect(error.status).toBe(403);
+      expect(error.message).toBe('Admins only');
+    });
+
+    it('should collect validation field errors', () => {
+      const error = normalizeApiError(httpError(422, {
+        success: false,
+        message: 'The given data was invalid.',
+        errors: { email: ['The email has already been taken.'], name: 'Name is required' },
+      }));
+      expect(error.kind).toBe('validation');
+      expect(error.hasFieldErrors).toBe(true);
+      expect(error.fieldErrors.name).toEqual(['Name is required']);
+      expect(error.firstFieldErrors()).toEqual({
+        email: 'The email has already been taken.',
+        name: 'Name is required',
+      });
+    });
+
+    it('should fall back to a default message when the body has none', () => {
+      const error = normalizeApiError(httpError(500, null));
+      expect(error.kind).toBe('server');
+      expect(error.message).toBe('Server error. Please try again later.');
+    });
+
+    it('should detect network errors without a response', () => {
+      const error = normalizeApiError(new AxiosError('Network Error', 'ERR_NETWORK', config));
+      expect(error.kind).toBe('network');
+      expect(error.status).toBeNull();
+    });
+
+    it('should detect timeouts', () => {
+      const error = normalizeApiError(new AxiosError('timeout of 10000ms exceeded', 'ECONNABORTED', config));
+      expect(error.kind).toBe('timeout');
+    });
+
+    it('should detect aborted requests', () => {
+      const error = normalizeApiError(new CanceledError(undefined, undefined, config));
+      expect(error.kind).toBe('cancelled');
+      expect(isCancelledError(error)).toBe(true);
+    });
+
+    it('should expose Retry-After on rate limited responses', () => {
+      const error = normalizeApiError(httpError(429, { message: 'Too Many Attempts.' }, { 'retry-after': '60' }));
+      expect(error.kind).toBe('rate_limited');
+      expect(error.retryAfter).toBe(60);
+    });
+
+    it('should keep the request config for retries', () => {
+      const error = normalizeApiError(httpError(401, { message: 'Unauthenticated.' }));
+      expect(error.kind).toBe('auth');
+      expect(error.config?.url).toBe('/users');
+    });
+  });
+
+  describe('parseRetryAfter - Retry-After header', () => {
+    it('should read a number of seconds', () => {
+      expect(parseRetryAfter('5')).toBe(5);
+    });
+
+    it('should read an HTTP date relative to now', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('normalizeApiError - other values', () => {
+    it('should return the same instance for ApiRequestError', () => {
+      const original = new ApiRequestError({ kind: 'server', message: 'Boom', status: 500 });
+      expect(normalizeApiError(original)).toBe(original);
+    });
+
+    it('should wrap plain errors as unknown', () => {
+      const error = normalizeApiError(new Error('Invalid login response'));
+      expect(error.kind).toBe('unknown');
+      expect(error.message).toBe('Invalid login response');
+    });
+  });
+
+  describe('getErrorMessage - helper', () => {
+    it('should prefer the normalized backend message', () => {
+      const error = normalizeApiError(httpError(409, { message: 'Merchant already exists' }));
+      expect(getErrorMessage(error, 'Failed to save merchant')).toBe('Merchant already exists');
+    });
+
+    it('should return the fallback for unknown values', () => {
+      expect(getErrorMessage(undefined, 'Failed to load users')).toBe('Failed to load users');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { isAxiosError, isCancel, type InternalAxiosRequestConfig } from 'axios';
+import type { ApiError } from '@/types/models';
+
+// Broad categories used by pages to decide how to present a failed request
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'validation'
+  | 'auth'
+  | 'forbidden'
+  | 'not_found'
+  | 'locked'
+  | 'rate_limited'
+  | 'server'
+  | 'client'
+  | 'schema'
+  | 'unknown';
+
+interface ApiRequestErrorInit {
+  kind: ApiErrorKind;
+  message?: string;
+  status?: number | null;
+  fieldErrors?: Record<string, string[]>;
+  data?: unknown;
+  retryAfter?: number | null;
+  config?: InternalAxiosRequestConfig;
+  cause?: unknown;
+}
+
+// Default messages when the backend does not send one
+const defaultMessages: Record<ApiErrorKind, string> = {
+  network: 'Unable to reach the server. Please check your connection and try again.',
+  timeout: 'The server took too long to respond. Please try again.',
+  cancelled: 'The request was cancelled.',
+  validation: 'Please check your input and try again.',
+  auth: 'Your session has expired. Please log in again.',
+  forbidden: 'You do not have permission to perform this action.',
+  not_found: 'The requested resource was not found.',
+  locked: 'This account is locked. Please try again later.',
+  rate_limited: 'Too many requests. Please wait a moment and try again.',
+  server: 'Server error. Please try again later.',
+  client: 'The request could not be completed.',
+  schema: 'The server sent data in an unexpected format.',
+  unknown: 'An unexpected error occurred',
+};
+
+// Error thrown by apiClient and the api helpers for every failed request
+export class ApiRequestError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly fieldErrors: Record<string, string[]>;
+  readonly data: unknown;
+  // Seconds the server asked us to wait (Retry-After header), if any
+  readonly retryAfter: number | null;
+  readonly config?: InternalAxiosRequestConfig;
+
+  constructor({ kind, message = defaultMessages[kind], status = null, fieldErrors = {}, data, retryAfter = null, config, cause }: ApiRequestErrorInit) {
+    super(message, { cause });
+    this.name = 'ApiRequestError';
+    this.kind = kind;
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+    this.data = data;
+    this.retryAfter = retryAfter;
+    this.config = config;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  // First message per field, in the shape react-hook-form style forms expect
+  firstFieldErrors(): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.entries(this.fieldErrors).forEach(([field, messages]) => {
+      if (messages.length > 0) {
+        result[field] = messages[0];
+      }
+    });
+    return result;
+  }
+}
+
+export function isApiRequestError(error: unknown): error is ApiRequestError {
+  return error instanceof ApiRequestError;
+}
+
+// True when a request was aborted on purpose and should not be reported
+export function isCancelledError(error: unknown): boolean {
+  return isApiRequestError(error) && error.kind === 'cancelled';
+}
+
+// Map an HTTP status code to an error kind
+export function getErrorKind(status: number | null | undefined): ApiErrorKind {
+  if (!status) return 'network';
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 422) return 'validation';
+  if (status === 423) return 'locked';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'client';
+  return 'unknown';
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+// Backend validation errors may come as string or string[] per field
+function normalizeFieldErrors(errors: unknown): Record<string, string[]> {
+  if (!errors || typeof errors !== 'object') return {};
+
+  const result: Record<string, string[]> = {};
+  Object.entries(errors as Record<string, unknown>).forEach(([field, value]) => {
+    if (Array.isArray(value)) {
+      result[field] = value.filter((item): item is string => typeof item === 'string');
+    } else if (typeof value === 'string') {
+      result[field] = [value];
+    }
+  });
+  return result;
+}
+
+// Pull a human readable message out of a backend error body
+function extractBackendMessage(data: unknown): string | null {
+  if (typeof data === 'string' && data.trim()) {
+    return data;
+  }
+  if (data && typeof data === 'object') {
+    const body = data as Partial<ApiError> & { error?: unknown };
+    if (typeof body.message === 'string' && body.message.trim()) {
+      return body.message;
+    }
+    if (typeof body.error === 'string' && body.error.trim()) {
+      return body.error;
+    }
+  }
+  return null;
+}
+
+// Convert anything thrown during a request into an ApiRequestError
+export function normalizeApiError(error: unknown): ApiRequestError {
+  if (error instanceof ApiRequestError) {
+    return error;
+  }
+
+  if (isCancel(error)) {
+    const config = isAxiosError(error) ? error.config : undefined;
+    return new ApiRequestError({ kind: 'cancelled', message: defaultMessages.cancelled, config, cause: error });
+  }
+
+  if (isAxiosError(error)) {
+    const config = error.config;
+
+    if (!error.response) {
+      const isTimeout = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+      const kind: ApiErrorKind = isTimeout ? 'timeout' : 'network';
+      return new ApiRequestError({ kind, message: defaultMessages[kind], config, cause: error });
+    }
+
+    const { status, data, headers } = error.response;
+    const kind = getErrorKind(status);
+    const fieldErrors = normalizeFieldErrors((data as Partial<ApiError> | undefined)?.errors);
+
+    return new ApiRequestError({
+      kind,
+      status,
+      message: extractBackendMessage(data) ?? defaultMessages[kind],
+      fieldErrors,
+      data,
+      retryAfter: parseRetryAfter(headers?.['retry-after']),
+      config,
+      cause: error,
+    });
+  }
+
+  if (error instanceof Error) {
+    return new ApiRequestError({ kind: 'unknown', message: error.message, cause: error });
+  }
+
+  return new ApiRequestError({ kind: 'unknown', message: defaultMessages.unknown, cause: error });
+}
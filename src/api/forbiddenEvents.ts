@@ -0,0 +1,21 @@
+// A page's main data was refused with 403 (RequestOptions.forbiddenPage), so
+// MainLayout shows the Forbidden page.
+// Unlike auth events these stay in this tab: each tab shows its own page.
+export interface ForbiddenEvent {
+  message: string;
+}
+
+type ForbiddenListener = (event: ForbiddenEvent) => void;
+
+const listeners = new Set<ForbiddenListener>();
+
+export function onForbidden(listener: ForbiddenListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitForbidden(event: ForbiddenEvent) {
+  listeners.forEach((listener) => listener(event));
+}
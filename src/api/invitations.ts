@@ -0,0 +1,34 @@
+import { api, type RequestOptions } from './client';
+import { invalidatesTags } from './queryClient';
+import {
+  parseResponse,
+  invitationResponseSchema,
+  invitationsResponseSchema,
+  emptyResponseSchema,
+} from './schemas';
+import type { StoreInvitationPayload } from '@/types/models';
+
+// Invitations API endpoints (Super Admin only). Accepting an invitation is
+// public and lives in authApi.
+export const invitationsApi = {
+  // Pending invitations, expired ones included until they are resent or revoked
+  getInvitations: (options?: RequestOptions) =>
+    api.get('/invitations', undefined, options).then(parseResponse(invitationsResponseSchema, 'GET /invitations')),
+
+  // Invite a new admin or merchant; the backend emails the accept link
+  createInvitation: (data: StoreInvitationPayload) =>
+    api.post('/invitations', data)
+      .then(parseResponse(invitationResponseSchema, 'POST /invitations'))
+      .then(invalidatesTags('invitations')),
+
+  // Email a new link and restart the expiry; the old link stops working
+  resendInvitation: (id: string) =>
+    api.post(`/invitations/${id}/resend`)
+      .then(parseResponse(invitationResponseSchema, 'POST /invitations/:id/resend'))
+      .then(invalidatesTags('invitations')),
+
+  revokeInvitation: (id: string) =>
+    api.delete(`/invitations/${id}`)
+      .then(parseResponse(emptyResponseSchema, 'DELETE /invitations/:id'))
+      .then(invalidatesTags('invitations')),
+};
@@ -1,6 +1,12 @@
-import { api } from './client';
+import { api, type RequestOptions } from './client';
+import { invalidatesTags } from './queryClient';
+import {
+  parseResponse,
+  merchantResponseSchema,
+  merchantsResponseSchema,
+  emptyResponseSchema,
+} from './schemas';
 import type {
-  MerchantWithUser,
   PaginationParams,
   StoreMerchantPayload,
   UpdateMerchantPayload,
@@ -9,23 +15,28 @@ import type {
 // Merchants API endpoints
 export const merchantsApi = {
   // Get all merchants (Super Admin/Admin: all, Merchant: own)
-  getMerchants: (params?: PaginationParams) =>
-    api.get<MerchantWithUser[]>('/merchants', params),
+  getMerchants: (params?: PaginationParams, options?: RequestOptions) =>
+    api.get('/merchants', params, options).then(parseResponse(merchantsResponseSchema, 'GET /merchants')),
 
   // Create new merchant (Super Admin/Admin only)
   createMerchant: (data: StoreMerchantPayload) =>
-    api.post<{ merchant: MerchantWithUser }>('/merchants', data),
+    api.post('/merchants', data)
+      .then(parseResponse(merchantResponseSchema, 'POST /merchants'))
+      .then(invalidatesTags('merchants', 'users', 'dashboard')),
 
   // Get merchant by ID
-  getMerchant: (id: string) =>
-    api.get<{ merchant: MerchantWithUser }>(`/merchants/${id}`),
+  getMerchant: (id: string, options?: RequestOptions) =>
+    api.get(`/merchants/${id}`, undefined, options).then(parseResponse(merchantResponseSchema, 'GET /merchants/:id')),
 
   // Update merchant (Merchant: own, Super Admin/Admin: any)
   updateMerchant: (id: string, data: UpdateMerchantPayload) =>
-    api.put<{ merchant: MerchantWithUser }>(`/merchants/${id}`, data),
+    api.put(`/merchants/${id}`, data)
+      .then(parseResponse(merchantResponseSchema, 'PUT /merchants/:id'))
+      .then(invalidatesTags('merchants', 'dashboard')),
 
   // Delete merchant (Super Admin/Admin only)
   deleteMerchant: (id: string) =>
-    api.delete<null>(`/merchants/${id}`),
+    api.delete(`/merchants/${id}`)
+      .then(parseResponse(emptyResponseSchema, 'DELETE /merchants/:id'))
+      .then(invalidatesTags('merchants', 'users', 'dashboard')),
 };
-
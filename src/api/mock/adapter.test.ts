@@ -0,0 +1,420 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import axios, { type AxiosInstance } from 'axios';
+import { createMockAdapter, createMockDb, MOCK_PASSWORD, type MockDb } from '@/api/mock';
+import { generateTotp } from '@/api/mock/totp';
+import { createAuthorizationCode, MOCK_OIDC_CLIENT_ID } from '@/api/mock/oidc';
+import { createCodeChallenge, generateCodeVerifier } from '@/lib/pkce';
+import { normalizeApiError } from '@/api/errors';
+import {
+  accessRequestResponseSchema,
+  authSessionResponseSchema,
+  loginFailureSchema,
+  loginResponseSchema,
+  recoveryCodesResponseSchema,
+  twoFactorSetupResponseSchema,
+  userPermissionsResponseSchema,
+  dashboardResponseSchema,
+  invitationDetailsResponseSchema,
+  invitationResponseSchema,
+  merchantsResponseSchema,
+  roleResponseSchema,
+  rolesResponseSchema,
+  usersResponseSchema,
+  userSessionsResponseSchema,
+} from '@/api/schemas';
+
+let client: AxiosInstance;
+let db: MockDb;
+
+const signIn = async (email: string) => {
+  const response = await client.post('/auth/login', { email, password: MOCK_PASSWORD });
+  return authSessionResponseSchema.parse(response.data).data.token;
+};
+
+const as = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+const requestError = async (request: Promise<unknown>) => {
+  try {
+    await request;
+  } catch (error) {
+    return normalizeApiError(error);
+  }
+  throw new Error('Expected the request to fail');
+};
+
+describe('Mock API Adapter', () => {
+  beforeEach(() => {
+    db = createMockDb();
+    client = axios.create({ baseURL: 'http://mock.test/api', adapter: createMockAdapter({ db }) });
+  });
+
+  describe('auth - login', () => {
+    it('should return a session that matches the response schema', async () => {
+      const token = await signIn('superadmin@example.com');
+      expect(token).toBeTruthy();
+    });
+
+    it('should reject wrong credentials with 401', async () => {
+      const error = await requestError(client.post('/auth/login', { email: 'admin@example.com', password: 'nope' }));
+      expect(error.kind).toBe('auth');
+    });
+
+    it('should return field errors for missing input', async () => {
+      const error = await requestError(client.post('/auth/login', {}));
+      expect(error.kind).toBe('validation');
+      expect(error.fieldErrors.email).toBeDefined();
+    });
+
+    it('should count down attempts, then lock until a super admin unlocks', async () => {
+      const attempt = () => requestError(client.post('/auth/login', { email: 'admin@example.com', password: 'nope' }));
+
+      const first = await attempt();
+      expect(loginFailureSchema.parse(first.data).data?.attempts_remaining).toBe(4);
+      for (let i = 0; i < 3; i++) await attempt();
+
+      const locked = await attempt();
+      expect(locked.kind).toBe('locked');
+      expect(locked.retryAfter).toBeGreaterThan(0);
+      // Even the right password waits for the lock
+      expect((await requestError(client.post('/auth/login', { email: 'admin@example.com', password: MOCK_PASSWORD }))).kind)
+        .toBe('locked');
+
+      const token = await signIn('superadmin@example.com');
+      await client.post('/users/2/unlock', undefined, as(token));
+      expect(await signIn('admin@example.com')).toBeTruthy();
+    });
+  });
+
+  describe('auth - permissions', () => {
+    it("should return the current policy for the user's role", async () => {
+      const token = await signIn('admin@example.com');
+      const permissions = async () =>
+        userPermissionsResponseSchema.parse((await client.get('/auth/permissions', as(token))).data).data.permissions;
+
+      expect(await permissions()).toContain('canCreateMerchants');
+      expect(await permissions()).not.toContain('canViewUsers');
+
+      // A policy change shows up without a new login
+      db.roles.find((role) => role.name === 'admin')?.permissions.push('canViewUsers');
+      expect(await permissions()).toContain('canViewUsers');
+    });
+
+    it('should require a session', async () => {
+      expect((await requestError(client.get('/auth/permissions'))).kind).toBe('auth');
+    });
+  });
+
+  describe('auth - two-factor', () => {
+    it('should ask for a code after enrolling and accept a recovery code once', async () => {
+      const token = await signIn('admin@example.com');
+      const setup = twoFactorSetupResponseSchema.parse(
+        (await client.post('/settings/two-factor', { password: MOCK_PASSWORD }, as(token))).data
+      ).data;
+      const { recovery_codes } = recoveryCodesResponseSchema.parse(
+        (await client.post('/settings/two-factor/confirm', { code: generateTotp(setup.secret) }, as(token))).data
+      ).data;
+
+      const login = loginResponseSchema.parse(
+        (await client.post('/auth/login', { email: 'admin@example.com', password: MOCK_PASSWORD })).data
+      ).data;
+      expect(login).toMatchObject({ two_factor_required: true });
+      const challenge_token = 'challenge_token' in login ? login.challenge_token : '';
+
+      const wrongCode = await requestError(client.post('/auth/two-factor-challenge', { challenge_token, code: '000000' }));
+      expect(wrongCode.fieldErrors.code).toBeDefined();
+
+      const session = await client.post('/auth/two-factor-challenge', { challenge_token, recovery_code: recovery_codes[0] });
+      expect(authSessionResponseSchema.parse(session.data).data.two_factor_enabled).toBe(true);
+
+      // The challenge and the recovery code are both used up
+      const reused = await requestError(
+        client.post('/auth/two-factor-challenge', { challenge_token, recovery_code: recovery_codes[0] })
+      );
+      expect(reused.kind).toBe('auth');
+    });
+  });
+
+  describe('auth - single sign-on', () => {
+    const redirect_uri = 'http://localhost/auth/callback';
+
+    const authorize = async (email: string) => {
+      const code_verifier = generateCodeVerifier();
+      const code = createAuthorizationCode({
+        email,
+        client_id: MOCK_OIDC_CLIENT_ID,
+        redirect_uri,
+        code_challenge: await createCodeChallenge(code_verifier),
+        nonce: 'nonce',
+      });
+      return { code, code_verifier, redirect_uri, nonce: 'nonce' };
+    };
+
+    it('should redeem a code once for the account with that email', async () => {
+      const payload = await authorize('admin@example.com');
+
+      const session = authSessionResponseSchema.parse((await client.post('/auth/sso/callback', payload)).data);
+      expect(session.data.email).toBe('admin@example.com');
+
+      const replayed = await requestError(client.post('/auth/sso/callback', payload));
+      expect(replayed.fieldErrors.code).toBeDefined();
+    });
+
+    it('should reject a code redeemed with another verifier', async () => {
+      const payload = await authorize('admin@example.com');
+      const error = await requestError(
+        client.post('/auth/sso/callback', { ...payload, code_verifier: generateCodeVerifier() })
+      );
+      expect(error.fieldErrors.code).toBeDefined();
+    });
+
+    it('should refuse identities without an account', async () => {
+      const error = await requestError(client.post('/auth/sso/callback', await authorize('stranger@example.com')));
+      expect(error.kind).toBe('forbidden');
+    });
+  });
+
+  describe('auth - password reset', () => {
+    it('should answer the same for known and unknown emails', async () => {
+      const known = await client.post('/auth/forgot-password', { email: 'admin@example.com' });
+      const unknown = await client.post('/auth/forgot-password', { email: 'nobody@example.com' });
+
+      expect(unknown.status).toBe(known.status);
+      expect(unknown.data).toEqual(known.data);
+      // Only the known email gets a link
+      expect(db.outbox.map((mail) => mail.to)).toEqual(['admin@example.com']);
+    });
+
+    it('should throttle repeated requests with Retry-After', async () => {
+      await client.post('/auth/forgot-password', { email: 'nobody@example.com' });
+      const error = await requestError(client.post('/auth/forgot-password', { email: 'nobody@example.com' }));
+
+      expect(error.kind).toBe('rate_limited');
+      expect(error.retryAfter).toBeGreaterThan(0);
+    });
+  });
+
+  describe('settings - sessions', () => {
+    it('should list each login as a session and mark the current one', async () => {
+      await signIn('admin@example.com');
+      const token = await signIn('admin@example.com');
+
+      const sessions = userSessionsResponseSchema.parse((await client.get('/settings/sessions', as(token))).data).data;
+      expect(sessions).toHaveLength(2);
+      expect(sessions.filter((session) => session.is_current)).toHaveLength(1);
+    });
+
+    it('should reject the tokens of a signed out session', async () => {
+      const other = await signIn('admin@example.com');
+      const token = await signIn('admin@example.com');
+
+      await client.delete('/settings/sessions/others', as(token));
+
+      expect((await requestError(client.get('/settings/profile', as(other)))).kind).toBe('auth');
+      expect((await client.get('/settings/profile', as(token))).status).toBe(200);
+    });
+
+    it('should sign out the other sessions when the password changes', async () => {
+      const other = await signIn('admin@example.com');
+      const token = await signIn('admin@example.com');
+      const password = 'N3w-Passw0rd!';
+
+      await client.post(
+        '/settings/change-password',
+        { current_password: MOCK_PASSWORD, password, password_confirmation: password },
+        as(token)
+      );
+
+      expect((await requestError(client.get('/settings/profile', as(other)))).kind).toBe('auth');
+      const sessions = userSessionsResponseSchema.parse((await client.get('/settings/sessions', as(token))).data).data;
+      expect(sessions).toHaveLength(1);
+    });
+  });
+
+  describe('users - listing', () => {
+    it('should paginate, search and match the schema', async () => {
+      const token = await signIn('superadmin@example.com');
+      const response = await client.get('/users', { ...as(token), params: { per_page: 5, search: 'merchant' } });
+      const body = usersResponseSchema.parse(response.data);
+
+      expect(body.data.length).toBeLessThanOrEqual(5);
+      expect(body.data.every((user) => /merchant/i.test(`${user.name} ${user.email}`))).toBe(true);
+      expect(body.meta?.per_page).toBe(5);
+    });
+
+    it('should only include deleted users when asked', async () => {
+      const token = await signIn('superadmin@example.com');
+      const active = await client.get('/users', { ...as(token), params: { per_page: 100 } });
+      const all = await client.get('/users', { ...as(token), params: { per_page: 100, include_deleted: true } });
+
+      expect(all.data.meta.total).toBe(active.data.meta.total + 1);
+    });
+
+    it('should forbid admins with 403', async () => {
+      const token = await signIn('admin@example.com');
+      const error = await requestError(client.get('/users', as(token)));
+      expect(error.kind).toBe('forbidden');
+    });
+
+    it('should require a token', async () => {
+      const error = await requestError(client.get('/users'));
+      expect(error.status).toBe(401);
+    });
+  });
+
+  describe('invitations - onboarding', () => {
+    it('should let the invitee set a password once and sign in', async () => {
+      const token = await signIn('superadmin@example.com');
+      const { invitation } = invitationResponseSchema.parse(
+        (await client.post('/invitations', { name: 'New Admin', email: 'new.admin@example.com', role: 'admin' }, as(token))).data
+      ).data;
+      // The link is only emailed, so read it from the backend
+      const inviteToken = db.invitations.find((item) => item.id === invitation.id)?.token ?? '';
+      expect(db.outbox.at(-1)).toMatchObject({ to: 'new.admin@example.com', subject: 'Invitation' });
+      expect(db.outbox.at(-1)?.link).toContain(`/accept-invite?token=${inviteToken}`);
+
+      const details = invitationDetailsResponseSchema.parse((await client.get(`/auth/invitations/${inviteToken}`)).data);
+      expect(details.data).toMatchObject({ email: 'new.admin@example.com', role: 'admin' });
+
+      const password = 'Welcome#2024';
+      const accepted = await client.post('/auth/accept-invitation', {
+        token: inviteToken,
+        password,
+        password_confirmation: password,
+      });
+      expect(authSessionResponseSchema.parse(accepted.data).data.role).toBe('admin');
+      expect((await client.post('/auth/login', { email: 'new.admin@example.com', password })).status).toBe(200);
+
+      // Used up: the link no longer resolves
+      expect((await requestError(client.get(`/auth/invitations/${inviteToken}`))).kind).toBe('not_found');
+    });
+
+    it('should reject a second invitation for the same email', async () => {
+      const token = await signIn('superadmin@example.com');
+      const payload = { name: 'Twice', email: 'twice@example.com', role: 'merchant' };
+      await client.post('/invitations', payload, as(token));
+
+      const error = await requestError(client.post('/invitations', payload, as(token)));
+      expect(error.fieldErrors.email).toBeDefined();
+    });
+  });
+
+  describe('users - impersonation', () => {
+    it('should act as the user, record flagged requests and end cleanly', async () => {
+      const adminToken = await signIn('superadmin@example.com');
+      const session = authSessionResponseSchema.parse((await client.post('/users/3/impersonate', undefined, as(adminToken))).data);
+      expect(session.data.role).toBe('merchant');
+
+      const asMerchant = { headers: { ...as(session.data.token).headers, 'X-Impersonator-Id': '1' } };
+      expect(merchantsResponseSchema.parse((await client.get('/merchants', asMerchant)).data).data).toHaveLength(1);
+      expect(db.impersonationLog).toContainEqual(
+        expect.objectContaining({ impersonator_id: 1, user_id: 3, path: '/merchants', flagged: true })
+      );
+
+      await client.post('/auth/leave-impersonation', undefined, asMerchant);
+      expect((await requestError(client.get('/merchants', asMerchant))).kind).toBe('auth');
+      expect((await client.get('/users', as(adminToken))).status).toBe(200);
+    });
+
+    it('should not impersonate super admins or let others impersonate', async () => {
+      const adminToken = await signIn('superadmin@example.com');
+      expect((await requestError(client.post('/users/1/impersonate', undefined, as(adminToken)))).kind).toBe('not_found');
+
+      const token = await signIn('admin@example.com');
+      expect((await requestError(client.post('/users/3/impersonate', undefined, as(token)))).kind).toBe('forbidden');
+    });
+
+    it('should let roles granted canImpersonateUsers impersonate, but not from an impersonated session', async () => {
+      db.roles.find((role) => role.name === 'admin')?.permissions.push('canImpersonateUsers');
+      const token = await signIn('admin@example.com');
+      expect((await client.post('/users/3/impersonate', undefined, as(token))).status).toBe(200);
+
+      const adminToken = await signIn('superadmin@example.com');
+      const session = authSessionResponseSchema.parse((await client.post('/users/2/impersonate', undefined, as(adminToken))).data);
+      const error = await requestError(client.post('/users/3/impersonate', undefined, as(session.data.token)));
+      expect(error.status).toBe(409);
+    });
+  });
+
+  describe('roles - custom roles', () => {
+    it('should grant what a custom role allows and keep it while in use', async () => {
+      const token = await signIn('superadmin@example.com');
+      const payload = { name: 'user_viewer', display_name: 'User Viewer', permissions: ['canViewUsers', 'nope'] };
+      const { role } = roleResponseSchema.parse((await client.post('/roles', payload, as(token))).data).data;
+      expect(role.permissions).toEqual(['canViewUsers']);
+
+      await client.put('/users/3', { role: 'user_viewer' }, as(token));
+      const viewerToken = await signIn('merchant@example.com');
+      expect((await client.get('/users', as(viewerToken))).status).toBe(200);
+      expect((await requestError(client.post('/users', {}, as(viewerToken)))).kind).toBe('forbidden');
+
+      const roles = rolesResponseSchema.parse((await client.get('/roles', as(token))).data).data;
+      expect(roles.find((item) => item.name === 'user_viewer')?.users_count).toBe(1);
+      expect((await requestError(client.delete(`/roles/${role.id}`, as(token)))).status).toBe(409);
+    });
+
+    it('should protect built-in roles and require canManageRoles', async () => {
+      const token = await signIn('superadmin@example.com');
+      const superAdmin = db.roles.find((role) => role.name === 'super_admin')!;
+      expect((await requestError(client.put(`/roles/${superAdmin.id}`, { permissions: [] }, as(token)))).kind).toBe('forbidden');
+      expect((await requestError(client.delete(`/roles/${superAdmin.id}`, as(token)))).kind).toBe('forbidden');
+
+      const adminToken = await signIn('admin@example.com');
+      const attempt = client.post('/roles', { name: 'sneaky', display_name: 'Sneaky' }, as(adminToken));
+      expect((await requestError(attempt)).kind).toBe('forbidden');
+    });
+  });
+
+  describe('access requests - forbidden pages', () => {
+    it('should record one pending request per page', async () => {
+      const token = await signIn('admin@example.com');
+      expect((await requestError(client.get('/users', as(token)))).kind).toBe('forbidden');
+
+      const payload = { path: '/users', permission: 'canViewUsers', reason: 'Onboarding new staff' };
+      const first = await client.post('/access-requests', payload, as(token));
+      expect(first.status).toBe(201);
+      expect(accessRequestResponseSchema.parse(first.data).data.access_request).toMatchObject(payload);
+
+      const again = await client.post('/access-requests', payload, as(token));
+      expect(again.status).toBe(200);
+      expect(db.accessRequests).toHaveLength(1);
+    });
+
+    it('should need a path and a session', async () => {
+      const token = await signIn('merchant@example.com');
+      expect((await requestError(client.post('/access-requests', { path: 'users' }, as(token)))).fieldErrors.path).toBeDefined();
+      expect((await requestError(client.post('/access-requests', { path: '/users' }))).kind).toBe('auth');
+    });
+  });
+
+  describe('merchants - scoping and CRUD', () => {
+    it('should only show a merchant their own business', async () => {
+      const token = await signIn('merchant@example.com');
+      const body = merchantsResponseSchema.parse((await client.get('/merchants', as(token))).data);
+
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].user.email).toBe('merchant@example.com');
+    });
+
+    it('should create a merchant for an available owner', async () => {
+      const token = await signIn('admin@example.com');
+      const owners = await client.get('/merchant-owners', as(token));
+      const ownerId = owners.data.data[0].id;
+
+      const response = await client.post('/merchants', { user_id: ownerId, business_name: 'New Shop' }, as(token));
+
+      expect(response.status).toBe(201);
+      expect(response.data.data.merchant.user.id).toBe(ownerId);
+    });
+  });
+
+  describe('dashboard - per role', () => {
+    it.each(['superadmin@example.com', 'admin@example.com', 'merchant@example.com'])(
+      'should match the dashboard schema for %s',
+      async (email) => {
+        const token = await signIn(email);
+        const response = await client.get('/dashboard', as(token));
+        expect(dashboardResponseSchema.safeParse(response.data).success).toBe(true);
+      }
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { AxiosError, CanceledError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { createMockDb, type MockDb } from './db';
+import { matchPath, MockHttpError, type MockMethod, type MockResponse, type MockRoute } from './router';
+import { authRoutes } from './handlers/auth';
+import { userRoutes } from './handlers/users';
+import { invitationRoutes } from './handlers/invitations';
+import { merchantRoutes } from './handlers/merchants';
+import { dashboardRoutes } from './handlers/dashboard';
+import { settingsRoutes } from './handlers/settings';
+import { roleRoutes } from './handlers/roles';
+import { accessRequestRoutes } from './handlers/accessRequests';
+
+export const mockRoutes: MockRoute[] = [
+  ...authRoutes,
+  ...userRoutes,
+  ...invitationRoutes,
+  ...merchantRoutes,
+  ...dashboardRoutes,
+  ...settingsRoutes,
+  ...roleRoutes,
+  ...accessRequestRoutes,
+];
+
+interface MockAdapterOptions {
+  db?: MockDb;
+  // Simulated network latency in ms
+  delay?: number;
+}
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data === 'string' && data) {
+    try {
+      return JSON.parse(data) as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+  return data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+};
+
+// Path relative to the API base URL, plus any query string params in the url
+const parseUrl = (config: InternalAxiosRequestConfig) => {
+  let url = config.url ?? '';
+  if (config.baseURL && url.startsWith(config.baseURL)) {
+    url = url.slice(config.baseURL.length);
+  }
+  const parsed = new URL(url, 'http://mock.local');
+  return {
+    path: parsed.pathname,
+    query: { ...Object.fromEntries(parsed.searchParams), ...(config.params ?? {}) } as Record<string, unknown>,
+  };
+};
+
+const lowercaseKeys = (headers: InternalAxiosRequestConfig['headers']) =>
+  Object.fromEntries(
+    Object.entries(headers?.toJSON?.() ?? headers ?? {}).map(([key, value]) => [key.toLowerCase(), String(value)])
+  );
+
+const wait = (ms: number, config: InternalAxiosRequestConfig) =>
+  new Promise<void>((resolve, reject) => {
+    const { signal } = config;
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener?.('abort', onAbort);
+    }
+  });
+
+// Route a request to its handler and turn thrown MockHttpErrors into responses
+function handle(db: MockDb, config: InternalAxiosRequestConfig): MockResponse {
+  const method = (config.method ?? 'get').toLowerCase() as MockMethod;
+  const { path, query } = parseUrl(config);
+
+  for (const mockRoute of mockRoutes) {
+    const params = mockRoute.method === method ? matchPath(mockRoute.path, path) : null;
+    if (!params) continue;
+
+    try {
+      return mockRoute.handler({
+        db,
+        method,
+        path,
+        params,
+        query,
+        body: parseBody(config.data),
+        headers: lowercaseKeys(config.headers),
+      });
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return {
+          status: error.status,
+          data: { success: false, message: error.message, ...(error.errors ? { errors: error.errors } : {}) },
+        };
+      }
+      console.error('Mock API handler failed:', error);
+      return { status: 500, data: { success: false, message: 'Mock API: internal error.' } };
+    }
+  }
+
+  return {
+    status: 404,
+    data: { success: false, message: `Mock API: no handler for ${method.toUpperCase()} ${path}` },
+  };
+}
+
+// Axios adapter that answers every request from an in-memory database
+export function createMockAdapter({ db = createMockDb(), delay = 0 }: MockAdapterOptions = {}): AxiosAdapter {
+  return async (config) => {
+    await wait(delay, config);
+
+    const result = handle(db, config);
+    const response: AxiosResponse = {
+      // Round trip through JSON so callers never hold references into the db
+      data: JSON.parse(JSON.stringify(result.data)),
+      status: result.status,
+      statusText: String(result.status),
+      headers: result.headers ?? {},
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+}
@@ -0,0 +1,270 @@
+import type { Permission, PermissionDefinition, UserRole } from '@/types/models';
+
+// Rows as the fake backend stores them - serializers decide what is sent out
+export interface MockUserRecord {
+  id: number;
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface MockMerchantRecord {
+  id: number;
+  user_id: number;
+  business_name: string;
+  phone: string | null;
+  address: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Two-factor state per user id; unconfirmed until the first code is verified
+export interface MockTwoFactorRecord {
+  secret: string;
+  confirmed: boolean;
+  recoveryCodes: string[];
+}
+
+// Pending invitation; accepting it creates the user and removes the row
+export interface MockInvitationRecord {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  token: string;
+  invited_by: number;
+  expires_at: string;
+  created_at: string;
+}
+
+// A signed in device; every token pair carries its id
+export interface MockSessionRecord {
+  id: string;
+  user_id: number;
+  user_agent: string;
+  ip_address: string;
+  created_at: string;
+  last_active_at: string;
+}
+
+// Built-in roles are seeded as system rows; users reference roles by name
+export interface MockRoleRecord {
+  id: number;
+  name: UserRole;
+  display_name: string;
+  description: string | null;
+  permissions: Permission[];
+  is_system: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Access asked for from the Forbidden page; one pending request per user and page
+export interface MockAccessRequestRecord {
+  id: number;
+  user_id: number;
+  path: string;
+  permission: Permission | null;
+  reason: string | null;
+  created_at: string;
+}
+
+// An email the backend would have sent, with the link it carries
+export interface MockMailRecord {
+  to: string;
+  subject: string;
+  link: string;
+  sent_at: string;
+}
+
+// A request made by a super admin while viewing the app as another user.
+// flagged: the frontend sent X-Impersonator-Id as it should.
+export interface MockImpersonationLogEntry {
+  impersonator_id: number;
+  user_id: number;
+  method: string;
+  path: string;
+  flagged: boolean;
+  at: string;
+}
+
+export interface MockDb {
+  users: MockUserRecord[];
+  merchants: MockMerchantRecord[];
+  invitations: MockInvitationRecord[];
+  // Password reset tokens by email; each works once until it expires
+  resetTokens: Map<string, { token: string; expiresAt: number }>;
+  // Last reset request per email, known or not, for the resend throttle
+  resetRequestedAt: Map<string, number>;
+  twoFactor: Map<number, MockTwoFactorRecord>;
+  // Logins waiting for a two-factor code, by challenge token
+  twoFactorChallenges: Map<string, { userId: number; expiresAt: number }>;
+  // Failed logins per email, known or not, and the lock they lead to
+  loginAttempts: Map<string, { failures: number; lockedUntil: number | null }>;
+  // Times of recent failed logins from this browser, for the per-IP throttle
+  failedLogins: number[];
+  sessions: MockSessionRecord[];
+  // Signed out session ids, whose tokens are no longer accepted
+  revokedSessions: Set<string>;
+  // SSO authorization codes already redeemed; each works once
+  usedAuthorizationCodes: Set<string>;
+  impersonationLog: MockImpersonationLogEntry[];
+  // Backend policy: what each role may do (GET /auth/permissions)
+  roles: MockRoleRecord[];
+  accessRequests: MockAccessRequestRecord[];
+  // Reset and invitation emails, oldest first (see ./mail)
+  outbox: MockMailRecord[];
+  nextId: (table: 'users' | 'merchants' | 'invitations' | 'roles' | 'accessRequests') => number;
+}
+
+// Every seeded account uses this password
+export const MOCK_PASSWORD = 'Password123';
+
+const BUSINESSES = [
+  ['Sunrise Bakery', 'Jl. Merdeka No. 10, Bandung'],
+  ['Blue Ocean Seafood', 'Jl. Pantai Indah No. 3, Jakarta'],
+  ['Green Leaf Grocery', 'Jl. Sudirman No. 45, Surabaya'],
+  ['Urban Coffee Lab', 'Jl. Braga No. 7, Bandung'],
+  ['Batik Nusantara', null],
+  ['Pixel Print Shop', 'Jl. Malioboro No. 21, Yogyakarta'],
+  ['Fresh Juice Corner', null],
+  ['Golden Spoon Catering', 'Jl. Diponegoro No. 88, Semarang'],
+] as const;
+
+// Other devices the seeded super admin is signed in on, last active hours ago
+const SEEDED_SESSIONS = [
+  ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1', '36.73.114.20', 5],
+  ['Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0', '103.47.132.8', 72],
+] as const;
+
+// Everything a role can be granted (GET /permissions)
+export const PERMISSION_DEFINITIONS: PermissionDefinition[] = [
+  { name: 'canViewUsers', label: 'View users', group: 'Users' },
+  { name: 'canCreateUsers', label: 'Create users', group: 'Users' },
+  { name: 'canUpdateUsers', label: 'Edit users', group: 'Users' },
+  { name: 'canDeleteUsers', label: 'Delete users', group: 'Users' },
+  { name: 'canViewMerchants', label: 'View own merchant', group: 'Merchants' },
+  { name: 'canViewAllMerchants', label: 'View all merchants', group: 'Merchants' },
+  { name: 'canCreateMerchants', label: 'Create merchants', group: 'Merchants' },
+  { name: 'canUpdateMerchants', label: 'Edit merchants', group: 'Merchants' },
+  { name: 'canDeleteMerchants', label: 'Delete merchants', group: 'Merchants' },
+  { name: 'canManageRoles', label: 'Manage roles', group: 'Administration' },
+  { name: 'canImpersonateUsers', label: 'View as user', group: 'Administration' },
+];
+
+const MERCHANT_PERMISSIONS: Permission[] = ['canViewMerchants', 'canCreateMerchants', 'canUpdateMerchants', 'canDeleteMerchants'];
+
+const SEEDED_ROLES: Pick<MockRoleRecord, 'name' | 'display_name' | 'description' | 'permissions'>[] = [
+  {
+    name: 'super_admin',
+    display_name: 'Super Administrator',
+    description: 'Full access, including user and role management',
+    permissions: PERMISSION_DEFINITIONS.map((permission) => permission.name),
+  },
+  {
+    name: 'admin',
+    display_name: 'Administrator',
+    description: 'Manages every merchant',
+    permissions: [...MERCHANT_PERMISSIONS, 'canViewAllMerchants'],
+  },
+  {
+    name: 'merchant',
+    display_name: 'Merchant',
+    description: 'Sees their own merchant',
+    permissions: ['canViewMerchants'],
+  },
+];
+
+const FIRST_NAMES = ['Andi', 'Budi', 'Citra', 'Dewi', 'Eka', 'Fajar', 'Gita', 'Hadi', 'Indah', 'Joko', 'Kartika', 'Lukman'];
+
+// Deterministic timestamps so token owners survive a page reload
+const daysAgo = (days: number) => new Date(Date.UTC(2026, 0, 31) - days * 86400000).toISOString();
+
+// Build a fresh seeded database
+export function createMockDb(): MockDb {
+  const users: MockUserRecord[] = [
+    { id: 1, name: 'Super Admin', email: 'superadmin@example.com', role: 'super_admin' },
+    { id: 2, name: 'Admin User', email: 'admin@example.com', role: 'admin' },
+    { id: 3, name: 'Merchant User', email: 'merchant@example.com', role: 'merchant' },
+  ].map((user, index) => ({
+    ...user,
+    role: user.role as UserRole,
+    password: MOCK_PASSWORD,
+    created_at: daysAgo(60 - index),
+    updated_at: daysAgo(60 - index),
+    deleted_at: null,
+  }));
+
+  FIRST_NAMES.forEach((first, index) => {
+    const id = users.length + 1;
+    const role: UserRole = index % 4 === 0 ? 'admin' : 'merchant';
+    users.push({
+      id,
+      name: `${first} ${role === 'admin' ? 'Admin' : 'Merchant'}`,
+      email: `${first.toLowerCase()}@example.com`,
+      password: MOCK_PASSWORD,
+      role,
+      created_at: daysAgo(50 - index * 3),
+      updated_at: daysAgo(50 - index * 3),
+      // One soft-deleted account to exercise "show deleted" and restore
+      deleted_at: index === FIRST_NAMES.length - 1 ? daysAgo(2) : null,
+    });
+  });
+
+  // The first merchants get a business; the rest stay available as owners
+  const owners = users.filter((user) => user.role === 'merchant' && !user.deleted_at);
+  const merchants: MockMerchantRecord[] = BUSINESSES.map(([business_name, address], index) => ({
+    id: index + 1,
+    user_id: owners[index].id,
+    business_name,
+    phone: address ? `+62 812 555 01${String(index).padStart(2, '0')}` : null,
+    address,
+    created_at: daysAgo(40 - index * 4),
+    updated_at: daysAgo(40 - index * 4),
+  }));
+
+  // Relative to now, so they read as recent activity
+  const sessions: MockSessionRecord[] = SEEDED_SESSIONS.map(([user_agent, ip_address, hoursAgo], index) => ({
+    id: `seed-session-${index + 1}`,
+    user_id: 1,
+    user_agent,
+    ip_address,
+    created_at: new Date(Date.now() - (hoursAgo + 24 * 7) * 3600000).toISOString(),
+    last_active_at: new Date(Date.now() - hoursAgo * 3600000).toISOString(),
+  }));
+
+  const roles: MockRoleRecord[] = SEEDED_ROLES.map((role, index) => ({
+    ...role,
+    id: index + 1,
+    permissions: [...role.permissions],
+    is_system: true,
+    created_at: daysAgo(90),
+    updated_at: daysAgo(90),
+  }));
+
+  const counters = { users: users.length, merchants: merchants.length, invitations: 0, roles: roles.length, accessRequests: 0 };
+
+  return {
+    users,
+    merchants,
+    invitations: [],
+    resetTokens: new Map(),
+    resetRequestedAt: new Map(),
+    twoFactor: new Map(),
+    twoFactorChallenges: new Map(),
+    loginAttempts: new Map(),
+    failedLogins: [],
+    sessions,
+    revokedSessions: new Set(),
+    usedAuthorizationCodes: new Set(),
+    impersonationLog: [],
+    roles,
+    accessRequests: [],
+    outbox: [],
+    nextId: (table) => ++counters[table],
+  };
+}
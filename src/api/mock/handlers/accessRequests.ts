@@ -0,0 +1,37 @@
+import { toAccessRequest } from '../serializers';
+import { PERMISSION_DEFINITIONS, type MockAccessRequestRecord } from '../db';
+import { authenticate, created, now, ok, route, rules, stringParam, validate } from '../router';
+
+const optionalText = (value: unknown) => {
+  const text = stringParam(value);
+  return text === '' ? null : text;
+};
+
+export const accessRequestRoutes = [
+  // Any signed in user may ask; the request is kept for super admins to review
+  route('post', '/access-requests', (request) => {
+    const user = authenticate(request);
+    const path = stringParam(request.body.path);
+    validate(request.body, {
+      path: [rules.required('path'), () => (path && !path.startsWith('/') ? 'The path must start with a slash.' : null)],
+      reason: [(value) => (value && String(value).length > 500 ? 'The reason may not be greater than 500 characters.' : null)],
+    });
+
+    const pending = request.db.accessRequests.find((item) => item.user_id === user.id && item.path === path);
+    if (pending) {
+      return ok({ access_request: toAccessRequest(pending) }, 'Access was already requested');
+    }
+
+    const permission = stringParam(request.body.permission);
+    const accessRequest: MockAccessRequestRecord = {
+      id: request.db.nextId('accessRequests'),
+      user_id: user.id,
+      path,
+      permission: PERMISSION_DEFINITIONS.some((item) => item.name === permission) ? permission : null,
+      reason: optionalText(request.body.reason),
+      created_at: now(),
+    };
+    request.db.accessRequests.push(accessRequest);
+    return created({ access_request: toAccessRequest(accessRequest) }, 'Access requested successfully');
+  }),
+];
@@ -0,0 +1,336 @@
+import { issueTokens, verifyToken } from '../tokens';
+import { verifyTotp } from '../totp';
+import { MOCK_OIDC_CLIENT_ID, readAuthorizationCode, verifyCodeChallenge } from '../oidc';
+import { resolveSession, revokeSession, startSession } from '../sessions';
+import { toUser } from '../serializers';
+import { sendMail } from '../mail';
+import {
+  authenticate,
+  authenticateSession,
+  authorize,
+  created,
+  fail,
+  now,
+  ok,
+  permissionsOf,
+  route,
+  rules,
+  stringParam,
+  validate,
+  type MockRequest,
+  type MockResponse,
+} from '../router';
+import type { MockUserRecord } from '../db';
+
+// User payload returned by login/refresh/register: the user plus fresh tokens.
+// Login starts a new device session; refreshing stays in the same one.
+const session = (
+  request: MockRequest,
+  user: MockUserRecord,
+  sessionId = startSession(request.db, user.id),
+  impersonatorId?: number
+) => ({
+  user: { ...toUser(request.db, user), ...issueTokens(user.id, sessionId, impersonatorId) },
+});
+
+// Reset links expire after an hour; one email per address per minute
+const RESET_TOKEN_TTL = 60 * 60 * 1000;
+const RESET_THROTTLE = 60 * 1000;
+
+// Five wrong passwords lock the account for 15 minutes (or until a super admin
+// unlocks it); more than ten failures a minute from one IP are throttled
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_DURATION = 15 * 60 * 1000;
+const IP_THROTTLE_LIMIT = 10;
+const IP_THROTTLE_WINDOW = 60 * 1000;
+
+// Two-factor challenges expire like Laravel Fortify's login.id session
+const CHALLENGE_TTL = 5 * 60 * 1000;
+
+const findActiveUser = (request: MockRequest, email: string) =>
+  request.db.users.find((user) => user.email.toLowerCase() === email.toLowerCase() && !user.deleted_at);
+
+const findPendingInvitation = (request: MockRequest, token: string) =>
+  request.db.invitations.find((item) => token && item.token === token && Date.parse(item.expires_at) > Date.now());
+
+const secondsUntil = (time: number) => String(Math.ceil((time - Date.now()) / 1000));
+
+// 423 Locked, with when sign in opens again
+const locked = (lockedUntil: number): MockResponse => ({
+  status: 423,
+  data: {
+    success: false,
+    message: 'Too many failed login attempts. This account is temporarily locked.',
+    data: { locked_until: new Date(lockedUntil).toISOString() },
+  },
+  headers: { 'retry-after': secondsUntil(lockedUntil) },
+});
+
+export const authRoutes = [
+  // Unknown emails count attempts and lock the same way, so the answers do not
+  // reveal which accounts exist
+  route('post', '/auth/login', (request) => {
+    validate(request.body, {
+      email: [rules.required('email'), rules.email('email')],
+      password: [rules.required('password')],
+    });
+
+    const { db } = request;
+    db.failedLogins = db.failedLogins.filter((time) => time > Date.now() - IP_THROTTLE_WINDOW);
+    if (db.failedLogins.length >= IP_THROTTLE_LIMIT) {
+      return {
+        status: 429,
+        data: { success: false, message: 'Too many login attempts. Please try again later.' },
+        headers: { 'retry-after': secondsUntil(db.failedLogins[0] + IP_THROTTLE_WINDOW) },
+      };
+    }
+
+    const email = stringParam(request.body.email).toLowerCase();
+    const attempts = db.loginAttempts.get(email);
+    if (attempts?.lockedUntil && attempts.lockedUntil > Date.now()) {
+      return locked(attempts.lockedUntil);
+    }
+
+    const user = findActiveUser(request, email);
+    if (!user || user.password !== request.body.password) {
+      db.failedLogins.push(Date.now());
+      const failures = (attempts?.lockedUntil ? 0 : (attempts?.failures ?? 0)) + 1;
+      const lockedUntil = failures >= MAX_LOGIN_ATTEMPTS ? Date.now() + LOCKOUT_DURATION : null;
+      db.loginAttempts.set(email, { failures: lockedUntil ? 0 : failures, lockedUntil });
+      if (lockedUntil) {
+        return locked(lockedUntil);
+      }
+      return {
+        status: 401,
+        data: {
+          success: false,
+          message: 'Invalid email or password.',
+          data: { attempts_remaining: MAX_LOGIN_ATTEMPTS - failures },
+        },
+      };
+    }
+    db.loginAttempts.delete(email);
+
+    // The password was right, but the session waits for a second factor
+    if (request.db.twoFactor.get(user.id)?.confirmed) {
+      const challengeToken = crypto.randomUUID();
+      request.db.twoFactorChallenges.set(challengeToken, { userId: user.id, expiresAt: Date.now() + CHALLENGE_TTL });
+      return ok({ two_factor_required: true, challenge_token: challengeToken }, 'Two-factor authentication required');
+    }
+    return ok(session(request, user), 'Login successful');
+  }),
+
+  route('post', '/auth/two-factor-challenge', (request) => {
+    const challengeToken = stringParam(request.body.challenge_token);
+    const challenge = request.db.twoFactorChallenges.get(challengeToken);
+    const user = challenge && request.db.users.find((item) => item.id === challenge.userId && !item.deleted_at);
+    const twoFactor = user && request.db.twoFactor.get(user.id);
+    if (!challenge || challenge.expiresAt < Date.now() || !user || !twoFactor?.confirmed) {
+      request.db.twoFactorChallenges.delete(challengeToken);
+      return fail(401, 'This login attempt has expired. Please log in again.');
+    }
+
+    const recoveryCode = stringParam(request.body.recovery_code);
+    if (recoveryCode) {
+      // Each recovery code works once
+      if (!twoFactor.recoveryCodes.includes(recoveryCode)) {
+        return fail(422, 'The given data was invalid.', { recovery_code: ['The provided recovery code was invalid.'] });
+      }
+      twoFactor.recoveryCodes = twoFactor.recoveryCodes.filter((code) => code !== recoveryCode);
+    } else if (!verifyTotp(twoFactor.secret, stringParam(request.body.code))) {
+      return fail(422, 'The given data was invalid.', {
+        code: ['The provided two factor authentication code was invalid.'],
+      });
+    }
+
+    request.db.twoFactorChallenges.delete(challengeToken);
+    return ok(session(request, user), 'Login successful');
+  }),
+
+  // Single sign-on: redeem the provider's code. The provider already did its own
+  // multi-factor check, so there is no two-factor challenge here.
+  route('post', '/auth/sso/callback', (request) => {
+    validate(request.body, {
+      code: [rules.required('code')],
+      code_verifier: [rules.required('code_verifier')],
+      redirect_uri: [rules.required('redirect_uri')],
+      nonce: [rules.required('nonce')],
+    });
+
+    const code = stringParam(request.body.code);
+    const grant = readAuthorizationCode(code);
+    if (
+      !grant ||
+      request.db.usedAuthorizationCodes.has(code) ||
+      grant.client_id !== MOCK_OIDC_CLIENT_ID ||
+      grant.redirect_uri !== request.body.redirect_uri ||
+      grant.nonce !== request.body.nonce ||
+      !verifyCodeChallenge(stringParam(request.body.code_verifier), grant.code_challenge)
+    ) {
+      return fail(422, 'The given data was invalid.', {
+        code: ['The sign in could not be verified with the identity provider. Please try again.'],
+      });
+    }
+    request.db.usedAuthorizationCodes.add(code);
+
+    // Only existing accounts can use SSO - there is no sign up on first login
+    const user = findActiveUser(request, grant.email);
+    if (!user) {
+      return fail(403, 'No account matches this identity. Ask an administrator to invite you.');
+    }
+    return ok(session(request, user), 'Login successful');
+  }),
+
+  // Public: who the invitation is for, while it can still be accepted
+  route('get', '/auth/invitations/:token', (request) => {
+    const invitation = findPendingInvitation(request, request.params.token);
+    if (!invitation) {
+      return fail(404, 'This invitation is invalid, has expired or was revoked.');
+    }
+    const { name, email, role, expires_at } = invitation;
+    return ok({ name, email, role, expires_at }, 'Invitation retrieved successfully');
+  }),
+
+  // Public: create the invited account with its first password and sign in
+  route('post', '/auth/accept-invitation', (request) => {
+    validate(request.body, {
+      token: [rules.required('token')],
+      password: [rules.required('password'), rules.min('password', 8), rules.confirmed('password')],
+    });
+
+    const invitation = findPendingInvitation(request, stringParam(request.body.token));
+    if (!invitation || request.db.users.some((user) => user.email.toLowerCase() === invitation.email.toLowerCase())) {
+      return fail(422, 'The given data was invalid.', {
+        token: ['This invitation is invalid, has expired or was revoked.'],
+      });
+    }
+
+    const timestamp = now();
+    const user: MockUserRecord = {
+      id: request.db.nextId('users'),
+      name: invitation.name,
+      email: invitation.email,
+      password: String(request.body.password),
+      role: invitation.role,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    };
+    request.db.users.push(user);
+    request.db.invitations = request.db.invitations.filter((item) => item.id !== invitation.id);
+    return created(session(request, user), 'Welcome! Your account is ready.');
+  }),
+
+  route('post', '/auth/register', (request) => {
+    authorize(request, ['super_admin']);
+    validate(request.body, {
+      name: [rules.required('name')],
+      email: [rules.required('email'), rules.email('email'), rules.uniqueEmail(request.db)],
+      password: [rules.required('password'), rules.min('password', 8)],
+      role: [rules.required('role'), rules.oneOf('role', ['admin', 'merchant'])],
+    });
+
+    const timestamp = now();
+    const user: MockUserRecord = {
+      id: request.db.nextId('users'),
+      name: stringParam(request.body.name),
+      email: stringParam(request.body.email),
+      password: String(request.body.password),
+      role: request.body.role as MockUserRecord['role'],
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    };
+    request.db.users.push(user);
+    return created(session(request, user), 'User registered successfully');
+  }),
+
+  route('post', '/auth/refresh', (request) => {
+    const payload = verifyToken(stringParam(request.body.refresh_token), 'refresh');
+    const user = payload && request.db.users.find((item) => item.id === payload.sub && !item.deleted_at);
+    if (!payload || !user || !resolveSession(request.db, payload)) {
+      return fail(401, 'Invalid or expired refresh token.');
+    }
+    return ok(session(request, user, payload.sid, payload.imp), 'Token refreshed');
+  }),
+
+  // Ends an impersonation session; the super admin's own session is untouched
+  route('post', '/auth/leave-impersonation', (request) => {
+    const { session: current, impersonator } = authenticateSession(request);
+    if (!impersonator) {
+      return fail(409, 'You are not impersonating anyone.');
+    }
+    revokeSession(request.db, current.id);
+    return ok(null, 'Impersonation ended');
+  }),
+
+  // The signed in user's permissions under the current policy
+  route('get', '/auth/permissions', (request) => {
+    const user = authenticate(request);
+    return ok({ permissions: permissionsOf(request.db, user.role) }, 'Permissions retrieved successfully');
+  }),
+
+  // Ends this device's session; its tokens stop working
+  route('post', '/auth/logout', (request) => {
+    const payload = verifyToken(stringParam(request.body.refresh_token), 'refresh');
+    if (payload) {
+      revokeSession(request.db, payload.sid);
+    }
+    return ok(null, 'Logged out successfully');
+  }),
+
+  // Same answer whether or not the email has an account, so it cannot be used
+  // to find out who is registered. The link is "emailed" to the console.
+  route('post', '/auth/forgot-password', (request) => {
+    validate(request.body, { email: [rules.required('email'), rules.email('email')] });
+
+    const email = stringParam(request.body.email).toLowerCase();
+    const requestedAt = request.db.resetRequestedAt.get(email);
+    if (requestedAt && Date.now() - requestedAt < RESET_THROTTLE) {
+      const retryAfter = Math.ceil((requestedAt + RESET_THROTTLE - Date.now()) / 1000);
+      return {
+        status: 429,
+        data: { success: false, message: 'Please wait before retrying.' },
+        headers: { 'retry-after': String(retryAfter) },
+      };
+    }
+    request.db.resetRequestedAt.set(email, Date.now());
+
+    if (findActiveUser(request, email)) {
+      const token = crypto.randomUUID().replace(/-/g, '');
+      request.db.resetTokens.set(email, { token, expiresAt: Date.now() + RESET_TOKEN_TTL });
+
+      const origin = globalThis.location?.origin ?? '';
+      sendMail(
+        request.db,
+        email,
+        'Password reset',
+        `${origin}/reset-password?token=${token}&email=${encodeURIComponent(email)}`
+      );
+    }
+    return ok(null, 'If an account exists for that email, we have sent a password reset link.');
+  }),
+
+  route('post', '/auth/reset-password', (request) => {
+    validate(request.body, {
+      email: [rules.required('email'), rules.email('email')],
+      token: [rules.required('token')],
+      password: [rules.required('password'), rules.min('password', 8), rules.confirmed('password')],
+    });
+
+    const email = stringParam(request.body.email).toLowerCase();
+    const user = findActiveUser(request, email);
+    const reset = request.db.resetTokens.get(email);
+    if (!user || !reset || reset.token !== request.body.token || reset.expiresAt < Date.now()) {
+      return fail(422, 'The given data was invalid.', {
+        token: ['This password reset link is invalid, has expired or was already used.'],
+      });
+    }
+
+    user.password = String(request.body.password);
+    user.updated_at = now();
+    request.db.resetTokens.delete(email);
+    return ok(null, 'Password has been reset successfully');
+  }),
+];
+
@@ -0,0 +1,68 @@
+import { toMerchant, toUser } from '../serializers';
+import { authenticate, ok, route } from '../router';
+import type { MockMerchantRecord } from '../db';
+
+// The mock counts a merchant as active once its profile is complete
+const isActive = (merchant: MockMerchantRecord) => Boolean(merchant.phone && merchant.address);
+
+const newestFirst = <T extends { created_at: string }>(items: T[]) =>
+  [...items].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+export const dashboardRoutes = [
+  route('get', '/dashboard', (request) => {
+    const user = authenticate(request);
+    const { db } = request;
+    const merchants = db.merchants;
+    const activeMerchants = merchants.filter(isActive).length;
+
+    if (user.role === 'super_admin') {
+      const users = db.users.filter((item) => !item.deleted_at);
+      const usersByRole = users.reduce<Record<string, number>>((counts, item) => {
+        counts[item.role] = (counts[item.role] ?? 0) + 1;
+        return counts;
+      }, {});
+
+      return ok({
+        summary: {
+          total_users: users.length,
+          total_merchants: merchants.length,
+          active_merchants: activeMerchants,
+        },
+        users_by_role: usersByRole,
+        recent_users: newestFirst(users).slice(0, 5).map((item) => toUser(db, item)),
+        recent_merchants: newestFirst(merchants).slice(0, 5).map((item) => toMerchant(db, item)),
+      });
+    }
+
+    if (user.role === 'admin') {
+      return ok({
+        summary: {
+          total_merchants: merchants.length,
+          active_merchants: activeMerchants,
+          inactive_merchants: merchants.length - activeMerchants,
+        },
+        recent_merchants: newestFirst(merchants).slice(0, 5).map((item) => toMerchant(db, item)),
+      });
+    }
+
+    const own = merchants.find((merchant) => merchant.user_id === user.id);
+    return ok({
+      summary: {
+        total_merchants: own ? 1 : 0,
+        active_merchants: own && isActive(own) ? 1 : 0,
+      },
+      ...(own
+        ? {
+            merchant: {
+              id: own.id,
+              business_name: own.business_name,
+              phone: own.phone,
+              address: own.address,
+              user: { id: user.id, name: user.name, email: user.email },
+              created_at: own.created_at,
+            },
+          }
+        : {}),
+    });
+  }),
+];
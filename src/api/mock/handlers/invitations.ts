@@ -0,0 +1,78 @@
+import { toInvitation } from '../serializers';
+import { sendMail } from '../mail';
+import { authorizePermission, created, fail, now, ok, route, rules, stringParam, validate, type MockRequest } from '../router';
+import type { MockDb, MockInvitationRecord } from '../db';
+
+// Invitation links work for a week, like Laravel's signed invite URLs
+export const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+const findInvitation = (request: MockRequest): MockInvitationRecord => {
+  const invitation = request.db.invitations.find((item) => item.id === Number(request.params.id));
+  if (!invitation) {
+    return fail(404, 'Invitation not found.');
+  }
+  return invitation;
+};
+
+// A new token and expiry, "emailed" like reset links
+const sendInvitation = (db: MockDb, invitation: MockInvitationRecord) => {
+  invitation.token = crypto.randomUUID().replace(/-/g, '');
+  invitation.expires_at = new Date(Date.now() + INVITATION_TTL).toISOString();
+
+  const origin = globalThis.location?.origin ?? '';
+  sendMail(db, invitation.email, 'Invitation', `${origin}/accept-invite?token=${invitation.token}`);
+};
+
+export const invitationRoutes = [
+  route('get', '/invitations', (request) => {
+    authorizePermission(request, 'canCreateUsers');
+    const invitations = [...request.db.invitations].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return ok(invitations.map((item) => toInvitation(request.db, item)), 'Invitations retrieved successfully');
+  }),
+
+  route('post', '/invitations', (request) => {
+    const inviter = authorizePermission(request, 'canCreateUsers');
+    const email = stringParam(request.body.email);
+    validate(request.body, {
+      name: [rules.required('name'), rules.min('name', 2)],
+      email: [
+        rules.required('email'),
+        rules.email('email'),
+        rules.uniqueEmail(request.db),
+        () =>
+          request.db.invitations.some((item) => item.email.toLowerCase() === email.toLowerCase())
+            ? 'This email already has a pending invitation.'
+            : null,
+      ],
+      role: [rules.required('role'), rules.assignableRole(request.db)],
+    });
+
+    const invitation: MockInvitationRecord = {
+      id: request.db.nextId('invitations'),
+      name: stringParam(request.body.name),
+      email,
+      role: request.body.role as MockInvitationRecord['role'],
+      token: '',
+      invited_by: inviter.id,
+      expires_at: '',
+      created_at: now(),
+    };
+    sendInvitation(request.db, invitation);
+    request.db.invitations.push(invitation);
+    return created({ invitation: toInvitation(request.db, invitation) }, 'Invitation sent successfully');
+  }),
+
+  route('post', '/invitations/:id/resend', (request) => {
+    authorizePermission(request, 'canCreateUsers');
+    const invitation = findInvitation(request);
+    sendInvitation(request.db, invitation);
+    return ok({ invitation: toInvitation(request.db, invitation) }, 'Invitation resent successfully');
+  }),
+
+  route('delete', '/invitations/:id', (request) => {
+    authorizePermission(request, 'canCreateUsers');
+    const invitation = findInvitation(request);
+    request.db.invitations = request.db.invitations.filter((item) => item.id !== invitation.id);
+    return ok(null, 'Invitation revoked successfully');
+  }),
+];
@@ -0,0 +1,115 @@
+import { toMerchant } from '../serializers';
+import {
+  authenticate,
+  authorizePermission,
+  created,
+  fail,
+  now,
+  ok,
+  paginate,
+  permissionsOf,
+  route,
+  rules,
+  stringParam,
+  validate,
+  type MockRequest,
+} from '../router';
+import type { MockMerchantRecord, MockUserRecord } from '../db';
+
+const ownerName = (request: MockRequest, merchant: MockMerchantRecord) =>
+  request.db.users.find((user) => user.id === merchant.user_id)?.name ?? '';
+
+// Roles without canViewAllMerchants (merchants) only ever see their own business
+const seesOnlyOwn = (request: MockRequest, user: MockUserRecord) =>
+  !permissionsOf(request.db, user.role).includes('canViewAllMerchants');
+
+const findVisibleMerchant = (request: MockRequest, user: MockUserRecord): MockMerchantRecord => {
+  const merchant = request.db.merchants.find((item) => item.id === Number(request.params.id));
+  if (!merchant) {
+    return fail(404, 'Merchant not found.');
+  }
+  if (seesOnlyOwn(request, user) && merchant.user_id !== user.id) {
+    return fail(403, 'This action is unauthorized.');
+  }
+  return merchant;
+};
+
+const optionalText = (value: unknown) => {
+  const text = stringParam(value);
+  return text === '' ? null : text;
+};
+
+export const merchantRoutes = [
+  route('get', '/merchants', (request) => {
+    const user = authenticate(request);
+    const merchants =
+      seesOnlyOwn(request, user)
+        ? request.db.merchants.filter((merchant) => merchant.user_id === user.id)
+        : request.db.merchants;
+
+    const { data, meta } = paginate(merchants, request.query, {
+      searchFields: (merchant) => [merchant.business_name, merchant.phone, merchant.address, ownerName(request, merchant)],
+      sortFields: {
+        business_name: (merchant) => merchant.business_name.toLowerCase(),
+        created_at: (merchant) => merchant.created_at,
+        updated_at: (merchant) => merchant.updated_at,
+      },
+    });
+    return ok(data.map((merchant) => toMerchant(request.db, merchant)), 'Merchants retrieved successfully', meta);
+  }),
+
+  route('post', '/merchants', (request) => {
+    authorizePermission(request, 'canCreateMerchants');
+    validate(request.body, {
+      user_id: [rules.required('user_id')],
+      business_name: [rules.required('business_name'), rules.min('business_name', 2)],
+    });
+
+    const owner = request.db.users.find(
+      (user) => user.id === Number(request.body.user_id) && user.role === 'merchant' && !user.deleted_at
+    );
+    if (!owner) {
+      return fail(422, 'The given data was invalid.', { user_id: ['The selected user must be a merchant account.'] });
+    }
+    if (request.db.merchants.some((merchant) => merchant.user_id === owner.id)) {
+      return fail(422, 'The given data was invalid.', { user_id: ['This user already has a merchant.'] });
+    }
+
+    const timestamp = now();
+    const merchant: MockMerchantRecord = {
+      id: request.db.nextId('merchants'),
+      user_id: owner.id,
+      business_name: stringParam(request.body.business_name),
+      phone: optionalText(request.body.phone),
+      address: optionalText(request.body.address),
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+    request.db.merchants.push(merchant);
+    return created({ merchant: toMerchant(request.db, merchant) }, 'Merchant created successfully');
+  }),
+
+  route('get', '/merchants/:id', (request) => {
+    const merchant = findVisibleMerchant(request, authenticate(request));
+    return ok({ merchant: toMerchant(request.db, merchant) });
+  }),
+
+  route('put', '/merchants/:id', (request) => {
+    const merchant = findVisibleMerchant(request, authenticate(request));
+    validate(request.body, { business_name: [rules.min('business_name', 2)] });
+
+    const { business_name, phone, address } = request.body;
+    if (business_name) merchant.business_name = stringParam(business_name);
+    if (phone !== undefined) merchant.phone = optionalText(phone);
+    if (address !== undefined) merchant.address = optionalText(address);
+    merchant.updated_at = now();
+    return ok({ merchant: toMerchant(request.db, merchant) }, 'Merchant updated successfully');
+  }),
+
+  route('delete', '/merchants/:id', (request) => {
+    const user = authorizePermission(request, 'canDeleteMerchants');
+    const merchant = findVisibleMerchant(request, user);
+    request.db.merchants = request.db.merchants.filter((item) => item.id !== merchant.id);
+    return ok(null, 'Merchant deleted successfully');
+  }),
+];
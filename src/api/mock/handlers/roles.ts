@@ -0,0 +1,114 @@
+import { toRole } from '../serializers';
+import { PERMISSION_DEFINITIONS, type MockRoleRecord } from '../db';
+import {
+  authenticate,
+  authorizePermission,
+  created,
+  fail,
+  now,
+  ok,
+  route,
+  rules,
+  stringParam,
+  validate,
+  type MockRequest,
+} from '../router';
+import type { Permission } from '@/types/models';
+
+const findRole = (request: MockRequest): MockRoleRecord => {
+  const role = request.db.roles.find((item) => item.id === Number(request.params.id));
+  if (!role) {
+    return fail(404, 'Role not found.');
+  }
+  return role;
+};
+
+// Only known permission names are stored
+const permissionsParam = (value: unknown): Permission[] =>
+  Array.isArray(value)
+    ? PERMISSION_DEFINITIONS.map((permission) => permission.name).filter((name) => value.includes(name))
+    : [];
+
+const validPermissions = (value: unknown) =>
+  value !== undefined && !Array.isArray(value) ? 'The permissions must be a list.' : null;
+
+const optionalText = (value: unknown) => {
+  const text = stringParam(value);
+  return text === '' ? null : text;
+};
+
+export const roleRoutes = [
+  // Every signed in user may list roles; the user forms need them
+  route('get', '/roles', (request) => {
+    authenticate(request);
+    return ok(request.db.roles.map((role) => toRole(request.db, role)), 'Roles retrieved successfully');
+  }),
+
+  route('get', '/permissions', (request) => {
+    authenticate(request);
+    return ok(PERMISSION_DEFINITIONS, 'Permissions retrieved successfully');
+  }),
+
+  route('post', '/roles', (request) => {
+    authorizePermission(request, 'canManageRoles');
+    const name = stringParam(request.body.name);
+    validate(request.body, {
+      name: [
+        rules.required('name'),
+        () => (name && !/^[a-z][a-z0-9_]*$/.test(name) ? 'The name may only contain lowercase letters, numbers and underscores.' : null),
+        () => (request.db.roles.some((role) => role.name === name) ? 'The name has already been taken.' : null),
+      ],
+      display_name: [rules.required('display_name'), rules.min('display_name', 2)],
+      permissions: [validPermissions],
+    });
+
+    const timestamp = now();
+    const role: MockRoleRecord = {
+      id: request.db.nextId('roles'),
+      name,
+      display_name: stringParam(request.body.display_name),
+      description: optionalText(request.body.description),
+      permissions: permissionsParam(request.body.permissions),
+      is_system: false,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+    request.db.roles.push(role);
+    return created({ role: toRole(request.db, role) }, 'Role created successfully');
+  }),
+
+  // The name is what users reference, so only the rest can change. Super admin
+  // always keeps every permission, so nobody can lock themselves out.
+  route('put', '/roles/:id', (request) => {
+    authorizePermission(request, 'canManageRoles');
+    const role = findRole(request);
+    if (role.name === 'super_admin') {
+      return fail(403, 'The super admin role cannot be changed.');
+    }
+    validate(request.body, {
+      display_name: [rules.min('display_name', 2)],
+      permissions: [validPermissions],
+    });
+
+    const { display_name, description, permissions } = request.body;
+    if (display_name) role.display_name = stringParam(display_name);
+    if (description !== undefined) role.description = optionalText(description);
+    if (permissions !== undefined) role.permissions = permissionsParam(permissions);
+    role.updated_at = now();
+    return ok({ role: toRole(request.db, role) }, 'Role updated successfully');
+  }),
+
+  route('delete', '/roles/:id', (request) => {
+    authorizePermission(request, 'canManageRoles');
+    const role = findRole(request);
+    if (role.is_system) {
+      return fail(403, 'Built-in roles cannot be deleted.');
+    }
+    const { users_count } = toRole(request.db, role);
+    if (users_count > 0) {
+      return fail(409, `${users_count} ${users_count === 1 ? 'user still has' : 'users still have'} this role. Assign them another role first.`);
+    }
+    request.db.roles = request.db.roles.filter((item) => item.id !== role.id);
+    return ok(null, 'Role deleted successfully');
+  }),
+];
@@ -0,0 +1,136 @@
+import { toSession, toUser } from '../serializers';
+import { revokeOtherSessions, revokeSession } from '../sessions';
+import { authenticate, authenticateSession, fail, now, ok, route, rules, stringParam, validate, type MockRequest } from '../router';
+import { generateRecoveryCodes, generateTotpSecret, getOtpauthUrl, verifyTotp } from '../totp';
+import type { MockUserRecord } from '../db';
+
+// Sensitive changes ask for the password again
+const confirmPassword = (request: MockRequest, user: MockUserRecord) => {
+  validate(request.body, { password: [rules.required('password')] });
+  if (request.body.password !== user.password) {
+    fail(422, 'The given data was invalid.', { password: ['The provided password is incorrect.'] });
+  }
+};
+
+const requireTwoFactor = (request: MockRequest, user: MockUserRecord) => {
+  const twoFactor = request.db.twoFactor.get(user.id);
+  if (!twoFactor?.confirmed) {
+    return fail(409, 'Two-factor authentication is not enabled.');
+  }
+  return twoFactor;
+};
+
+export const settingsRoutes = [
+  route('get', '/settings/profile', (request) => {
+    const user = authenticate(request);
+    return ok(toUser(request.db, user), 'Profile retrieved successfully');
+  }),
+
+  route('patch', '/settings/profile', (request) => {
+    const user = authenticate(request);
+    validate(request.body, { name: [rules.required('name'), rules.min('name', 2)] });
+
+    user.name = stringParam(request.body.name);
+    user.updated_at = now();
+    return ok(toUser(request.db, user), 'Profile updated successfully');
+  }),
+
+  // Whoever knew the old password is signed out everywhere else, in the same
+  // request so it cannot be skipped
+  route('post', '/settings/change-password', (request) => {
+    const { user, session: current } = authenticateSession(request);
+    validate(request.body, {
+      current_password: [rules.required('current_password')],
+      password: [rules.required('password'), rules.min('password', 8), rules.confirmed('password')],
+    });
+
+    if (request.body.current_password !== user.password) {
+      return fail(422, 'The given data was invalid.', { current_password: ['The current password is incorrect.'] });
+    }
+
+    user.password = String(request.body.password);
+    user.updated_at = now();
+    revokeOtherSessions(request.db, user.id, current.id);
+    return ok(null, 'Password changed successfully');
+  }),
+
+  // Enabling starts over with a new secret until a code confirms it
+  route('post', '/settings/two-factor', (request) => {
+    const user = authenticate(request);
+    confirmPassword(request, user);
+    if (request.db.twoFactor.get(user.id)?.confirmed) {
+      return fail(409, 'Two-factor authentication is already enabled.');
+    }
+
+    const secret = generateTotpSecret();
+    request.db.twoFactor.set(user.id, { secret, confirmed: false, recoveryCodes: [] });
+    return ok({ secret, otpauth_url: getOtpauthUrl(secret, user.email) }, 'Scan the QR code with your authenticator app');
+  }),
+
+  route('post', '/settings/two-factor/confirm', (request) => {
+    const user = authenticate(request);
+    validate(request.body, { code: [rules.required('code')] });
+
+    const twoFactor = request.db.twoFactor.get(user.id);
+    if (!twoFactor || twoFactor.confirmed) {
+      return fail(409, 'There is no two-factor setup to confirm.');
+    }
+    if (!verifyTotp(twoFactor.secret, stringParam(request.body.code))) {
+      return fail(422, 'The given data was invalid.', {
+        code: ['The provided two factor authentication code was invalid.'],
+      });
+    }
+
+    twoFactor.confirmed = true;
+    twoFactor.recoveryCodes = generateRecoveryCodes();
+    return ok({ recovery_codes: twoFactor.recoveryCodes }, 'Two-factor authentication enabled');
+  }),
+
+  route('delete', '/settings/two-factor', (request) => {
+    const user = authenticate(request);
+    confirmPassword(request, user);
+    request.db.twoFactor.delete(user.id);
+    return ok(null, 'Two-factor authentication disabled');
+  }),
+
+  route('get', '/settings/two-factor/recovery-codes', (request) => {
+    const twoFactor = requireTwoFactor(request, authenticate(request));
+    return ok({ recovery_codes: twoFactor.recoveryCodes }, 'Recovery codes retrieved successfully');
+  }),
+
+  route('post', '/settings/two-factor/recovery-codes', (request) => {
+    const twoFactor = requireTwoFactor(request, authenticate(request));
+    twoFactor.recoveryCodes = generateRecoveryCodes();
+    return ok({ recovery_codes: twoFactor.recoveryCodes }, 'Recovery codes regenerated');
+  }),
+
+  // Most recently active first; the requesting session is marked is_current
+  route('get', '/settings/sessions', (request) => {
+    const { user, session: current } = authenticateSession(request);
+    const sessions = request.db.sessions
+      .filter((item) => item.user_id === user.id)
+      .sort((a, b) => b.last_active_at.localeCompare(a.last_active_at))
+      .map((item) => toSession(item, current.id));
+    return ok(sessions, 'Sessions retrieved successfully');
+  }),
+
+  // Before '/settings/sessions/:id' so "others" is not taken for an id
+  route('delete', '/settings/sessions/others', (request) => {
+    const { user, session: current } = authenticateSession(request);
+    revokeOtherSessions(request.db, user.id, current.id);
+    return ok(null, 'Signed out of all other sessions');
+  }),
+
+  route('delete', '/settings/sessions/:id', (request) => {
+    const { user, session: current } = authenticateSession(request);
+    const target = request.db.sessions.find((item) => item.id === request.params.id && item.user_id === user.id);
+    if (!target) {
+      return fail(404, 'Session not found.');
+    }
+    if (target.id === current.id) {
+      return fail(409, 'Log out to end the current session.');
+    }
+    revokeSession(request.db, target.id);
+    return ok(null, 'Session signed out');
+  }),
+];
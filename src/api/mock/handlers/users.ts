@@ -0,0 +1,151 @@
+import { toUser } from '../serializers';
+import { issueTokens } from '../tokens';
+import { startSession } from '../sessions';
+import {
+  authenticateSession,
+  authorizePermission,
+  booleanParam,
+  created,
+  fail,
+  now,
+  ok,
+  paginate,
+  route,
+  rules,
+  stringParam,
+  validate,
+  type MockRequest,
+} from '../router';
+import type { MockUserRecord } from '../db';
+
+// Super admins manage admins and merchants, never other super admins
+const findManagedUser = (request: MockRequest, { withDeleted = false } = {}): MockUserRecord => {
+  const user = request.db.users.find(
+    (item) => item.id === Number(request.params.id) && item.role !== 'super_admin'
+  );
+  if (!user || (user.deleted_at && !withDeleted)) {
+    return fail(404, 'User not found.');
+  }
+  return user;
+};
+
+export const userRoutes = [
+  route('get', '/users', (request) => {
+    authorizePermission(request, 'canViewUsers');
+    const includeDeleted = booleanParam(request.query.include_deleted);
+    const users = request.db.users.filter(
+      (user) => user.role !== 'super_admin' && (includeDeleted || !user.deleted_at)
+    );
+
+    const { data, meta } = paginate(users, request.query, {
+      searchFields: (user) => [user.name, user.email],
+      sortFields: {
+        name: (user) => user.name.toLowerCase(),
+        email: (user) => user.email.toLowerCase(),
+        role: (user) => user.role,
+        created_at: (user) => user.created_at,
+      },
+    });
+    return ok(data.map((user) => toUser(request.db, user)), 'Users retrieved successfully', meta);
+  }),
+
+  route('post', '/users', (request) => {
+    authorizePermission(request, 'canCreateUsers');
+    validate(request.body, {
+      name: [rules.required('name'), rules.min('name', 2)],
+      email: [rules.required('email'), rules.email('email'), rules.uniqueEmail(request.db)],
+      password: [rules.required('password'), rules.min('password', 8)],
+      role: [rules.required('role'), rules.assignableRole(request.db)],
+    });
+
+    const timestamp = now();
+    const user: MockUserRecord = {
+      id: request.db.nextId('users'),
+      name: stringParam(request.body.name),
+      email: stringParam(request.body.email),
+      password: String(request.body.password),
+      role: request.body.role as MockUserRecord['role'],
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    };
+    request.db.users.push(user);
+    return created({ user: toUser(request.db, user) }, 'User created successfully');
+  }),
+
+  route('get', '/users/:id', (request) => {
+    authorizePermission(request, 'canViewUsers');
+    return ok({ user: toUser(request.db, findManagedUser(request, { withDeleted: true })) });
+  }),
+
+  route('put', '/users/:id', (request) => {
+    authorizePermission(request, 'canUpdateUsers');
+    const user = findManagedUser(request);
+    validate(request.body, {
+      name: [rules.min('name', 2)],
+      email: [rules.email('email'), rules.uniqueEmail(request.db, user.id)],
+      password: [rules.min('password', 8)],
+      role: [rules.assignableRole(request.db)],
+    });
+
+    const { name, email, password, role } = request.body;
+    if (name) user.name = stringParam(name);
+    if (email) user.email = stringParam(email);
+    if (password) user.password = String(password);
+    if (role) user.role = role as MockUserRecord['role'];
+    user.updated_at = now();
+    return ok({ user: toUser(request.db, user) }, 'User updated successfully');
+  }),
+
+  route('delete', '/users/:id', (request) => {
+    authorizePermission(request, 'canDeleteUsers');
+    const user = findManagedUser(request);
+    user.deleted_at = now();
+    // The owner's merchant goes with the account
+    request.db.merchants = request.db.merchants.filter((merchant) => merchant.user_id !== user.id);
+    return ok(null, 'User deleted successfully');
+  }),
+
+  route('post', '/users/:id/restore', (request) => {
+    authorizePermission(request, 'canDeleteUsers');
+    const user = findManagedUser(request, { withDeleted: true });
+    if (!user.deleted_at) {
+      return fail(422, 'User is not deleted.');
+    }
+    user.deleted_at = null;
+    user.updated_at = now();
+    return ok({ user: toUser(request.db, user) }, 'User restored successfully');
+  }),
+
+  // Lift a lock from too many failed logins and reset the attempt count
+  route('post', '/users/:id/unlock', (request) => {
+    authorizePermission(request, 'canUpdateUsers');
+    const user = findManagedUser(request);
+    request.db.loginAttempts.delete(user.email.toLowerCase());
+    return ok({ user: toUser(request.db, user) }, 'User unlocked successfully');
+  }),
+
+  // "View as user": a separate session as this user whose tokens name the
+  // admin. Super admins cannot be impersonated, and it does not nest.
+  route('post', '/users/:id/impersonate', (request) => {
+    if (authenticateSession(request).impersonator) {
+      return fail(409, 'Return to your own account first.');
+    }
+    const admin = authorizePermission(request, 'canImpersonateUsers');
+    const user = findManagedUser(request);
+    const tokens = issueTokens(user.id, startSession(request.db, user.id), admin.id);
+    return ok({ user: { ...toUser(request.db, user), ...tokens } }, `Now viewing as ${user.name}`);
+  }),
+
+  // Merchant accounts that do not own a merchant yet
+  route('get', '/merchant-owners', (request) => {
+    authorizePermission(request, 'canCreateMerchants');
+    const owners = request.db.users.filter(
+      (user) =>
+        user.role === 'merchant' &&
+        !user.deleted_at &&
+        !request.db.merchants.some((merchant) => merchant.user_id === user.id)
+    );
+    return ok(owners.map((user) => toUser(request.db, user)), 'Merchant owners retrieved successfully');
+  }),
+];
@@ -0,0 +1,10 @@
+// Fake backend for demos, offline development and page tests.
+// Enable with VITE_USE_MOCK_API=true; sign in with any seeded account
+// (e.g. superadmin@example.com) and MOCK_PASSWORD.
+import { createMockAdapter } from './adapter';
+
+export { createMockAdapter, mockRoutes } from './adapter';
+export { createMockDb, MOCK_PASSWORD, type MockDb } from './db';
+
+// Shared instance used by apiClient when the mock is enabled
+export const mockAdapter = createMockAdapter({ delay: 300 });
@@ -0,0 +1,12 @@
+import type { MockDb } from './db';
+
+// The mock sends no email: messages go to db.outbox instead, and their links
+// are logged to the console only with VITE_MOCK_API_DEBUG=true
+const isDebug = import.meta.env.VITE_MOCK_API_DEBUG === 'true';
+
+export function sendMail(db: MockDb, to: string, subject: string, link: string) {
+  db.outbox.push({ to, subject, link, sent_at: new Date().toISOString() });
+  if (isDebug) {
+    console.info(`Mock API: ${subject} for ${to}:\n${link}`);
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { createAuthorizationCode, readAuthorizationCode, sha256, verifyCodeChallenge } from '@/api/mock/oidc';
+import { createCodeChallenge, generateCodeVerifier } from '@/lib/pkce';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+const digest = (text: string) => hex(sha256(new TextEncoder().encode(text)));
+
+describe('Mock OIDC Provider', () => {
+  describe('sha256 - FIPS 180-2 vectors', () => {
+    it('should match the published digests', () => {
+      expect(digest('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+      expect(digest('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+      // Two blocks once padded
+      expect(digest('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+        '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+      );
+    });
+  });
+
+  describe('verifyCodeChallenge - PKCE', () => {
+    it('should accept the verifier behind a browser made challenge only', async () => {
+      const verifier = generateCodeVerifier();
+      const challenge = await createCodeChallenge(verifier);
+
+      expect(verifyCodeChallenge(verifier, challenge)).toBe(true);
+      expect(verifyCodeChallenge(generateCodeVerifier(), challenge)).toBe(false);
+    });
+  });
+
+  describe('authorization codes - round trip', () => {
+    it('should read back the claims of a fresh code', () => {
+      const code = createAuthorizationCode({
+        email: 'admin@example.com',
+        client_id: 'admin-dashboard',
+        redirect_uri: 'http://localhost/auth/callback',
+        code_challenge: 'challenge',
+        nonce: 'nonce',
+      });
+
+      expect(readAuthorizationCode(code)).toMatchObject({ email: 'admin@example.com', nonce: 'nonce' });
+      expect(readAuthorizationCode('not-a-code')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+// Stand-in for a corporate OpenID Connect provider. MockIdpPage issues the
+// authorization code, POST /auth/sso/callback redeems it like a backend would at
+// the provider's token endpoint. Synchronous because mock handlers are.
+
+// Providers keep codes short-lived; ten minutes is the RFC 6749 upper bound
+const CODE_TTL = 10 * 60; // seconds
+
+// ssoConfig.clientId while the mock provider is in use
+export const MOCK_OIDC_CLIENT_ID = 'admin-dashboard';
+
+export interface MockAuthorizationCode {
+  email: string;
+  client_id: string;
+  redirect_uri: string;
+  code_challenge: string;
+  nonce: string;
+  exp: number;
+}
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (value: string) => atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const rotr = (value: number, shift: number) => (value >>> shift) | (value << (32 - shift));
+
+export function sha256(message: Uint8Array): Uint8Array {
+  const length = message.length;
+  const padded = new Uint8Array(Math.ceil((length + 9) / 64) * 64);
+  padded.set(message);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 4, length * 8);
+  view.setUint32(padded.length - 8, Math.floor((length * 8) / 2 ** 32));
+
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const words = new Uint32Array(64);
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(words[i - 15], 7) ^ rotr(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotr(words[i - 2], 17) ^ rotr(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + K[i] + words[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) >>> 0;
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + temp1) >>> 0, c, b, a, (temp1 + temp2) >>> 0];
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((word, index) => {
+      hash[index] = (hash[index] + word) >>> 0;
+    });
+  }
+
+  const digest = new DataView(new ArrayBuffer(32));
+  hash.forEach((word, index) => digest.setUint32(index * 4, word));
+  return new Uint8Array(digest.buffer);
+}
+
+// The S256 check a provider does when the code is redeemed (RFC 7636 4.6)
+export const verifyCodeChallenge = (verifier: string, challenge: string) =>
+  base64UrlEncode(sha256(new TextEncoder().encode(verifier))) === challenge;
+
+// Unsigned, like the mock tokens: everything the exchange checks travels inside
+export function createAuthorizationCode(claims: Omit<MockAuthorizationCode, 'exp'>): string {
+  const payload: MockAuthorizationCode = { ...claims, exp: Math.floor(Date.now() / 1000) + CODE_TTL };
+  const id = base64UrlEncode(crypto.getRandomValues(new Uint8Array(8)));
+  return `${base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)))}.${id}`;
+}
+
+export function readAuthorizationCode(code: string): MockAuthorizationCode | null {
+  try {
+    const payload = JSON.parse(base64UrlDecode(code.split('.')[0] ?? '')) as MockAuthorizationCode;
+    return typeof payload.email === 'string' && payload.exp > Math.floor(Date.now() / 1000) ? payload : null;
+  } catch {
+    return null;
+  }
+}
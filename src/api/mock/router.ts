@@ -0,0 +1,234 @@
+import type { Permission, UserRole } from '@/types/models';
+import type { MockDb, MockSessionRecord, MockUserRecord } from './db';
+import { verifyToken } from './tokens';
+import { resolveSession } from './sessions';
+
+export type MockMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface MockRequest {
+  db: MockDb;
+  method: MockMethod;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  body: Record<string, unknown>;
+  headers: Record<string, string>;
+}
+
+export interface MockResponse {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse;
+
+export interface MockRoute {
+  method: MockMethod;
+  path: string;
+  handler: MockHandler;
+}
+
+export const route = (method: MockMethod, path: string, handler: MockHandler): MockRoute => ({
+  method,
+  path,
+  handler,
+});
+
+// Match '/users/:id' style paths, returning the named params
+export function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+// Thrown by handlers to end a request with an error response
+export class MockHttpError extends Error {
+  readonly status: number;
+  readonly errors?: Record<string, string[]>;
+
+  constructor(status: number, message: string, errors?: Record<string, string[]>) {
+    super(message);
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+// Laravel style envelopes
+export const ok = (data: unknown, message = 'Success', meta?: object): MockResponse => ({
+  status: 200,
+  data: { success: true, message, data, ...(meta ? { meta } : {}) },
+});
+
+export const created = (data: unknown, message: string): MockResponse => ({
+  ...ok(data, message),
+  status: 201,
+});
+
+export const fail = (status: number, message: string, errors?: Record<string, string[]>): never => {
+  throw new MockHttpError(status, message, errors);
+};
+
+export const validationFail = (errors: Record<string, string[]>): never =>
+  fail(422, 'The given data was invalid.', errors);
+
+// Resolve the signed in user and their session from the Authorization header.
+// impersonator is the super admin behind an impersonation session.
+export function authenticateSession(request: MockRequest): {
+  user: MockUserRecord;
+  session: MockSessionRecord;
+  impersonator: MockUserRecord | null;
+} {
+  const header = request.headers.authorization ?? request.headers.Authorization ?? '';
+  const payload = verifyToken(header.replace(/^Bearer\s+/i, ''), 'access');
+  const user = payload && request.db.users.find((item) => item.id === payload.sub && !item.deleted_at);
+  // A signed out session's tokens stop working right away, not when they expire
+  const session = payload && user ? resolveSession(request.db, payload) : null;
+  if (!user || !session) {
+    return fail(401, 'Unauthenticated.');
+  }
+
+  const impersonator = payload?.imp ? request.db.users.find((item) => item.id === payload.imp) ?? null : null;
+  if (impersonator) {
+    // Audit trail, like a backend middleware would keep
+    request.db.impersonationLog.push({
+      impersonator_id: impersonator.id,
+      user_id: user.id,
+      method: request.method.toUpperCase(),
+      path: request.path,
+      flagged: request.headers['x-impersonator-id'] === String(impersonator.id),
+      at: now(),
+    });
+  }
+  return { user, session, impersonator };
+}
+
+export function authenticate(request: MockRequest): MockUserRecord {
+  return authenticateSession(request).user;
+}
+
+// Like authenticate, but also requires one of the roles
+export function authorize(request: MockRequest, roles: UserRole[]): MockUserRecord {
+  const user = authenticate(request);
+  if (!roles.includes(user.role)) {
+    return fail(403, 'This action is unauthorized.');
+  }
+  return user;
+}
+
+// What a role may do under the current policy; unknown roles get nothing
+export const permissionsOf = (db: MockDb, role: UserRole): Permission[] =>
+  db.roles.find((item) => item.name === role)?.permissions ?? [];
+
+// Like authenticate, but the user's role must grant the permission. Custom
+// roles pass these checks; authorize() stays for super-admin-only actions.
+export function authorizePermission(request: MockRequest, permission: Permission): MockUserRecord {
+  const user = authenticate(request);
+  if (!permissionsOf(request.db, user.role).includes(permission)) {
+    return fail(403, 'This action is unauthorized.');
+  }
+  return user;
+}
+
+export const stringParam = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+export const booleanParam = (value: unknown): boolean => value === true || value === 'true' || value === '1' || value === 1;
+
+// Apply search, sort and pagination the way the Laravel controllers do
+export function paginate<T>(
+  items: T[],
+  query: Record<string, unknown>,
+  {
+    searchFields,
+    sortFields,
+  }: {
+    searchFields: (item: T) => Array<string | null | undefined>;
+    sortFields: Record<string, (item: T) => string | number>;
+  }
+) {
+  const search = stringParam(query.search).toLowerCase();
+  const filtered = search
+    ? items.filter((item) => searchFields(item).some((field) => field?.toLowerCase().includes(search)))
+    : items;
+
+  const sortBy = sortFields[stringParam(query.sort_by)] ? stringParam(query.sort_by) : 'created_at';
+  const direction = stringParam(query.sort_order) === 'asc' ? 1 : -1;
+  const getValue = sortFields[sortBy];
+  const sorted = [...filtered].sort((a, b) => {
+    const left = getValue(a);
+    const right = getValue(b);
+    if (left === right) return 0;
+    return (left > right ? 1 : -1) * direction;
+  });
+
+  const perPage = Math.min(100, Math.max(1, Number(query.per_page) || 10));
+  const lastPage = Math.max(1, Math.ceil(sorted.length / perPage));
+  const currentPage = Math.min(lastPage, Math.max(1, Number(query.page) || 1));
+
+  return {
+    data: sorted.slice((currentPage - 1) * perPage, currentPage * perPage),
+    meta: {
+      current_page: currentPage,
+      last_page: lastPage,
+      per_page: perPage,
+      total: sorted.length,
+    },
+  };
+}
+
+export const now = () => new Date().toISOString();
+
+type Rule = (value: unknown, body: Record<string, unknown>) => string | null;
+
+// Run per-field rules and fail with 422 listing every broken field
+export function validate(body: Record<string, unknown>, rules: Record<string, Rule[]>) {
+  const errors: Record<string, string[]> = {};
+  Object.entries(rules).forEach(([field, fieldRules]) => {
+    const messages = fieldRules
+      .map((rule) => rule(body[field], body))
+      .filter((message): message is string => message !== null);
+    if (messages.length > 0) {
+      errors[field] = messages;
+    }
+  });
+  if (Object.keys(errors).length > 0) {
+    validationFail(errors);
+  }
+}
+
+const label = (field: string) => field.replace(/_/g, ' ');
+
+export const rules = {
+  required: (field: string): Rule => (value) =>
+    value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+      ? `The ${label(field)} field is required.`
+      : null,
+  email: (field: string): Rule => (value) =>
+    value && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value)) ? `The ${label(field)} must be a valid email address.` : null,
+  min: (field: string, length: number): Rule => (value) =>
+    value && String(value).length < length ? `The ${label(field)} must be at least ${length} characters.` : null,
+  confirmed: (field: string): Rule => (value, body) =>
+    value && body[`${field}_confirmation`] !== value ? `The ${label(field)} confirmation does not match.` : null,
+  oneOf: (field: string, values: readonly string[]): Rule => (value) =>
+    value && !values.includes(String(value)) ? `The selected ${label(field)} is invalid.` : null,
+  // A role that exists and may be handed out (not super_admin)
+  assignableRole: (db: MockDb): Rule => (value) =>
+    value && (value === 'super_admin' || !db.roles.some((role) => role.name === value))
+      ? 'The selected role is invalid.'
+      : null,
+  // Email not used by another account, soft-deleted ones included
+  uniqueEmail: (db: MockDb, ignoreId?: number): Rule => (value) =>
+    db.users.some((user) => user.id !== ignoreId && user.email.toLowerCase() === String(value ?? '').toLowerCase())
+      ? 'The email has already been taken.'
+      : null,
+};
@@ -0,0 +1,81 @@
+import type { AccessRequest, Invitation, MerchantWithUser, Role, User, UserSession } from '@/types/models';
+import type {
+  MockAccessRequestRecord,
+  MockDb,
+  MockInvitationRecord,
+  MockMerchantRecord,
+  MockRoleRecord,
+  MockSessionRecord,
+  MockUserRecord,
+} from './db';
+import { parseUserAgent } from './sessions';
+
+// Shape a stored user like the backend's UserResource (never the password)
+export function toUser(db: MockDb, user: MockUserRecord): User {
+  const merchant = db.merchants.find((item) => item.user_id === user.id);
+  const lockedUntil = db.loginAttempts.get(user.email.toLowerCase())?.lockedUntil;
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    created_at: user.created_at,
+    updated_at: user.updated_at,
+    deleted_at: user.deleted_at,
+    two_factor_enabled: db.twoFactor.get(user.id)?.confirmed ?? false,
+    locked_until: lockedUntil && lockedUntil > Date.now() ? new Date(lockedUntil).toISOString() : null,
+    merchant: merchant ? { id: merchant.id, business_name: merchant.business_name } : null,
+  };
+}
+
+export function toMerchant(db: MockDb, merchant: MockMerchantRecord): MerchantWithUser {
+  const owner = db.users.find((item) => item.id === merchant.user_id);
+  return {
+    ...merchant,
+    user: {
+      id: merchant.user_id,
+      name: owner?.name ?? 'Unknown',
+      email: owner?.email ?? '',
+      role: owner?.role ?? 'merchant',
+    },
+  };
+}
+
+export function toSession(session: MockSessionRecord, currentSessionId: string): UserSession {
+  return {
+    id: session.id,
+    ...parseUserAgent(session.user_agent),
+    ip_address: session.ip_address,
+    last_active_at: session.last_active_at,
+    is_current: session.id === currentSessionId,
+  };
+}
+
+// Never includes the token - it only travels in the emailed link
+export function toInvitation(db: MockDb, invitation: MockInvitationRecord): Invitation {
+  const inviter = db.users.find((item) => item.id === invitation.invited_by);
+  return {
+    id: invitation.id,
+    name: invitation.name,
+    email: invitation.email,
+    role: invitation.role,
+    invited_by: inviter ? { id: inviter.id, name: inviter.name } : null,
+    expires_at: invitation.expires_at,
+    created_at: invitation.created_at,
+  };
+}
+
+// Role with how many active accounts have it
+export function toRole(db: MockDb, role: MockRoleRecord): Role {
+  return {
+    ...role,
+    permissions: [...role.permissions],
+    users_count: db.users.filter((user) => user.role === role.name && !user.deleted_at).length,
+  };
+}
+
+// The requester is the signed in user, so only the request itself is sent
+export function toAccessRequest(accessRequest: MockAccessRequestRecord): AccessRequest {
+  const { id, path, permission, reason, created_at } = accessRequest;
+  return { id, path, permission, reason, created_at };
+}
@@ -0,0 +1,85 @@
+import type { MockDb, MockSessionRecord } from './db';
+import type { MockTokenPayload } from './tokens';
+import type { SessionDeviceType } from '@/types/models';
+
+// Every session started in the browser comes from this machine
+const LOCAL_IP = '127.0.0.1';
+
+const createSession = (db: MockDb, userId: number, id: string): MockSessionRecord => {
+  const timestamp = new Date().toISOString();
+  const session: MockSessionRecord = {
+    id,
+    user_id: userId,
+    user_agent: globalThis.navigator?.userAgent ?? '',
+    ip_address: LOCAL_IP,
+    created_at: timestamp,
+    last_active_at: timestamp,
+  };
+  db.sessions.push(session);
+  return session;
+};
+
+// New device session on login; returns its id for the tokens
+export function startSession(db: MockDb, userId: number): string {
+  return createSession(db, userId, crypto.randomUUID()).id;
+}
+
+// The session a token belongs to, or null once it was signed out. Sessions
+// live in memory, so after a reload one is recreated from the token.
+export function resolveSession(db: MockDb, payload: MockTokenPayload): MockSessionRecord | null {
+  if (db.revokedSessions.has(payload.sid)) return null;
+
+  const session =
+    db.sessions.find((item) => item.id === payload.sid) ?? createSession(db, payload.sub, payload.sid);
+  if (session.user_id !== payload.sub) return null;
+
+  session.last_active_at = new Date().toISOString();
+  return session;
+}
+
+export function revokeSession(db: MockDb, sessionId: string) {
+  db.sessions = db.sessions.filter((item) => item.id !== sessionId);
+  db.revokedSessions.add(sessionId);
+}
+
+// Every session of the user except the one making the request
+export function revokeOtherSessions(db: MockDb, userId: number, currentId: string) {
+  db.sessions
+    .filter((item) => item.user_id === userId && item.id !== currentId)
+    .forEach((item) => revokeSession(db, item.id));
+}
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome claims Safari
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Chrome', /Chrome\//],
+  ['Firefox', /Firefox\//],
+  ['Safari', /Safari\//],
+];
+
+const PLATFORMS: Array<[string, RegExp]> = [
+  ['iOS', /iPhone|iPad/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X/],
+  ['Linux', /Linux/],
+];
+
+const findName = (candidates: Array<[string, RegExp]>, userAgent: string, fallback: string) =>
+  candidates.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? fallback;
+
+// Rough device details from a user agent, like the jenssegers/agent package
+export function parseUserAgent(userAgent: string): { device_type: SessionDeviceType; browser: string; platform: string } {
+  const device_type: SessionDeviceType = /iPad|Tablet/i.test(userAgent)
+    ? 'tablet'
+    : /Mobi|iPhone|Android/i.test(userAgent)
+      ? 'mobile'
+      : 'desktop';
+
+  return {
+    device_type,
+    browser: findName(BROWSERS, userAgent, 'Unknown browser'),
+    platform: findName(PLATFORMS, userAgent, 'Unknown platform'),
+  };
+}
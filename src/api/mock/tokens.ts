@@ -0,0 +1,61 @@
+// Unsigned JWT-style tokens: the payload is readable like a real JWT, and the
+// user id, session id and expiry travel inside the token so sessions survive a reload
+
+export const ACCESS_TOKEN_TTL = 15 * 60; // seconds
+export const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // seconds
+
+export type MockTokenType = 'access' | 'refresh';
+
+export interface MockTokenPayload {
+  sub: number;
+  // Session (device) the token belongs to; refreshing keeps it
+  sid: string;
+  // Super admin who is viewing the app as sub, if impersonating
+  imp?: number;
+  type: MockTokenType;
+  iat: number;
+  exp: number;
+}
+
+const base64UrlEncode = (value: string) =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (value: string) => atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+export function createToken(userId: number, type: MockTokenType, sessionId: string, impersonatorId?: number): string {
+  const iat = nowInSeconds();
+  const payload: MockTokenPayload = {
+    sub: userId,
+    sid: sessionId,
+    ...(impersonatorId ? { imp: impersonatorId } : {}),
+    type,
+    iat,
+    exp: iat + (type === 'access' ? ACCESS_TOKEN_TTL : REFRESH_TOKEN_TTL),
+  };
+  const header = base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  return `${header}.${base64UrlEncode(JSON.stringify(payload))}.mock`;
+}
+
+// Returns the payload of a valid, unexpired token of the given type
+export function verifyToken(token: string | null | undefined, type: MockTokenType): MockTokenPayload | null {
+  if (!token) return null;
+
+  try {
+    const payload = JSON.parse(base64UrlDecode(token.split('.')[1] ?? '')) as MockTokenPayload;
+    if (payload.type !== type || typeof payload.sub !== 'number' || typeof payload.sid !== 'string') return null;
+    return payload.exp > nowInSeconds() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// Fresh access + refresh pair, in the fields the login response uses
+export function issueTokens(userId: number, sessionId: string, impersonatorId?: number) {
+  return {
+    token: createToken(userId, 'access', sessionId, impersonatorId),
+    refresh_token: createToken(userId, 'refresh', sessionId, impersonatorId),
+    expires_in: ACCESS_TOKEN_TTL,
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { base32Decode, base32Encode, generateTotp, verifyTotp } from '@/api/mock/totp';
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('Mock TOTP', () => {
+  describe('base32 - round trip', () => {
+    it('should encode and decode the same bytes', () => {
+      const bytes = new TextEncoder().encode('12345678901234567890');
+      expect(base32Encode(bytes)).toBe(RFC_SECRET);
+      expect(Array.from(base32Decode(RFC_SECRET))).toEqual(Array.from(bytes));
+    });
+  });
+
+  describe('generateTotp - RFC 6238 vectors', () => {
+    it('should match the published SHA-1 codes', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+    });
+  });
+
+  describe('verifyTotp - clock drift', () => {
+    it('should accept the neighbouring steps only', () => {
+      const time = 1111111109 * 1000;
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time - 30 * 1000), time)).toBe(true);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time - 90 * 1000), time)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+// RFC 6238 time-based one-time passwords, so the fake backend accepts codes
+// from a real authenticator app. Synchronous because mock handlers are.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD = 30; // seconds
+const TOTP_DIGITS = 6;
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach((byte) => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+const rotl = (value: number, shift: number) => (value << shift) | (value >>> (32 - shift));
+
+function sha1(message: Uint8Array): Uint8Array {
+  const length = message.length;
+  const padded = new Uint8Array(Math.ceil((length + 9) / 64) * 64);
+  padded.set(message);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 4, length * 8);
+  view.setUint32(padded.length - 8, Math.floor((length * 8) / 2 ** 32));
+
+  let [h0, h1, h2, h3, h4] = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const words = new Uint32Array(80);
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i++) words[i] = rotl(words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16], 1);
+
+    let [a, b, c, d, e] = [h0, h1, h2, h3, h4];
+    for (let i = 0; i < 80; i++) {
+      const [f, k] =
+        i < 20 ? [(b & c) | (~b & d), 0x5a827999]
+        : i < 40 ? [b ^ c ^ d, 0x6ed9eba1]
+        : i < 60 ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+        : [b ^ c ^ d, 0xca62c1d6];
+      const temp = (rotl(a, 5) + f + e + k + words[i]) >>> 0;
+      [e, d, c, b, a] = [d, c, rotl(b, 30) >>> 0, a, temp];
+    }
+
+    h0 = (h0 + a) >>> 0;
+    h1 = (h1 + b) >>> 0;
+    h2 = (h2 + c) >>> 0;
+    h3 = (h3 + d) >>> 0;
+    h4 = (h4 + e) >>> 0;
+  }
+
+  const digest = new DataView(new ArrayBuffer(20));
+  [h0, h1, h2, h3, h4].forEach((word, index) => digest.setUint32(index * 4, word));
+  return new Uint8Array(digest.buffer);
+}
+
+function hmacSha1(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha1(key) : key);
+
+  const inner = new Uint8Array(64 + message.length);
+  const outer = new Uint8Array(64 + 20);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = block[i] ^ 0x36;
+    outer[i] = block[i] ^ 0x5c;
+  }
+  inner.set(message, 64);
+  outer.set(sha1(inner), 64);
+  return sha1(outer);
+}
+
+// The code for the 30 second step containing time (ms)
+export function generateTotp(secret: string, time: number = Date.now()): string {
+  const counter = new DataView(new ArrayBuffer(8));
+  const step = Math.floor(time / 1000 / TOTP_PERIOD);
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+
+  const hash = hmacSha1(base32Decode(secret), new Uint8Array(counter.buffer));
+  const offset = hash[hash.length - 1] & 0x0f;
+  const binary = new DataView(hash.buffer).getUint32(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// Accept the previous and next step too, for clock drift
+export function verifyTotp(secret: string, code: string, time: number = Date.now()): boolean {
+  const normalized = code.replace(/\s/g, '');
+  return [-1, 0, 1].some((drift) => generateTotp(secret, time + drift * TOTP_PERIOD * 1000) === normalized);
+}
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const generateTotpSecret = () => base32Encode(randomBytes(20));
+
+// otpauth:// URI understood by authenticator apps (shown as a QR code)
+export const getOtpauthUrl = (secret: string, email: string, issuer = 'AdminPanel') =>
+  `otpauth://totp/${encodeURIComponent(`${issuer}:${email}`)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`;
+
+// Recovery codes look like "a1b2c-d3e4f"
+export function generateRecoveryCodes(count = 8): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = Array.from(randomBytes(5), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
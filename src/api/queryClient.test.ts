@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createQueryClient, hashQueryKey } from '@/api/queryClient';
+
+describe('Query Client', () => {
+  describe('hashQueryKey - key hashing', () => {
+    it('should ignore object property order', () => {
+      expect(hashQueryKey(['users', { page: 1, search: 'john' }])).toBe(
+        hashQueryKey(['users', { search: 'john', page: 1 }])
+      );
+    });
+
+    it('should distinguish different params', () => {
+      expect(hashQueryKey(['users', { page: 1 }])).not.toBe(hashQueryKey(['users', { page: 2 }]));
+    });
+  });
+
+  describe('caching and dedupe', () => {
+    it('should share one request between concurrent callers', async () => {
+      const client = createQueryClient();
+      const queryFn = vi.fn().mockResolvedValue({ data: [] });
+      client.configure(['users'], { queryFn });
+
+      await Promise.all([client.fetchQuery(['users']), client.fetchQuery(['users'])]);
+
+      expect(queryFn).toHaveBeenCalledTimes(1);
+      expect(client.getState(['users']).status).toBe('success');
+    });
+
+    it('should serve fresh data from cache', async () => {
+      const client = createQueryClient();
+      const queryFn = vi.fn().mockResolvedValue('dashboard');
+      client.configure(['dashboard'], { queryFn, staleTime: 60_000 });
+
+      await client.ensureQuery(['dashboard']);
+      const cached = await client.ensureQuery(['dashboard']);
+
+      expect(cached).toBe('dashboard');
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store normalized errors in state', async () => {
+      const client = createQueryClient();
+      client.configure(['merchants'], { queryFn: () => Promise.reject(new Error('Boom')) });
+
+      await expect(client.fetchQuery(['merchants'])).rejects.toThrow('Boom');
+      expect(client.getState(['merchants']).error?.kind).toBe('unknown');
+    });
+
+    it('should tell only the main page query to show the Forbidden page', async () => {
+      const client = createQueryClient();
+      const usersFn = vi.fn().mockResolvedValue('users');
+      const rolesFn = vi.fn().mockResolvedValue('roles');
+      client.configure(['users'], { queryFn: usersFn, forbiddenPage: true });
+      client.configure(['roles'], { queryFn: rolesFn });
+
+      await client.fetchQuery(['users']);
+      await client.fetchQuery(['roles']);
+
+      expect(usersFn.mock.calls[0][0].forbiddenPage).toBe(true);
+      expect(rolesFn.mock.calls[0][0].forbiddenPage).toBe(false);
+    });
+  });
+
+  describe('invalidate - tag based refresh', () => {
+    it('should refetch visible queries with a matching tag', async () => {
+      const client = createQueryClient();
+      const dashboardFn = vi.fn().mockResolvedValue('dashboard');
+      const usersFn = vi.fn().mockResolvedValue('users');
+      client.configure(['dashboard'], { queryFn: dashboardFn, tags: ['dashboard'] });
+      client.configure(['users'], { queryFn: usersFn, tags: ['users'] });
+      client.subscribe(['dashboard'], () => undefined);
+      client.subscribe(['users'], () => undefined);
+      await client.ensureQuery(['dashboard']);
+      await client.ensureQuery(['users']);
+
+      client.invalidate(['dashboard']);
+
+      expect(dashboardFn).toHaveBeenCalledTimes(2);
+      expect(usersFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch hidden queries on next use', async () => {
+      const client = createQueryClient();
+      const queryFn = vi.fn().mockResolvedValue('merchants');
+      client.configure(['merchants'], { queryFn, tags: ['merchants'], staleTime: 60_000 });
+      await client.ensureQuery(['merchants']);
+
+      client.invalidate(['merchants']);
+      expect(queryFn).toHaveBeenCalledTimes(1);
+
+      await client.ensureQuery(['merchants']);
+      expect(queryFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation - race free fetching', () => {
+    it('should pass an abort signal to the query function', async () => {
+      const client = createQueryClient();
+      const queryFn = vi.fn().mockResolvedValue('users');
+      client.configure(['users'], { queryFn });
+
+      await client.fetchQuery(['users']);
+
+      expect(queryFn.mock.calls[0][0].signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should ignore a response superseded by a newer request', async () => {
+      const client = createQueryClient();
+      const resolvers: Array<(value: string) => void> = [];
+      client.configure(['users'], {
+        queryFn: () => new Promise<string>((resolve) => resolvers.push(resolve)),
+        tags: ['users'],
+      });
+      client.subscribe(['users'], () => undefined);
+
+      const first = client.fetchQuery(['users']).catch(() => undefined);
+      client.invalidate(['users']);
+      resolvers[1]('fresh');
+      resolvers[0]('stale');
+      await first;
+
+      expect(client.getState(['users']).data).toBe('fresh');
+    });
+
+    it('should abort the request when the last subscriber leaves', async () => {
+      vi.useFakeTimers();
+      const client = createQueryClient();
+      let signal: AbortSignal | undefined;
+      client.configure(['merchants'], {
+        queryFn: (context) => {
+          signal = context.signal;
+          return new Promise(() => undefined);
+        },
+      });
+      const unsubscribe = client.subscribe(['merchants'], () => undefined);
+      client.fetchQuery(['merchants']).catch(() => undefined);
+
+      unsubscribe();
+      vi.advanceTimersByTime(0);
+
+      expect(signal?.aborted).toBe(true);
+      vi.useRealTimers();
+    });
+  });
+});
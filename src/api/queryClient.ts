@@ -0,0 +1,275 @@
+import { normalizeApiError, type ApiRequestError } from './errors';
+import type { RequestOptions } from './client';
+
+// Query keys are arrays like ['users', { page: 1, search: 'john' }]
+export type QueryKey = readonly unknown[];
+
+// Tags describe which backend data a query shows, so mutations can refresh it
+export type QueryTag = 'users' | 'merchants' | 'dashboard' | (string & {});
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface QueryState<T = unknown> {
+  status: QueryStatus;
+  data: T | undefined;
+  error: ApiRequestError | null;
+  isFetching: boolean;
+  // Failed attempts of the current fetch that are being retried
+  retryCount: number;
+  updatedAt: number;
+}
+
+// Passed to every query function; forward it to the api helpers so requests
+// can be aborted and retries show up in the query state
+export type QueryFunctionContext = Required<Pick<RequestOptions, 'signal' | 'onRetry' | 'forbiddenPage'>>;
+
+export type QueryFunction<T> = (context: QueryFunctionContext) => Promise<T>;
+
+export interface QueryConfig<T> {
+  queryFn: QueryFunction<T>;
+  tags?: QueryTag[];
+  staleTime?: number;
+  // The page's main data - see RequestOptions
+  forbiddenPage?: boolean;
+}
+
+interface CacheEntry {
+  state: QueryState;
+  queryFn?: QueryFunction<unknown>;
+  tags: QueryTag[];
+  staleTime: number;
+  forbiddenPage: boolean;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+  isInvalidated: boolean;
+}
+
+export const DEFAULT_STALE_TIME = 30 * 1000; // 30 seconds
+const CACHE_TIME = 5 * 60 * 1000; // unused entries are dropped after 5 minutes
+
+export const IDLE_QUERY_STATE: QueryState = {
+  status: 'idle',
+  data: undefined,
+  error: null,
+  isFetching: false,
+  retryCount: 0,
+  updatedAt: 0,
+};
+
+// Stable hash for a query key - object keys are sorted so { a, b } === { b, a }
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value: unknown) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.keys(value as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, name) => {
+          sorted[name] = (value as Record<string, unknown>)[name];
+          return sorted;
+        }, {});
+    }
+    return value;
+  });
+}
+
+export function createQueryClient() {
+  const entries = new Map<string, CacheEntry>();
+
+  const getEntry = (hash: string): CacheEntry => {
+    let entry = entries.get(hash);
+    if (!entry) {
+      entry = {
+        state: IDLE_QUERY_STATE,
+        tags: [],
+        staleTime: DEFAULT_STALE_TIME,
+        forbiddenPage: false,
+        listeners: new Set(),
+        isInvalidated: false,
+      };
+      entries.set(hash, entry);
+    }
+    return entry;
+  };
+
+  const setState = (entry: CacheEntry, patch: Partial<QueryState>) => {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  };
+
+  const isStale = (entry: CacheEntry): boolean =>
+    entry.isInvalidated || entry.state.status !== 'success' || Date.now() - entry.state.updatedAt > entry.staleTime;
+
+  // Run the query function, sharing one in-flight request between all callers.
+  // With force, a request already in flight is aborted and started again so
+  // a response computed before a mutation can never overwrite newer data.
+  const fetchEntry = (entry: CacheEntry, { force = false } = {}): Promise<unknown> => {
+    if (entry.promise && !force) return entry.promise;
+    if (!entry.queryFn) return Promise.resolve(entry.state.data);
+
+    entry.controller?.abort();
+    const controller = new AbortController();
+    entry.controller = controller;
+
+    setState(entry, {
+      isFetching: true,
+      retryCount: 0,
+      status: entry.state.data === undefined ? 'loading' : entry.state.status,
+    });
+
+    // Only the latest request for an entry may update its state
+    const isCurrent = () => entry.controller === controller;
+
+    const onRetry = ({ attempt }: { attempt: number }) => {
+      if (isCurrent()) {
+        setState(entry, { retryCount: attempt });
+      }
+    };
+
+    const promise = entry.queryFn({ signal: controller.signal, onRetry, forbiddenPage: entry.forbiddenPage })
+      .then((data) => {
+        if (isCurrent()) {
+          entry.isInvalidated = false;
+          setState(entry, { status: 'success', data, error: null, isFetching: false, retryCount: 0, updatedAt: Date.now() });
+        }
+        return data;
+      })
+      .catch((error: unknown) => {
+        const apiError = normalizeApiError(error);
+        if (isCurrent()) {
+          if (apiError.kind === 'cancelled') {
+            // Aborted because nobody is looking anymore - fetch again on next use
+            entry.isInvalidated = true;
+            setState(entry, { status: entry.state.data === undefined ? 'idle' : 'success', isFetching: false, retryCount: 0 });
+          } else {
+            setState(entry, { status: 'error', error: apiError, isFetching: false, retryCount: 0 });
+          }
+        }
+        throw apiError;
+      })
+      .finally(() => {
+        if (isCurrent()) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+        }
+      });
+
+    entry.promise = promise;
+    return promise;
+  };
+
+  // Abort the in-flight request of an entry nobody is subscribed to anymore
+  const abortIfUnused = (entry: CacheEntry) => {
+    if (entry.listeners.size === 0 && entry.controller) {
+      entry.controller.abort();
+    }
+  };
+
+  // Background refetches report errors through state, not rejections
+  const refetchQuietly = (entry: CacheEntry, options?: { force?: boolean }) => {
+    fetchEntry(entry, options).catch(() => undefined);
+  };
+
+  return {
+    getState<T>(key: QueryKey): QueryState<T> {
+      return (entries.get(hashQueryKey(key))?.state ?? IDLE_QUERY_STATE) as QueryState<T>;
+    },
+
+    // Register the latest query function and options for a key
+    configure<T>(key: QueryKey, { queryFn, tags = [], staleTime = DEFAULT_STALE_TIME, forbiddenPage = false }: QueryConfig<T>) {
+      const entry = getEntry(hashQueryKey(key));
+      entry.queryFn = queryFn as QueryFunction<unknown>;
+      entry.tags = tags;
+      entry.staleTime = staleTime;
+      entry.forbiddenPage = forbiddenPage;
+    },
+
+    subscribe(key: QueryKey, listener: () => void): () => void {
+      const hash = hashQueryKey(key);
+      const entry = getEntry(hash);
+      clearTimeout(entry.gcTimer);
+      entry.listeners.add(listener);
+
+      return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0) {
+          // Deferred so a component that immediately resubscribes (StrictMode,
+          // key toggling back) keeps its request
+          setTimeout(() => abortIfUnused(entry), 0);
+          entry.gcTimer = setTimeout(() => {
+            if (entry.listeners.size === 0 && !entry.promise) {
+              entries.delete(hash);
+            }
+          }, CACHE_TIME);
+        }
+      };
+    },
+
+    // Fetch only when there is no fresh data for the key
+    ensureQuery<T>(key: QueryKey): Promise<T | undefined> {
+      const entry = getEntry(hashQueryKey(key));
+      if (!isStale(entry)) {
+        return Promise.resolve(entry.state.data as T);
+      }
+      return fetchEntry(entry) as Promise<T>;
+    },
+
+    // Always hit the backend (deduped with any request already in flight)
+    fetchQuery<T>(key: QueryKey): Promise<T> {
+      return fetchEntry(getEntry(hashQueryKey(key))) as Promise<T>;
+    },
+
+    // Mark every query showing one of the tags as stale and refetch the visible ones
+    invalidate(tags: QueryTag[]) {
+      entries.forEach((entry) => {
+        if (!entry.tags.some((tag) => tags.includes(tag))) return;
+        entry.isInvalidated = true;
+        if (entry.listeners.size > 0) {
+          refetchQuietly(entry, { force: true });
+        } else {
+          entry.controller?.abort();
+        }
+      });
+    },
+
+    // Refetch stale queries that are currently on screen (e.g. on window focus)
+    refetchStale() {
+      entries.forEach((entry) => {
+        if (entry.listeners.size > 0 && isStale(entry)) {
+          refetchQuietly(entry);
+        }
+      });
+    },
+
+    // Drop everything, e.g. when the signed in user changes
+    clear() {
+      entries.forEach((entry) => {
+        clearTimeout(entry.gcTimer);
+        entry.controller?.abort();
+      });
+      entries.clear();
+    },
+  };
+}
+
+export type QueryClient = ReturnType<typeof createQueryClient>;
+
+export const queryClient = createQueryClient();
+
+// Refetch stale data when the user comes back to the tab
+if (typeof window !== 'undefined') {
+  window.addEventListener('focus', () => queryClient.refetchStale());
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      queryClient.refetchStale();
+    }
+  });
+}
+
+// Use after a mutation resolves to refresh every query showing the affected data
+export function invalidatesTags<T>(...tags: QueryTag[]) {
+  return (result: T): T => {
+    queryClient.invalidate(tags);
+    return result;
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ApiRequestError } from '@/api/errors';
+import {
+  DEFAULT_RETRY_POLICY,
+  getNextDelay,
+  getRetryDelay,
+  resolveRetryPolicy,
+  withRetry,
+} from '@/api/retry';
+
+const serverError = () => new ApiRequestError({ kind: 'server', status: 500, message: 'Server error' });
+const rateLimited = (retryAfter: number | null) =>
+  new ApiRequestError({ kind: 'rate_limited', status: 429, message: 'Too many requests', retryAfter });
+
+describe('Request Retry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('resolveRetryPolicy - opt in rules', () => {
+    it('should retry GET requests by default', () => {
+      expect(resolveRetryPolicy('get')).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should never retry writes unless opted in', () => {
+      expect(resolveRetryPolicy('post')).toBeNull();
+      expect(resolveRetryPolicy('put')).toBeNull();
+      expect(resolveRetryPolicy('delete')).toBeNull();
+      expect(resolveRetryPolicy('post', true)).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should accept a retry count or a partial policy', () => {
+      expect(resolveRetryPolicy('get', 1)?.retries).toBe(1);
+      expect(resolveRetryPolicy('get', 0)).toBeNull();
+      expect(resolveRetryPolicy('get', false)).toBeNull();
+      expect(resolveRetryPolicy('get', { baseDelay: 100 })?.baseDelay).toBe(100);
+    });
+  });
+
+  describe('getRetryDelay - backoff with jitter', () => {
+    it('should double the delay on every attempt', () => {
+      const noJitter = () => 1;
+      expect(getRetryDelay(1, DEFAULT_RETRY_POLICY, noJitter)).toBe(500);
+      expect(getRetryDelay(2, DEFAULT_RETRY_POLICY, noJitter)).toBe(1000);
+      expect(getRetryDelay(3, DEFAULT_RETRY_POLICY, noJitter)).toBe(2000);
+    });
+
+    it('should keep the jittered delay between half and the full backoff', () => {
+      expect(getRetryDelay(2, DEFAULT_RETRY_POLICY, () => 0)).toBe(500);
+    });
+
+    it('should cap the delay at maxDelay', () => {
+      expect(getRetryDelay(10, DEFAULT_RETRY_POLICY, () => 1)).toBe(DEFAULT_RETRY_POLICY.maxDelay);
+    });
+  });
+
+  describe('getNextDelay - retry decisions', () => {
+    it('should not retry client errors', () => {
+      const error = new ApiRequestError({ kind: 'validation', status: 422, message: 'Invalid' });
+      expect(getNextDelay(error, 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+
+    it('should honor Retry-After on 429', () => {
+      expect(getNextDelay(rateLimited(2), 1, DEFAULT_RETRY_POLICY)).toBe(2000);
+    });
+
+    it('should give up when Retry-After is too long', () => {
+      expect(getNextDelay(rateLimited(120), 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+
+    it('should stop after the configured number of retries', () => {
+      expect(getNextDelay(serverError(), DEFAULT_RETRY_POLICY.retries + 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+  });
+
+  describe('withRetry - request loop', () => {
+    it('should retry a failed GET and report each retry', async () => {
+      vi.useFakeTimers();
+      const send = vi.fn().mockRejectedValueOnce(serverError()).mockResolvedValue('ok');
+      const onRetry = vi.fn();
+
+      const result = withRetry(send, { method: 'get', onRetry });
+      await vi.runAllTimersAsync();
+
+      await expect(result).resolves.toBe('ok');
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1 }));
+    });
+
+    it('should not retry a POST', async () => {
+      const send = vi.fn().mockRejectedValue(serverError());
+
+      await expect(withRetry(send, { method: 'post' })).rejects.toThrow('Server error');
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting when the request is aborted', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const send = vi.fn().mockRejectedValue(serverError());
+
+      const result = withRetry(send, { method: 'get', signal: controller.signal });
+      const assertion = expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+      await assertion;
+
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { CanceledError } from 'axios';
+import { normalizeApiError, type ApiRequestError } from './errors';
+
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  // Delay before the first retry, doubled on every attempt
+  baseDelay: number;
+  maxDelay: number;
+  // Give up instead of waiting when the server asks for a longer pause (ms)
+  maxRetryAfter: number;
+}
+
+// true/false toggles the default policy, a number sets how many retries
+export type RetryOption = boolean | number | Partial<RetryPolicy>;
+
+export interface RetryInfo {
+  attempt: number;
+  delay: number;
+  error: ApiRequestError;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  maxRetryAfter: 30 * 1000,
+};
+
+// Safe to send twice - everything else only retries when the caller opts in
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toLowerCase());
+}
+
+// Resolve the effective policy for a request, or null when it must not be retried
+export function resolveRetryPolicy(method: string, option?: RetryOption): RetryPolicy | null {
+  const enabled = option === undefined ? isIdempotentMethod(method) : option !== false;
+  if (!enabled) return null;
+
+  if (typeof option === 'number') {
+    return option > 0 ? { ...DEFAULT_RETRY_POLICY, retries: option } : null;
+  }
+  if (typeof option === 'object') {
+    return { ...DEFAULT_RETRY_POLICY, ...option };
+  }
+  return DEFAULT_RETRY_POLICY;
+}
+
+// Transient failures only - a 4xx will fail the same way next time
+export function isRetryableError(error: ApiRequestError): boolean {
+  return (
+    error.kind === 'network' ||
+    error.kind === 'timeout' ||
+    error.kind === 'server' ||
+    error.kind === 'rate_limited'
+  );
+}
+
+// Exponential backoff with "equal jitter": half fixed, half random, so clients
+// that failed together do not all come back at the same moment
+export function getRetryDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+// How long to wait before the given attempt, or null to stop retrying
+export function getNextDelay(error: ApiRequestError, attempt: number, policy: RetryPolicy): number | null {
+  if (attempt > policy.retries || !isRetryableError(error)) return null;
+
+  // 429 and 503 tell us when to come back
+  if ((error.status === 429 || error.status === 503) && error.retryAfter !== null) {
+    const delay = error.retryAfter * 1000;
+    return delay <= policy.maxRetryAfter ? delay : null;
+  }
+
+  return getRetryDelay(attempt, policy);
+}
+
+// Resolve after ms, or reject as cancelled as soon as the signal aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(normalizeApiError(new CanceledError()));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      cancel();
+    } else {
+      signal?.addEventListener('abort', cancel, { once: true });
+    }
+  });
+}
+
+interface WithRetryOptions {
+  method: string;
+  retry?: RetryOption;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+// Run a request, repeating it on transient failures according to the policy
+export async function withRetry<T>(
+  send: () => Promise<T>,
+  { method, retry, signal, onRetry }: WithRetryOptions
+): Promise<T> {
+  const policy = resolveRetryPolicy(method, retry);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await send();
+    } catch (err) {
+      const error = normalizeApiError(err);
+      const delay = policy ? getNextDelay(error, attempt, policy) : null;
+      if (delay === null || signal?.aborted) throw error;
+
+      onRetry?.({ attempt, delay, error });
+      await wait(delay, signal);
+    }
+  }
+}
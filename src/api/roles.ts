@@ -0,0 +1,40 @@
+import { api, type RequestOptions } from './client';
+import { invalidatesTags } from './queryClient';
+import {
+  parseResponse,
+  roleResponseSchema,
+  rolesResponseSchema,
+  permissionDefinitionsResponseSchema,
+  emptyResponseSchema,
+} from './schemas';
+import type { StoreRolePayload, UpdateRolePayload } from '@/types/models';
+
+// Roles API endpoints. Listing is open to every signed in user (the user
+// forms need it); changes require canManageRoles. User lists and the dashboard
+// show role display names, so changes refresh them too.
+export const rolesApi = {
+  // Built-in and custom roles with their permissions and user counts
+  getRoles: (options?: RequestOptions) =>
+    api.get('/roles', undefined, options).then(parseResponse(rolesResponseSchema, 'GET /roles')),
+
+  // Every permission a role can be granted, for the permission matrix
+  getPermissions: (options?: RequestOptions) =>
+    api.get('/permissions', undefined, options).then(parseResponse(permissionDefinitionsResponseSchema, 'GET /permissions')),
+
+  createRole: (data: StoreRolePayload) =>
+    api.post('/roles', data)
+      .then(parseResponse(roleResponseSchema, 'POST /roles'))
+      .then(invalidatesTags('roles', 'users', 'dashboard')),
+
+  // The name stays; display name, description and permissions can change
+  updateRole: (id: string, data: UpdateRolePayload) =>
+    api.put(`/roles/${id}`, data)
+      .then(parseResponse(roleResponseSchema, 'PUT /roles/:id'))
+      .then(invalidatesTags('roles', 'users', 'dashboard')),
+
+  // 409 while users still have the role; system roles cannot be deleted
+  deleteRole: (id: string) =>
+    api.delete(`/roles/${id}`)
+      .then(parseResponse(emptyResponseSchema, 'DELETE /roles/:id'))
+      .then(invalidatesTags('roles', 'users', 'dashboard')),
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  authSessionResponseSchema,
+  dashboardResponseSchema,
+  parseResponse,
+  usersResponseSchema,
+} from '@/api/schemas';
+
+const user = {
+  id: 1,
+  name: 'John Doe',
+  email: 'john@example.com',
+  role: 'admin',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+const envelope = (data: unknown) => ({ success: true, message: 'OK', data });
+
+describe('API Response Schemas', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('parseResponse - valid responses', () => {
+    it('should return the parsed body', () => {
+      const meta = { current_page: 1, last_page: 1, per_page: 10, total: 1 };
+      const result = parseResponse(usersResponseSchema, 'GET /users')({ ...envelope([user]), meta });
+
+      expect(result.data[0].email).toBe('john@example.com');
+      expect(result.meta?.total).toBe(1);
+    });
+
+    it('should accept a dashboard without optional sections', () => {
+      const body = envelope({ summary: { total_merchants: 3, active_merchants: 2 } });
+      expect(() => parseResponse(dashboardResponseSchema, 'GET /dashboard')(body)).not.toThrow();
+    });
+  });
+
+  describe('parseResponse - schema drift', () => {
+    it('should throw a schema ApiRequestError', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      vi.spyOn(console, 'groupCollapsed').mockImplementation(() => undefined);
+      vi.spyOn(console, 'groupEnd').mockImplementation(() => undefined);
+
+      const parse = parseResponse(usersResponseSchema, 'GET /users');
+
+      expect(() => parse(envelope([{ ...user, role: 42 }]))).toThrow(
+        expect.objectContaining({ kind: 'schema' })
+      );
+    });
+
+    it('should report the offending path in development', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      vi.spyOn(console, 'groupCollapsed').mockImplementation(() => undefined);
+      vi.spyOn(console, 'groupEnd').mockImplementation(() => undefined);
+
+      try {
+        parseResponse(usersResponseSchema, 'GET /users')(envelope([{ ...user, email: null }]));
+      } catch {
+        // expected
+      }
+
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('data.0.email'));
+    });
+  });
+
+  describe('authSessionSchema - login responses', () => {
+    it('should unwrap a { user } payload', () => {
+      const result = authSessionResponseSchema.parse(envelope({ user: { ...user, token: 'abc' } }));
+      expect(result.data.token).toBe('abc');
+    });
+
+    it('should accept a bare user payload', () => {
+      const result = authSessionResponseSchema.parse(envelope({ ...user, token: 'abc' }));
+      expect(result.data.id).toBe(1);
+    });
+
+    it('should reject a session without a token', () => {
+      expect(authSessionResponseSchema.safeParse(envelope({ user })).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+// Zod schemas for API responses - every response is checked before pages see it
+import { z } from 'zod';
+import { ApiRequestError } from './errors';
+import type {
+  AccessRequest,
+  DashboardData,
+  Invitation,
+  InvitationDetails,
+  MerchantWithUser,
+  TwoFactorSetup,
+  PermissionDefinition,
+  Role,
+  User,
+  UserPermissions,
+  UserSession,
+} from '@/types/models';
+
+// Built-in or custom role name
+export const roleNameSchema = z.string().min(1);
+
+export const paginationMetaSchema = z.object({
+  current_page: z.number(),
+  last_page: z.number(),
+  per_page: z.number(),
+  total: z.number(),
+});
+
+// Standard Laravel envelope: { success, message, data, meta? }
+export const apiResponseSchema = <T extends z.ZodType>(data: T) =>
+  z.object({
+    success: z.boolean(),
+    message: z.string(),
+    data,
+    meta: paginationMetaSchema.optional(),
+  });
+
+export const userSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: roleNameSchema,
+  token: z.string().optional(),
+  refresh_token: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  deleted_at: z.string().nullish(),
+  two_factor_enabled: z.boolean().optional(),
+  locked_until: z.string().nullish(),
+  merchant: z
+    .object({
+      id: z.number(),
+      business_name: z.string(),
+    })
+    .nullish(),
+}) satisfies z.ZodType<User>;
+
+const merchantOwnerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: z.string(),
+});
+
+export const merchantSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  business_name: z.string(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  user: merchantOwnerSchema,
+}) satisfies z.ZodType<MerchantWithUser>;
+
+export const dashboardSchema = z.object({
+  summary: z.object({
+    total_users: z.number().optional(),
+    total_merchants: z.number(),
+    active_merchants: z.number(),
+    inactive_merchants: z.number().optional(),
+  }),
+  users_by_role: z.record(z.string(), z.number()).optional(),
+  recent_users: z.array(userSchema).optional(),
+  recent_merchants: z.array(merchantSchema).optional(),
+  merchant: z
+    .object({
+      id: z.number(),
+      business_name: z.string(),
+      phone: z.string().nullable(),
+      address: z.string().nullable(),
+      user: merchantOwnerSchema.pick({ id: true, name: true, email: true }),
+      created_at: z.string(),
+    })
+    .optional(),
+}) satisfies z.ZodType<DashboardData>;
+
+export const invitationSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: roleNameSchema,
+  invited_by: z.object({ id: z.number(), name: z.string() }).nullish(),
+  expires_at: z.string(),
+  created_at: z.string(),
+}) satisfies z.ZodType<Invitation>;
+
+export const invitationDetailsSchema = invitationSchema.pick({
+  name: true,
+  email: true,
+  role: true,
+  expires_at: true,
+}) satisfies z.ZodType<InvitationDetails>;
+
+// A signed in user always comes with an access token
+export const authUserSchema = userSchema.extend({
+  token: z.string().min(1),
+  // Access token lifetime in seconds, when the backend reports it
+  expires_in: z.number().positive().optional(),
+});
+
+export type AuthUser = z.infer<typeof authUserSchema>;
+
+// Auth endpoints return the user either bare or wrapped in { user }
+export const authSessionSchema = z.union([
+  z.object({ user: authUserSchema }).transform(({ user }) => user),
+  authUserSchema,
+]);
+
+// Login answer for accounts with two-factor enabled: no session until a code is verified
+export const twoFactorChallengeSchema = z.object({
+  two_factor_required: z.literal(true),
+  challenge_token: z.string().min(1),
+});
+
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+
+// Details the backend adds to a failed login: attempts left (401) or when a
+// locked account opens again (423)
+export const loginFailureSchema = z.object({
+  data: z
+    .object({
+      attempts_remaining: z.number().optional(),
+      locked_until: z.string().optional(),
+    })
+    .nullish(),
+});
+
+export const twoFactorSetupSchema = z.object({
+  secret: z.string().min(1),
+  otpauth_url: z.string().startsWith('otpauth://'),
+}) satisfies z.ZodType<TwoFactorSetup>;
+
+export const userSessionSchema = z.object({
+  id: z.string(),
+  device_type: z.enum(['desktop', 'mobile', 'tablet']),
+  browser: z.string(),
+  platform: z.string(),
+  ip_address: z.string(),
+  last_active_at: z.string(),
+  is_current: z.boolean(),
+}) satisfies z.ZodType<UserSession>;
+
+export const userPermissionsSchema = z.object({
+  permissions: z.array(z.string()),
+}) satisfies z.ZodType<UserPermissions>;
+
+export const roleSchema = z.object({
+  id: z.number(),
+  name: roleNameSchema,
+  display_name: z.string(),
+  description: z.string().nullish(),
+  permissions: z.array(z.string()),
+  is_system: z.boolean(),
+  users_count: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+}) satisfies z.ZodType<Role>;
+
+export const permissionDefinitionSchema = z.object({
+  name: z.string(),
+  label: z.string(),
+  group: z.string(),
+}) satisfies z.ZodType<PermissionDefinition>;
+
+export const accessRequestSchema = z.object({
+  id: z.number(),
+  path: z.string(),
+  permission: z.string().nullish(),
+  reason: z.string().nullish(),
+  created_at: z.string(),
+}) satisfies z.ZodType<AccessRequest>;
+
+// The part of an OIDC provider's /.well-known/openid-configuration the SSO login uses
+export const oidcDiscoverySchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.string().url(),
+});
+
+// Log where the response differs from the schema - only while developing
+function reportSchemaDrift(endpoint: string, error: z.ZodError, body: unknown) {
+  if (!import.meta.env.DEV) return;
+
+  console.groupCollapsed(`API schema mismatch: ${endpoint}`);
+  error.issues.forEach((issue) => {
+    console.error(`${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  });
+  console.error('Response body:', body);
+  console.groupEnd();
+}
+
+// Use after a request resolves to check the body against a schema.
+// Drift rejects with an ApiRequestError of kind 'schema'.
+export function parseResponse<T extends z.ZodType>(schema: T, endpoint: string) {
+  return (body: unknown): z.infer<T> => {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      reportSchemaDrift(endpoint, result.error, body);
+      throw new ApiRequestError({ kind: 'schema', data: body, cause: result.error });
+    }
+    return result.data;
+  };
+}
+
+// Envelope helpers for the common response shapes
+export const userResponseSchema = apiResponseSchema(z.object({ user: userSchema }));
+export const usersResponseSchema = apiResponseSchema(z.array(userSchema));
+export const merchantResponseSchema = apiResponseSchema(z.object({ merchant: merchantSchema }));
+export const merchantsResponseSchema = apiResponseSchema(z.array(merchantSchema));
+export const invitationResponseSchema = apiResponseSchema(z.object({ invitation: invitationSchema }));
+export const invitationsResponseSchema = apiResponseSchema(z.array(invitationSchema));
+export const invitationDetailsResponseSchema = apiResponseSchema(invitationDetailsSchema);
+export const dashboardResponseSchema = apiResponseSchema(dashboardSchema);
+export const authSessionResponseSchema = apiResponseSchema(authSessionSchema);
+export const loginResponseSchema = apiResponseSchema(z.union([twoFactorChallengeSchema, authSessionSchema]));
+export const twoFactorSetupResponseSchema = apiResponseSchema(twoFactorSetupSchema);
+export const recoveryCodesResponseSchema = apiResponseSchema(z.object({ recovery_codes: z.array(z.string()) }));
+export const userSessionsResponseSchema = apiResponseSchema(z.array(userSessionSchema));
+export const userPermissionsResponseSchema = apiResponseSchema(userPermissionsSchema);
+export const roleResponseSchema = apiResponseSchema(z.object({ role: roleSchema }));
+export const rolesResponseSchema = apiResponseSchema(z.array(roleSchema));
+export const permissionDefinitionsResponseSchema = apiResponseSchema(z.array(permissionDefinitionSchema));
+export const accessRequestResponseSchema = apiResponseSchema(z.object({ access_request: accessRequestSchema }));
+export const profileResponseSchema = apiResponseSchema(userSchema);
+export const emptyResponseSchema = apiResponseSchema(z.unknown());
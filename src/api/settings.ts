@@ -1,4 +1,13 @@
-import client from './client';
+import { api, type RequestOptions } from './client';
+import {
+  parseResponse,
+  profileResponseSchema,
+  recoveryCodesResponseSchema,
+  twoFactorSetupResponseSchema,
+  userSessionsResponseSchema,
+  emptyResponseSchema,
+} from './schemas';
+import { invalidatesTags } from './queryClient';
 
 // Types
 export interface ProfileUpdateData {
@@ -13,23 +22,82 @@ export interface PasswordChangeData {
 
 // Profile APIs
 export const profileApi = {
+  // The name also shows in the user lists and on the dashboard
   update: (data: ProfileUpdateData) =>
-    client.patch('/settings/profile', data),
+    api
+      .patch('/settings/profile', data)
+      .then(parseResponse(profileResponseSchema, 'PATCH /settings/profile'))
+      .then(invalidatesTags('users', 'dashboard')),
 
-  get: () =>
-    client.get('/settings/profile'),
+  get: (options?: RequestOptions) =>
+    api.get('/settings/profile', undefined, options).then(parseResponse(profileResponseSchema, 'GET /settings/profile')),
 };
 
 // Password APIs
 export const passwordApi = {
+  // The backend also signs out every other session
   change: (data: PasswordChangeData) =>
-    client.post('/settings/change-password', data),
+    api
+      .post('/settings/change-password', data)
+      .then(parseResponse(emptyResponseSchema, 'POST /settings/change-password'))
+      .then(invalidatesTags('sessions')),
+};
+
+// Two-factor APIs - enabling and disabling ask for the current password
+export const twoFactorApi = {
+  // Start enrolling: returns the secret to add to an authenticator app
+  enable: (password: string) =>
+    api.post('/settings/two-factor', { password }).then(parseResponse(twoFactorSetupResponseSchema, 'POST /settings/two-factor')),
+
+  // Finish enrolling with the first code; returns the recovery codes
+  confirm: (code: string) =>
+    api
+      .post('/settings/two-factor/confirm', { code })
+      .then(parseResponse(recoveryCodesResponseSchema, 'POST /settings/two-factor/confirm')),
+
+  disable: (password: string) =>
+    api
+      .delete('/settings/two-factor', { data: { password } })
+      .then(parseResponse(emptyResponseSchema, 'DELETE /settings/two-factor')),
+
+  getRecoveryCodes: () =>
+    api
+      .get('/settings/two-factor/recovery-codes')
+      .then(parseResponse(recoveryCodesResponseSchema, 'GET /settings/two-factor/recovery-codes')),
+
+  // Replace every recovery code; the old ones stop working
+  regenerateRecoveryCodes: () =>
+    api
+      .post('/settings/two-factor/recovery-codes')
+      .then(parseResponse(recoveryCodesResponseSchema, 'POST /settings/two-factor/recovery-codes')),
+};
+
+// Session APIs - the devices signed in to this account
+export const sessionsApi = {
+  list: (options?: RequestOptions) =>
+    api.get('/settings/sessions', undefined, options).then(parseResponse(userSessionsResponseSchema, 'GET /settings/sessions')),
+
+  // Sign out one other device; its tokens stop working right away
+  revoke: (id: string) =>
+    api
+      .delete(`/settings/sessions/${id}`)
+      .then(parseResponse(emptyResponseSchema, 'DELETE /settings/sessions/:id'))
+      .then(invalidatesTags('sessions')),
+
+  // Sign out every device except this one
+  revokeOthers: () =>
+    api
+      .delete('/settings/sessions/others')
+      .then(parseResponse(emptyResponseSchema, 'DELETE /settings/sessions/others'))
+      .then(invalidatesTags('sessions')),
 };
 
 // Combined settings API
 const settingsApi = {
   profile: profileApi,
   password: passwordApi,
+  twoFactor: twoFactorApi,
+  sessions: sessionsApi,
 };
 
 export default settingsApi;
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Module constants read the env, so load it after stubbing
+const loadSso = async () => {
+  vi.resetModules();
+  return import('@/api/sso');
+};
+
+describe('SSO Login', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_USE_MOCK_API', 'true');
+    vi.stubEnv('VITE_OIDC_ISSUER', '');
+    // The test setup replaces window.location with a plain object
+    Object.assign(window.location, { origin: 'http://localhost:5173' });
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('createAuthorizationUrl - request parameters', () => {
+    it('should send an S256 challenge, never the verifier', async () => {
+      const { createAuthorizationUrl } = await loadSso();
+      const url = new URL(await createAuthorizationUrl(false));
+
+      expect(url.pathname).toBe('/mock-idp/authorize');
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('code_challenge')).toMatch(/^[A-Za-z0-9\-_]{43}$/);
+      expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:5173/auth/callback');
+      expect(url.search).not.toContain('code_verifier');
+    });
+  });
+
+  describe('completeSsoLogin - callback checks', () => {
+    it('should return the verifier and remember choice for the matching state', async () => {
+      const { createAuthorizationUrl, completeSsoLogin } = await loadSso();
+      const state = new URL(await createAuthorizationUrl(true)).searchParams.get('state') ?? '';
+
+      const result = completeSsoLogin(new URLSearchParams({ code: 'abc', state }));
+
+      expect(result.remember).toBe(true);
+      expect(result.payload.code).toBe('abc');
+      expect(result.payload.code_verifier).toHaveLength(43);
+      expect(result.redirectTo).toBe('/dashboard');
+    });
+
+    it('should return to the page requested before the provider redirect', async () => {
+      const { createAuthorizationUrl, completeSsoLogin } = await loadSso();
+      const state = new URL(await createAuthorizationUrl(false, '/users?search=john')).searchParams.get('state') ?? '';
+
+      expect(completeSsoLogin(new URLSearchParams({ code: 'abc', state })).redirectTo).toBe('/users?search=john');
+    });
+
+    it('should reject a different state and work only once', async () => {
+      const { createAuthorizationUrl, completeSsoLogin } = await loadSso();
+      const state = new URL(await createAuthorizationUrl(false)).searchParams.get('state') ?? '';
+
+      expect(() => completeSsoLogin(new URLSearchParams({ code: 'abc', state: 'forged' }))).toThrow(/invalid/);
+      // The failed attempt used up the pending login
+      expect(() => completeSsoLogin(new URLSearchParams({ code: 'abc', state }))).toThrow(/invalid/);
+    });
+
+    it('should surface errors from the provider', async () => {
+      const { completeSsoLogin, SsoError } = await loadSso();
+
+      try {
+        completeSsoLogin(new URLSearchParams({ error: 'access_denied' }));
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(SsoError);
+        expect((error as InstanceType<typeof SsoError>).code).toBe('access_denied');
+      }
+    });
+  });
+});
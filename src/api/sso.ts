@@ -0,0 +1,142 @@
+import axios from 'axios';
+import { createCodeChallenge, generateCodeVerifier, randomUrlSafeString } from '@/lib/pkce';
+import { DEFAULT_REDIRECT, getSafeRedirect } from '@/lib/redirect';
+import { oidcDiscoverySchema } from './schemas';
+import type { SsoCallbackPayload } from '@/types/models';
+
+// Single sign-on with an OpenID Connect provider: authorization code flow with
+// PKCE. The browser only gets a code; the backend redeems it, checks the ID
+// token and answers with the same session as a password login.
+
+const useMockIdp = import.meta.env.VITE_USE_MOCK_API === 'true' && !import.meta.env.VITE_OIDC_ISSUER;
+
+export const ssoConfig = {
+  // Without an issuer the SSO button is hidden, unless the mock backend is on
+  issuer: (import.meta.env.VITE_OIDC_ISSUER || '').replace(/\/+$/, ''),
+  clientId: import.meta.env.VITE_OIDC_CLIENT_ID || (useMockIdp ? 'admin-dashboard' : ''),
+  scope: import.meta.env.VITE_OIDC_SCOPE || 'openid profile email',
+  // Shown on the button, e.g. "Sign in with Okta"
+  providerName: import.meta.env.VITE_OIDC_PROVIDER_NAME || 'SSO',
+};
+
+export const isSsoEnabled = useMockIdp || (!!ssoConfig.issuer && !!ssoConfig.clientId);
+
+// The login in progress, kept for the callback. sessionStorage so it stays
+// with this tab and is gone when it closes.
+const PENDING_LOGIN_KEY = 'sso_pending_login';
+// Give up on logins that took longer than this at the provider
+const PENDING_LOGIN_TTL = 10 * 60 * 1000;
+
+interface PendingSsoLogin {
+  state: string;
+  nonce: string;
+  code_verifier: string;
+  redirect_uri: string;
+  remember: boolean;
+  // In-app path to open once signed in (?redirect= on the login page)
+  redirect_to: string;
+  started_at: number;
+}
+
+// Error codes from the provider (RFC 6749 4.1.2.1) plus our own checks
+export class SsoError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'SsoError';
+    this.code = code;
+  }
+}
+
+const getRedirectUri = () => `${window.location.origin}/auth/callback`;
+
+// The built-in mock provider is a page of this app (see MockIdpPage)
+async function getAuthorizationEndpoint(): Promise<string> {
+  if (useMockIdp) return `${window.location.origin}/mock-idp/authorize`;
+
+  const response = await axios.get(`${ssoConfig.issuer}/.well-known/openid-configuration`, { timeout: 10000 });
+  return oidcDiscoverySchema.parse(response.data).authorization_endpoint;
+}
+
+// Provider login URL for a new attempt; the attempt is saved for the callback
+export async function createAuthorizationUrl(remember: boolean, redirectTo = DEFAULT_REDIRECT): Promise<string> {
+  const pending: PendingSsoLogin = {
+    state: randomUrlSafeString(),
+    nonce: randomUrlSafeString(),
+    code_verifier: generateCodeVerifier(),
+    redirect_uri: getRedirectUri(),
+    remember,
+    redirect_to: redirectTo,
+    started_at: Date.now(),
+  };
+
+  const url = new URL(await getAuthorizationEndpoint());
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: ssoConfig.clientId,
+    redirect_uri: pending.redirect_uri,
+    scope: ssoConfig.scope,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await createCodeChallenge(pending.code_verifier),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+  return url.toString();
+}
+
+// Leave for the provider's login page. remember is applied to the session
+// once the user comes back ("Remember me"), redirectTo is where they land.
+export async function startSsoLogin(remember: boolean, redirectTo?: string): Promise<void> {
+  window.location.assign(await createAuthorizationUrl(remember, redirectTo));
+}
+
+const readPendingLogin = (): PendingSsoLogin | null => {
+  try {
+    const pending = JSON.parse(sessionStorage.getItem(PENDING_LOGIN_KEY) ?? 'null') as PendingSsoLogin | null;
+    return pending && Date.now() - pending.started_at < PENDING_LOGIN_TTL ? pending : null;
+  } catch {
+    return null;
+  }
+};
+
+// Check the provider's redirect to /auth/callback against the login this tab
+// started. Works once: a reload or a replayed link throws.
+export function completeSsoLogin(params: URLSearchParams): {
+  payload: SsoCallbackPayload;
+  remember: boolean;
+  redirectTo: string;
+} {
+  const pending = readPendingLogin();
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+  const error = params.get('error');
+  if (error) {
+    throw new SsoError(
+      error,
+      error === 'access_denied'
+        ? 'Sign in was cancelled at the identity provider.'
+        : params.get('error_description') || 'The identity provider could not sign you in.'
+    );
+  }
+
+  const code = params.get('code');
+  // Different state: not the login this tab started (or it expired) - possible CSRF
+  if (!pending || !code || params.get('state') !== pending.state) {
+    throw new SsoError('invalid_state', 'This sign in link is invalid or has expired. Please try again.');
+  }
+
+  return {
+    payload: {
+      code,
+      code_verifier: pending.code_verifier,
+      redirect_uri: pending.redirect_uri,
+      nonce: pending.nonce,
+    },
+    remember: pending.remember,
+    // Checked again: sessionStorage is not a trusted source either
+    redirectTo: getSafeRedirect(pending.redirect_to),
+  };
+}
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AxiosError, type AxiosAdapter } from 'axios';
+import apiClient, { api } from '@/api/client';
+import {
+  REFRESH_AHEAD,
+  REFRESH_RETRY_DELAY,
+  createRefreshManager,
+  getRefreshDelay,
+  startProactiveRefresh,
+} from '@/api/tokenRefresh';
+import { onAuthEvent } from '@/api/authEvents';
+import { createMockAdapter, createMockDb } from '@/api/mock';
+import { createToken } from '@/api/mock/tokens';
+
+const storage = new Map<string, string>();
+const originalAdapter = apiClient.defaults.adapter;
+
+describe('Token Refresh', () => {
+  describe('createRefreshManager - single flight', () => {
+    it('should share one refresh between concurrent callers', async () => {
+      const refresh = vi.fn().mockResolvedValue('new-token');
+      const manager = createRefreshManager(refresh);
+
+      const tokens = await Promise.all([manager.refresh(), manager.refresh(), manager.refresh()]);
+
+      expect(tokens).toEqual(['new-token', 'new-token', 'new-token']);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject every waiting caller when the refresh fails', async () => {
+      const manager = createRefreshManager(() => Promise.reject(new Error('Refresh failed')));
+
+      const results = await Promise.allSettled([manager.refresh(), manager.refresh()]);
+
+      expect(results.every((result) => result.status === 'rejected')).toBe(true);
+      expect(manager.isRefreshing).toBe(false);
+    });
+
+    it('should start a new refresh after the previous one settled', async () => {
+      const refresh = vi.fn().mockResolvedValue('token');
+      const manager = createRefreshManager(refresh);
+
+      await manager.refresh();
+      await manager.refresh();
+
+      expect(refresh).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retryAfterRefresh - 401 handling', () => {
+    let refreshCalls: number;
+
+    beforeEach(() => {
+      storage.clear();
+      vi.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) => void storage.set(key, value));
+      vi.mocked(localStorage.removeItem).mockImplementation((key) => void storage.delete(key));
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      refreshCalls = 0;
+      const mock = createMockAdapter({ db: createMockDb() });
+      const countingAdapter: AxiosAdapter = (config) => {
+        if (config.url?.includes('/auth/refresh')) refreshCalls++;
+        return mock(config);
+      };
+      apiClient.defaults.adapter = countingAdapter;
+
+      // Expired access token, valid refresh token for the seeded super admin
+      storage.set('auth_token', 'expired');
+      storage.set('refresh_token', createToken(1, 'refresh', 'test-session'));
+    });
+
+    afterEach(() => {
+      apiClient.defaults.adapter = originalAdapter;
+      vi.restoreAllMocks();
+    });
+
+    it('should refresh once and replay every request that got a 401', async () => {
+      const events: string[] = [];
+      const unsubscribe = onAuthEvent((event) => events.push(event.type));
+
+      const results = await Promise.all([api.get('/dashboard'), api.get('/users'), api.get('/merchants')]);
+      unsubscribe();
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(refreshCalls).toBe(1);
+      expect(storage.get('auth_token')).not.toBe('expired');
+      expect(events).toEqual(['refreshed']);
+    });
+
+    it('should reject all requests and expire the session when refresh fails', async () => {
+      storage.set('refresh_token', 'invalid');
+      const events: string[] = [];
+      const unsubscribe = onAuthEvent((event) => events.push(event.type));
+
+      const results = await Promise.allSettled([api.get('/dashboard'), api.get('/users')]);
+      unsubscribe();
+
+      expect(results.every((result) => result.status === 'rejected')).toBe(true);
+      expect(refreshCalls).toBe(1);
+      expect(storage.has('auth_token')).toBe(false);
+      expect(events).toEqual(['session-expired']);
+    });
+
+    it('should keep the session when the refresh fails on the network', async () => {
+      const mock = createMockAdapter({ db: createMockDb() });
+      apiClient.defaults.adapter = (config) =>
+        config.url?.includes('/auth/refresh')
+          ? Promise.reject(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config))
+          : mock(config);
+      const refreshToken = storage.get('refresh_token');
+      const events: string[] = [];
+      const unsubscribe = onAuthEvent((event) => events.push(event.type));
+
+      const result = await Promise.allSettled([api.get('/dashboard')]);
+      unsubscribe();
+
+      expect(result[0].status).toBe('rejected');
+      expect(storage.get('auth_token')).toBe('expired');
+      expect(storage.get('refresh_token')).toBe(refreshToken);
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('getRefreshDelay - scheduling', () => {
+    it('should refresh a minute before expiry', () => {
+      expect(getRefreshDelay(10 * 60 * 1000, 0)).toBe(10 * 60 * 1000 - REFRESH_AHEAD);
+    });
+
+    it('should refresh short-lived tokens halfway through', () => {
+      expect(getRefreshDelay(30 * 1000, 0)).toBe(15 * 1000);
+    });
+
+    it('should refresh expired tokens right away', () => {
+      expect(getRefreshDelay(1000, 5000)).toBe(0);
+    });
+  });
+
+  describe('startProactiveRefresh - timer', () => {
+    let refreshCalls: number;
+    let visibility: DocumentVisibilityState;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      storage.clear();
+      vi.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) => void storage.set(key, value));
+      vi.mocked(localStorage.removeItem).mockImplementation((key) => void storage.delete(key));
+
+      refreshCalls = 0;
+      const mock = createMockAdapter({ db: createMockDb() });
+      apiClient.defaults.adapter = (config) => {
+        if (config.url?.includes('/auth/refresh')) refreshCalls++;
+        return mock(config);
+      };
+
+      visibility = 'visible';
+      vi.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibility);
+
+      storage.set('auth_token', createToken(1, 'access', 'test-session'));
+      storage.set('refresh_token', createToken(1, 'refresh', 'test-session'));
+      storage.set('token_expires_at', String(Date.now() + 5 * 60 * 1000));
+    });
+
+    afterEach(() => {
+      apiClient.defaults.adapter = originalAdapter;
+      vi.restoreAllMocks();
+      vi.useRealTimers();
+    });
+
+    it('should refresh shortly before the token expires', async () => {
+      const stop = startProactiveRefresh();
+
+      await vi.advanceTimersByTimeAsync(4 * 60 * 1000 - 1000);
+      expect(refreshCalls).toBe(0);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(refreshCalls).toBe(1);
+      expect(Number(storage.get('token_expires_at'))).toBeGreaterThan(Date.now() + 10 * 60 * 1000);
+      stop();
+    });
+
+    it('should pause while hidden and catch up when shown again', async () => {
+      const stop = startProactiveRefresh();
+      visibility = 'hidden';
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      await vi.advanceTimersByTimeAsync(6 * 60 * 1000);
+      expect(refreshCalls).toBe(0);
+
+      visibility = 'visible';
+      document.dispatchEvent(new Event('visibilitychange'));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(refreshCalls).toBe(1);
+      stop();
+    });
+
+    it('should try again later when a refresh fails without ending the session', async () => {
+      const mock = createMockAdapter({ db: createMockDb() });
+      let offline = true;
+      apiClient.defaults.adapter = (config) => {
+        if (!config.url?.includes('/auth/refresh')) return mock(config);
+        refreshCalls++;
+        return offline ? Promise.reject(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config)) : mock(config);
+      };
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      storage.set('token_expires_at', String(Date.now()));
+
+      const stop = startProactiveRefresh();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(refreshCalls).toBe(1);
+      expect(storage.has('refresh_token')).toBe(true);
+
+      offline = false;
+      await vi.advanceTimersByTimeAsync(REFRESH_RETRY_DELAY + 1000);
+      expect(refreshCalls).toBe(2);
+      expect(Number(storage.get('token_expires_at'))).toBeGreaterThan(Date.now());
+      stop();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import type { InternalAxiosRequestConfig } from 'axios';
+import apiClient from './client';
+import { authApi } from './auth';
+import { ApiRequestError, isApiRequestError, normalizeApiError } from './errors';
+import { emitAuthEvent, onAuthEvent } from './authEvents';
+import { runAsLeader, withCrossTabLock } from './crossTab';
+
+// Share one in-flight refresh between every caller; the next call after it
+// settles starts a new one
+export function createRefreshManager(refresh: () => Promise<string>) {
+  let pending: Promise<string> | null = null;
+
+  return {
+    refresh(): Promise<string> {
+      if (!pending) {
+        pending = refresh().finally(() => {
+          pending = null;
+        });
+      }
+      return pending;
+    },
+
+    get isRefreshing(): boolean {
+      return pending !== null;
+    },
+  };
+}
+
+// Whether the backend refused the refresh token itself. Network errors,
+// timeouts, throttling and 5xx say nothing about the session, so it is kept.
+const isSessionRejected = (error: ApiRequestError) =>
+  error.kind === 'auth' ||
+  (error.status !== null && error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429);
+
+// Exchange the stored refresh token for a new session. When the backend
+// rejects it, the session is cleared and AuthContext (in every tab) is told to
+// log out; other failures only reject, so the session survives a brief outage.
+//
+// Refresh tokens rotate, so tabs take turns through a cross-tab lock: a tab
+// that waited while another one refreshed reuses the new token instead of
+// spending the already rotated refresh token.
+async function refreshStoredSession(): Promise<string> {
+  const staleToken = authApi.getToken();
+
+  return withCrossTabLock('admin-dashboard-token-refresh', async () => {
+    const currentToken = authApi.getToken();
+    if (currentToken && currentToken !== staleToken) {
+      return currentToken;
+    }
+
+    try {
+      const refreshToken = authApi.getRefreshToken();
+      if (!refreshToken) {
+        throw new ApiRequestError({ kind: 'auth', status: 401 });
+      }
+
+      const { data: user } = await authApi.refreshToken(refreshToken);
+      authApi.storeSession(user);
+      emitAuthEvent({ type: 'refreshed', user });
+      return user.token;
+    } catch (error) {
+      const apiError = normalizeApiError(error);
+      if (isSessionRejected(apiError)) {
+        authApi.clearSession();
+        emitAuthEvent({ type: 'session-expired' });
+      }
+      throw apiError;
+    }
+  });
+}
+
+const refreshManager = createRefreshManager(refreshStoredSession);
+
+// Refresh now (or join the refresh already running); resolves with the new access token
+export const refreshSession = (): Promise<string> => refreshManager.refresh();
+
+// Refresh this long before the access token expires
+export const REFRESH_AHEAD = 60 * 1000; // 1 minute
+const MAX_TIMEOUT = 2 ** 31 - 1; // setTimeout overflows beyond ~24.8 days
+// Wait before trying again after a refresh failed without ending the session
+export const REFRESH_RETRY_DELAY = 30 * 1000;
+
+// How long to wait before refreshing a token that expires at expiresAt.
+// Short-lived tokens refresh at half their remaining life instead.
+export function getRefreshDelay(expiresAt: number, now: number = Date.now()): number {
+  const remaining = expiresAt - now;
+  return Math.max(0, remaining - Math.min(REFRESH_AHEAD, remaining / 2));
+}
+
+// Refresh the access token shortly before it expires so saves never hit a 401.
+// The timer pauses while the tab is hidden and catches up when it is shown or
+// focused again. Returns a function that stops it.
+export function startProactiveRefresh(): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // A rejected session is already reported as session-expired; after any other
+  // failure (offline, server down) check again shortly
+  const refreshNow = () => {
+    refreshSession().catch(() => {
+      clearTimeout(timer);
+      timer = setTimeout(check, REFRESH_RETRY_DELAY);
+    });
+  };
+
+  // Refresh if the token is due, otherwise wait until it is
+  const check = () => {
+    clearTimeout(timer);
+    const expiresAt = authApi.getTokenExpiry();
+    if (expiresAt === null || document.visibilityState === 'hidden') return;
+
+    const delay = getRefreshDelay(expiresAt);
+    if (delay === 0) {
+      refreshNow();
+    } else if (delay > MAX_TIMEOUT) {
+      timer = setTimeout(check, MAX_TIMEOUT);
+    } else {
+      timer = setTimeout(refreshNow, delay);
+    }
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      clearTimeout(timer);
+    } else {
+      check();
+    }
+  };
+
+  // Any refresh (ours, after a 401 or in another tab) moves the expiry, and so
+  // does switching sessions to impersonate someone and back
+  const unsubscribe = onAuthEvent((event) => {
+    if (event.type === 'refreshed' || event.type === 'impersonation-started' || event.type === 'impersonation-ended') {
+      check();
+    }
+  });
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('focus', check);
+  check();
+
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+    window.removeEventListener('focus', check);
+  };
+}
+
+// With several tabs open only the elected leader runs the timer; the others
+// pick up its new tokens from shared storage
+export const startLeaderRefresh = (): (() => void) =>
+  runAsLeader('admin-dashboard-refresh-leader', startProactiveRefresh);
+
+// These endpoints answer 401 for bad credentials - refreshing would not help
+const AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/two-factor-challenge',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/invitations',
+  '/auth/accept-invitation',
+  '/auth/sso/callback',
+];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// Response interceptor: on 401, refresh once and replay the request. Requests
+// that fail while a refresh is running wait for it; if it fails they all reject.
+export async function retryAfterRefresh(error: unknown) {
+  const config = isApiRequestError(error) ? (error.config as RetriableRequestConfig | undefined) : undefined;
+  const isAuthEndpoint = AUTH_ENDPOINTS.some((endpoint) => config?.url?.includes(endpoint));
+
+  if (!isApiRequestError(error) || error.status !== 401 || !config || config._retry || isAuthEndpoint) {
+    throw error;
+  }
+
+  config._retry = true;
+  try {
+    const token = await refreshSession();
+    config.headers.Authorization = `Bearer ${token}`;
+  } catch {
+    throw error;
+  }
+  return apiClient(config);
+}
+
+// Registered after the client's own interceptor, so errors arrive normalized
+apiClient.interceptors.response.use(undefined, retryAfterRefresh);
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createMemoryStorage, tokenStorage } from '@/api/tokenStorage';
+
+describe('Token Storage', () => {
+  describe('createMemoryStorage - values', () => {
+    it('should keep values until they are removed', () => {
+      const storage = createMemoryStorage();
+
+      storage.set('auth_token', 'abc');
+      expect(storage.get('auth_token')).toBe('abc');
+
+      storage.remove('auth_token');
+      expect(storage.get('auth_token')).toBeNull();
+    });
+
+    it('should not share values between instances', () => {
+      createMemoryStorage().set('auth_token', 'abc');
+      expect(createMemoryStorage().get('auth_token')).toBeNull();
+    });
+  });
+
+  describe('tokenStorage - persistence', () => {
+    beforeEach(() => {
+      sessionStorage.clear();
+    });
+
+    afterEach(() => {
+      tokenStorage.setPersistence('local');
+    });
+
+    it('should keep a session without "Remember me" in sessionStorage', () => {
+      tokenStorage.setPersistence('session');
+      tokenStorage.set('auth_token', 'abc');
+
+      expect(tokenStorage.getPersistence()).toBe('session');
+      expect(sessionStorage.getItem('auth_token')).toBe('abc');
+      expect(localStorage.setItem).not.toHaveBeenCalledWith('auth_token', 'abc');
+    });
+
+    it('should clear the previous storage when switching', () => {
+      tokenStorage.setPersistence('session');
+      tokenStorage.set('auth_token', 'abc');
+
+      tokenStorage.setPersistence('local');
+
+      expect(sessionStorage.getItem('auth_token')).toBeNull();
+      expect(localStorage.removeItem).toHaveBeenCalledWith('auth_token');
+    });
+
+    it('should clear the session from every storage', () => {
+      tokenStorage.setPersistence('session');
+      tokenStorage.set('refresh_token', 'xyz');
+
+      tokenStorage.clear();
+
+      expect(sessionStorage.getItem('refresh_token')).toBeNull();
+      expect(localStorage.removeItem).toHaveBeenCalledWith('refresh_token');
+    });
+  });
+});
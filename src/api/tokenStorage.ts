@@ -0,0 +1,106 @@
+// Where the session (tokens and cached user) is kept. "Remember me" keeps it
+// in localStorage; otherwise it lives in sessionStorage and ends with the tab.
+// Memory is the fallback when web storage is blocked (e.g. some private modes).
+
+// impersonator_session: the super admin's own session while they view the app
+// as another user, restored when they return to their account
+export type TokenKey = 'auth_token' | 'refresh_token' | 'user_data' | 'token_expires_at' | 'impersonator_session';
+
+export type TokenPersistence = 'local' | 'session' | 'memory';
+
+export interface TokenStorage {
+  get: (key: TokenKey) => string | null;
+  set: (key: TokenKey, value: string) => void;
+  remove: (key: TokenKey) => void;
+}
+
+const TOKEN_KEYS: TokenKey[] = ['auth_token', 'refresh_token', 'user_data', 'token_expires_at', 'impersonator_session'];
+
+// Lost on reload - nothing outlives the page
+export function createMemoryStorage(): TokenStorage {
+  const values = new Map<TokenKey, string>();
+
+  return {
+    get: (key) => values.get(key) ?? null,
+    set: (key, value) => {
+      values.set(key, value);
+    },
+    remove: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+// getStorage is called on every access, so tests can swap the global
+export function createWebStorage(getStorage: () => Storage): TokenStorage {
+  return {
+    get: (key) => getStorage().getItem(key),
+    set: (key, value) => getStorage().setItem(key, value),
+    remove: (key) => getStorage().removeItem(key),
+  };
+}
+
+// Accessing or writing web storage throws when the browser blocks it
+function isAvailable(getStorage: () => Storage): boolean {
+  try {
+    const storage = getStorage();
+    storage.setItem('token_storage_test', '1');
+    storage.removeItem('token_storage_test');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const getLocalStorage = () => localStorage;
+const getSessionStorage = () => sessionStorage;
+
+const backends: Record<TokenPersistence, TokenStorage> = {
+  local: createWebStorage(getLocalStorage),
+  session: createWebStorage(getSessionStorage),
+  memory: createMemoryStorage(),
+};
+
+const availability: Record<TokenPersistence, boolean> = {
+  local: isAvailable(getLocalStorage),
+  session: isAvailable(getSessionStorage),
+  memory: true,
+};
+
+// Use the requested storage, or memory when the browser blocks it
+const resolve = (persistence: TokenPersistence): TokenPersistence =>
+  availability[persistence] ? persistence : 'memory';
+
+// After a reload, continue with the storage that holds the session
+const detectPersistence = (): TokenPersistence =>
+  availability.session && backends.session.get('auth_token') ? 'session' : resolve('local');
+
+let persistence = detectPersistence();
+
+export const tokenStorage = {
+  get: (key: TokenKey): string | null => backends[persistence].get(key),
+
+  set: (key: TokenKey, value: string): void => backends[persistence].set(key, value),
+
+  remove: (key: TokenKey): void => backends[persistence].remove(key),
+
+  // Where the session is currently kept
+  getPersistence: (): TokenPersistence => persistence,
+
+  // Move to another storage, e.g. on login. Only one storage holds a session
+  // at a time, so the others are cleared.
+  setPersistence: (next: TokenPersistence): void => {
+    const resolved = resolve(next);
+    if (resolved === persistence) return;
+
+    tokenStorage.clear();
+    persistence = resolved;
+  },
+
+  // Remove the session from every storage
+  clear: (): void => {
+    (Object.keys(backends) as TokenPersistence[])
+      .filter((name) => availability[name])
+      .forEach((name) => TOKEN_KEYS.forEach((key) => backends[name].remove(key)));
+  },
+};
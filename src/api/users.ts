@@ -1,6 +1,13 @@
-import { api } from './client';
+import { api, type RequestOptions } from './client';
+import { invalidatesTags } from './queryClient';
+import {
+  parseResponse,
+  userResponseSchema,
+  usersResponseSchema,
+  authSessionResponseSchema,
+  emptyResponseSchema,
+} from './schemas';
 import type {
-  User,
   PaginationParams,
   StoreUserPayload,
   UpdateUserPayload,
@@ -9,31 +16,50 @@ import type {
 // Users API endpoints
 export const usersApi = {
   // Get all users (Super Admin only)
-  getUsers: (params?: PaginationParams & { include_deleted?: boolean }) =>
-    api.get<User[]>('/users', params),
+  getUsers: (params?: PaginationParams & { include_deleted?: boolean }, options?: RequestOptions) =>
+    api.get('/users', params, options).then(parseResponse(usersResponseSchema, 'GET /users')),
 
   // Get merchant users for merchant owner selection (Admin & Super Admin)
-  getMerchantUsers: () =>
-    api.get<User[]>('/merchant-owners'),
+  getMerchantUsers: (options?: RequestOptions) =>
+    api.get('/merchant-owners', undefined, options).then(parseResponse(usersResponseSchema, 'GET /merchant-owners')),
 
   // Create new user (Super Admin only)
   createUser: (data: StoreUserPayload) =>
-    api.post<{ user: User }>('/users', data),
+    api.post('/users', data)
+      .then(parseResponse(userResponseSchema, 'POST /users'))
+      .then(invalidatesTags('users', 'dashboard')),
 
   // Get user by ID
-  getUser: (id: string) =>
-    api.get<{ user: User }>(`/users/${id}`),
+  getUser: (id: string, options?: RequestOptions) =>
+    api.get(`/users/${id}`, undefined, options).then(parseResponse(userResponseSchema, 'GET /users/:id')),
 
   // Update user (Super Admin only)
   updateUser: (id: string, data: UpdateUserPayload) =>
-    api.put<{ user: User }>(`/users/${id}`, data),
+    api.put(`/users/${id}`, data)
+      .then(parseResponse(userResponseSchema, 'PUT /users/:id'))
+      .then(invalidatesTags('users', 'merchants', 'dashboard')),
 
   // Delete user (Super Admin only)
+  // Also removes the user's merchant, so merchant views are refreshed too
   deleteUser: (id: string) =>
-    api.delete<null>(`/users/${id}`),
+    api.delete(`/users/${id}`)
+      .then(parseResponse(emptyResponseSchema, 'DELETE /users/:id'))
+      .then(invalidatesTags('users', 'merchants', 'dashboard')),
 
   // Restore deleted user (Super Admin only)
   restoreUser: (id: string) =>
-    api.post<{ user: User }>(`/users/${id}/restore`),
-};
+    api.post(`/users/${id}/restore`)
+      .then(parseResponse(userResponseSchema, 'POST /users/:id/restore'))
+      .then(invalidatesTags('users', 'merchants', 'dashboard')),
+
+  // Unlock an account locked after failed logins (Super Admin only)
+  unlockUser: (id: string) =>
+    api.post(`/users/${id}/unlock`)
+      .then(parseResponse(userResponseSchema, 'POST /users/:id/unlock'))
+      .then(invalidatesTags('users')),
 
+  // A session as this user for the super admin ("view as user"); start it
+  // through AuthContext.impersonate, which keeps the admin's own session
+  impersonateUser: (id: string) =>
+    api.post(`/users/${id}/impersonate`).then(parseResponse(authSessionResponseSchema, 'POST /users/:id/impersonate')),
+};
@@ -0,0 +1,16 @@
+import type { ReactNode } from 'react';
+import { useCan } from '@/hooks/useCan';
+import type { Permission } from '@/types/models';
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  // Shown instead when the permission is missing
+  fallback?: ReactNode;
+}
+
+// Renders its children only for users with the permission. To show an action
+// as unavailable instead of hiding it, use <Button permission=…>.
+export function Can({ permission, children, fallback = null }: CanProps) {
+  return useCan(permission) ? children : fallback;
+}
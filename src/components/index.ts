@@ -7,3 +7,6 @@ export * from './layout';
 // Error Boundary
 export { ErrorBoundary } from './ErrorBoundary';
 
+
+// Permission Gate
+export { Can } from './Can';
@@ -0,0 +1,44 @@
+import { Link } from 'react-router-dom';
+import { FiChevronRight } from 'react-icons/fi';
+import { useCurrentRoute } from '@/hooks/useCurrentRoute';
+import { getBreadcrumbs } from '@/routes/routeRegistry';
+import { cn } from '@/lib/utils';
+
+interface BreadcrumbsProps {
+  className?: string;
+}
+
+// Trail to the current page, from the route registry's parent links
+export function Breadcrumbs({ className }: BreadcrumbsProps) {
+  const currentRoute = useCurrentRoute();
+  if (!currentRoute) return null;
+
+  const trail = getBreadcrumbs(currentRoute);
+
+  return (
+    <nav aria-label="Breadcrumb" className={cn('min-w-0', className)}>
+      <ol className="flex items-center gap-1.5 text-sm">
+        {trail.map((route, index) => {
+          const isCurrent = index === trail.length - 1;
+          return (
+            <li key={route.path} className="flex items-center gap-1.5 min-w-0">
+              {index > 0 && <FiChevronRight className="w-4 h-4 flex-shrink-0 text-slate-400" />}
+              {isCurrent ? (
+                <span aria-current="page" className="font-medium text-slate-900 dark:text-white truncate">
+                  {route.title}
+                </span>
+              ) : (
+                <Link
+                  to={route.path}
+                  className="text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 truncate"
+                >
+                  {route.title}
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
@@ -5,6 +5,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { cn } from '@/lib/utils';
 import { getInitials, generateAvatarColor } from '@/utils/helpers';
+import { Breadcrumbs } from './Breadcrumbs';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -46,13 +47,17 @@ export function Header({ onMenuClick }: HeaderProps) {
   return (
     <header className="sticky top-0 z-10 bg-white/80 backdrop-blur-md border-b border-slate-200 dark:bg-slate-900/80 dark:border-slate-700">
       <div className="flex items-center justify-end h-16 px-4 sm:px-6 lg:px-8">
-        {/* Mobile menu button */}
-        <button
-          onClick={onMenuClick}
-          className="lg:hidden p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800 transition-colors mr-auto"
-        >
-          <FiMenu className="w-5 h-5" />
-        </button>
+        <div className="flex items-center gap-3 min-w-0 mr-auto">
+          {/* Mobile menu button */}
+          <button
+            onClick={onMenuClick}
+            className="lg:hidden p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800 transition-colors"
+          >
+            <FiMenu className="w-5 h-5" />
+          </button>
+
+          <Breadcrumbs className="hidden sm:block" />
+        </div>
 
         {/* Right side */}
         <div className="flex items-center space-x-2 sm:space-x-4">
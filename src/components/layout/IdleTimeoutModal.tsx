@@ -0,0 +1,44 @@
+import { FiClock } from 'react-icons/fi';
+import { Button } from '@/components/ui';
+
+interface IdleTimeoutModalProps {
+  secondsLeft: number;
+  isExtending: boolean;
+  onExtend: () => void;
+  onLogout: () => void;
+}
+
+export function IdleTimeoutModal({ secondsLeft, isExtending, onExtend, onLogout }: IdleTimeoutModalProps) {
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-timeout-title"
+        aria-describedby="idle-timeout-description"
+        className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-md w-full mx-4 animate-slide-up"
+      >
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 bg-amber-100 dark:bg-amber-900/50 rounded-xl">
+            <FiClock className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+          </div>
+          <h3 id="idle-timeout-title" className="text-lg font-semibold text-slate-900 dark:text-white">
+            Are you still there?
+          </h3>
+        </div>
+        <p id="idle-timeout-description" className="text-slate-500 dark:text-slate-400 mb-6" aria-live="polite">
+          You will be signed out in{' '}
+          <span className="font-medium text-slate-900 dark:text-white">{secondsLeft}s</span> due to inactivity.
+        </p>
+        <div className="flex justify-end space-x-3">
+          <Button variant="secondary" onClick={onLogout}>
+            Sign out
+          </Button>
+          <Button onClick={onExtend} isLoading={isExtending} autoFocus>
+            Stay signed in
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { FiEye } from 'react-icons/fi';
+import { Button } from '@/components/ui';
+import { getRoleDisplayName } from '@/utils/helpers';
+import type { User } from '@/types/models';
+
+interface ImpersonationBannerProps {
+  user: User;
+  impersonator: User;
+  isReturning: boolean;
+  onReturn: () => void;
+}
+
+// Shown on every page while a super admin views the app as another user
+export function ImpersonationBanner({ user, impersonator, isReturning, onReturn }: ImpersonationBannerProps) {
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-40 flex flex-col sm:flex-row sm:items-center gap-3 px-4 sm:px-6 lg:px-8 py-2.5 bg-amber-100 dark:bg-amber-900/60 border-b border-amber-200 dark:border-amber-800"
+    >
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        <FiEye className="w-4 h-4 flex-shrink-0 text-amber-700 dark:text-amber-300" />
+        <p className="text-sm text-amber-900 dark:text-amber-100">
+          You are viewing as <span className="font-semibold">{user.name}</span> ({getRoleDisplayName(user.role)}).
+          Everything you do is recorded under {impersonator.name}.
+        </p>
+      </div>
+      <Button size="sm" variant="outline" onClick={onReturn} isLoading={isReturning} className="bg-white dark:bg-slate-800">
+        Return to my account
+      </Button>
+    </div>
+  );
+}
@@ -1,20 +1,98 @@
-import { useState } from 'react';
-import { Outlet } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { Outlet, useLocation, useNavigate } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import { IdleTimeoutModal } from './IdleTimeoutModal';
+import { ImpersonationBanner } from './ImpersonationBanner';
+import { PermissionsErrorBanner } from './PermissionsErrorBanner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIdleTimeout } from '@/hooks/useIdleTimeout';
+import { useCurrentRoute } from '@/hooks/useCurrentRoute';
+import { refreshSession } from '@/api/tokenRefresh';
+import { onForbidden } from '@/api/forbiddenEvents';
+import { ForbiddenPage } from '@/pages/errors';
+import { getDocumentTitle } from '@/routes/routeRegistry';
 
 export function MainLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [isExtending, setIsExtending] = useState(false);
+  const [isReturning, setIsReturning] = useState(false);
+  const navigate = useNavigate();
+  const { user, impersonator, permissionsStatus, logout, stopImpersonating, reloadPermissions } = useAuth();
+  const currentRoute = useCurrentRoute();
+  const location = useLocation();
+  // A 403 while loading replaces the page it happened on, until the user moves on
+  const [forbidden, setForbidden] = useState<{ locationKey: string; message: string } | null>(null);
+  const locationKeyRef = useRef(location.key);
+
+  useEffect(() => {
+    locationKeyRef.current = location.key;
+  }, [location.key]);
+
+  useEffect(
+    () => onForbidden(({ message }) => setForbidden({ locationKey: locationKeyRef.current, message })),
+    []
+  );
+
+  // Name the browser tab after the page; back to the plain title when leaving the app
+  useEffect(() => {
+    document.title = getDocumentTitle(currentRoute);
+    return () => {
+      document.title = getDocumentTitle();
+    };
+  }, [currentRoute]);
+
+  // Sign out after inactivity; the login page explains why
+  const { isWarning, secondsLeft, stayActive } = useIdleTimeout({
+    onTimeout: () => logout('idle'),
+  });
+
+  const handleExtend = async () => {
+    setIsExtending(true);
+    try {
+      // A failed refresh signs the user out through AuthContext
+      await refreshSession();
+    } catch (error) {
+      console.error('Failed to extend session:', error);
+    } finally {
+      stayActive();
+      setIsExtending(false);
+    }
+  };
+
+  // Back to the super admin's own session, on the page they started from
+  const handleReturn = async () => {
+    setIsReturning(true);
+    try {
+      await stopImpersonating();
+      navigate('/users');
+    } finally {
+      setIsReturning(false);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-slate-50 flex lg:overflow-hidden">
       <Sidebar isOpen={sidebarOpen} onToggle={() => setSidebarOpen(!sidebarOpen)} />
 
       <div className="flex-1 flex flex-col min-h-screen w-0">
+        {user && impersonator && (
+          <ImpersonationBanner
+            user={user}
+            impersonator={impersonator}
+            isReturning={isReturning}
+            onReturn={() => void handleReturn()}
+          />
+        )}
+        {permissionsStatus === 'error' && <PermissionsErrorBanner onRetry={reloadPermissions} />}
         <Header onMenuClick={() => setSidebarOpen(true)} />
 
         <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8 animate-fade-in">
-          <Outlet />
+          {forbidden?.locationKey === location.key ? (
+            <ForbiddenPage key={location.key} message={forbidden.message} />
+          ) : (
+            <Outlet />
+          )}
         </main>
 
         <footer className="hidden lg:block px-8 py-4 border-t border-slate-200 bg-white shrink-0">
@@ -23,7 +101,15 @@ export function MainLayout() {
           </p>
         </footer>
       </div>
+
+      {isWarning && (
+        <IdleTimeoutModal
+          secondsLeft={secondsLeft}
+          isExtending={isExtending}
+          onExtend={handleExtend}
+          onLogout={() => logout()}
+        />
+      )}
     </div>
   );
 }
-
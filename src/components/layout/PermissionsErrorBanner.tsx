@@ -0,0 +1,28 @@
+import { FiAlertTriangle } from 'react-icons/fi';
+import { Button } from '@/components/ui';
+
+interface PermissionsErrorBannerProps {
+  onRetry: () => void;
+}
+
+// Shown while the app falls back to the built-in role table because the user's
+// permissions could not be loaded
+export function PermissionsErrorBanner({ onRetry }: PermissionsErrorBannerProps) {
+  return (
+    <div
+      role="alert"
+      className="flex flex-col sm:flex-row sm:items-center gap-3 px-4 sm:px-6 lg:px-8 py-2.5 bg-amber-100 dark:bg-amber-900/60 border-b border-amber-200 dark:border-amber-800"
+    >
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        <FiAlertTriangle className="w-4 h-4 flex-shrink-0 text-amber-700 dark:text-amber-300" />
+        <p className="text-sm text-amber-900 dark:text-amber-100">
+          Your permissions could not be loaded, so some pages or actions may be missing or
+          refused.
+        </p>
+      </div>
+      <Button size="sm" variant="outline" onClick={onRetry} className="bg-white dark:bg-slate-800">
+        Try again
+      </Button>
+    </div>
+  );
+}
@@ -1,46 +1,20 @@
 import { Link, useLocation } from 'react-router-dom';
-import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
+import { getNavigation } from '@/routes/routeRegistry';
 import { cn } from '@/lib/utils';
-import {
-  FiHome,
-  FiUsers,
-  FiShoppingBag,
-  FiX,
-} from 'react-icons/fi';
+import { FiX } from 'react-icons/fi';
 
 interface SidebarProps {
   isOpen: boolean;
   onToggle: () => void;
 }
 
-const navigation = [
-  {
-    name: 'Dashboard',
-    href: '/dashboard',
-    icon: FiHome,
-    roles: ['super_admin', 'admin', 'merchant'],
-  },
-  {
-    name: 'Users',
-    href: '/users',
-    icon: FiUsers,
-    roles: ['super_admin'],
-  },
-  {
-    name: 'Merchants',
-    href: '/merchants',
-    icon: FiShoppingBag,
-    roles: ['super_admin', 'admin'],
-  },
-];
-
 export function Sidebar({ isOpen, onToggle }: SidebarProps) {
   const location = useLocation();
-  const { user } = useAuth();
+  const { hasPermission, isLoading: isLoadingPermissions } = usePermission();
 
-  const filteredNavigation = navigation.filter((item) =>
-    item.roles.includes(user?.role || '')
-  );
+  // Pages come from the route registry, filtered like the routes themselves
+  const navigation = getNavigation(hasPermission);
 
   return (
     <>
@@ -73,34 +47,51 @@ export function Sidebar({ isOpen, onToggle }: SidebarProps) {
             </button>
           </div>
 
-          <nav className="flex-1 px-3 py-4 space-y-1 overflow-y-auto">
-            {filteredNavigation.map((item) => {
-              const isActive = location.pathname.startsWith(item.href);
-              return (
-                <Link
-                  key={item.name}
-                  to={item.href}
-                  onClick={onToggle}
-                  className={cn(
-                    'relative flex items-center px-3 py-2.5 text-sm font-medium rounded-xl transition-all duration-200',
-                    isActive
-                      ? 'bg-indigo-50 text-indigo-700'
-                      : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'
-                  )}
-                >
-                  <item.icon
-                    className={cn(
-                      'w-5 h-5 mr-3 transition-colors',
-                      isActive ? 'text-indigo-600' : 'text-slate-400'
-                    )}
-                  />
-                  {item.name}
-                  {isActive && (
-                    <span className="absolute right-3 w-1.5 h-1.5 bg-indigo-500 rounded-full" />
-                  )}
-                </Link>
-              );
-            })}
+          <nav className="flex-1 px-3 py-4 space-y-4 overflow-y-auto">
+            {isLoadingPermissions && (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+              </div>
+            )}
+            {!isLoadingPermissions && navigation.map((group) => (
+              <div key={group.id} className="space-y-1">
+                {group.label && (
+                  <p className="px-3 pb-1 text-xs font-semibold uppercase tracking-wider text-slate-400">
+                    {group.label}
+                  </p>
+                )}
+                {group.routes.map((item) => {
+                  const isActive = location.pathname.startsWith(item.path);
+                  const Icon = item.icon;
+                  return (
+                    <Link
+                      key={item.path}
+                      to={item.path}
+                      onClick={onToggle}
+                      className={cn(
+                        'relative flex items-center px-3 py-2.5 text-sm font-medium rounded-xl transition-all duration-200',
+                        isActive
+                          ? 'bg-indigo-50 text-indigo-700'
+                          : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'
+                      )}
+                    >
+                      {Icon && (
+                        <Icon
+                          className={cn(
+                            'w-5 h-5 mr-3 transition-colors',
+                            isActive ? 'text-indigo-600' : 'text-slate-400'
+                          )}
+                        />
+                      )}
+                      {item.title}
+                      {isActive && (
+                        <span className="absolute right-3 w-1.5 h-1.5 bg-indigo-500 rounded-full" />
+                      )}
+                    </Link>
+                  );
+                })}
+              </div>
+            ))}
           </nav>
         </div>
       </aside>
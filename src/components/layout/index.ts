@@ -1,4 +1,5 @@
 export { Sidebar } from './Sidebar';
 export { Header } from './Header';
+export { Breadcrumbs } from './Breadcrumbs';
 export { MainLayout } from './MainLayout';
 
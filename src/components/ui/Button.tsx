@@ -1,13 +1,21 @@
 import { forwardRef, type ButtonHTMLAttributes } from 'react';
 import { cn } from '@/lib/utils';
+import { useCan } from '@/hooks/useCan';
+import type { Permission } from '@/types/models';
 
-interface ButtonProps extends ButtonHTMLAttributes<HTMLButtonElement> {
+interface BaseButtonProps extends ButtonHTMLAttributes<HTMLButtonElement> {
   variant?: 'primary' | 'secondary' | 'danger' | 'ghost' | 'outline';
-  size?: 'sm' | 'md' | 'lg';
+  size?: 'sm' | 'md' | 'lg' | 'icon';
   isLoading?: boolean;
 }
 
-const Button = forwardRef<HTMLButtonElement, ButtonProps>(
+interface ButtonProps extends BaseButtonProps {
+  // Without it the button shows disabled, with deniedReason as its tooltip
+  permission?: Permission;
+  deniedReason?: string;
+}
+
+const BaseButton = forwardRef<HTMLButtonElement, BaseButtonProps>(
   ({ className, variant = 'primary', size = 'md', isLoading, children, disabled, ...props }, ref) => {
     const baseStyles = 'inline-flex items-center justify-center font-medium rounded-xl transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed btn-transition';
 
@@ -23,6 +31,8 @@ const Button = forwardRef<HTMLButtonElement, ButtonProps>(
       sm: 'px-3 py-1.5 text-xs',
       md: 'px-4 py-2 text-sm',
       lg: 'px-6 py-2.5 text-base',
+      // Icon-only row actions; give them an aria-label
+      icon: 'p-2',
     };
 
     return (
@@ -60,6 +70,41 @@ const Button = forwardRef<HTMLButtonElement, ButtonProps>(
   }
 );
 
+BaseButton.displayName = 'BaseButton';
+
+// aria-disabled rather than disabled, so the tooltip still shows on hover and
+// keyboard focus can reach it
+const PermissionButton = forwardRef<HTMLButtonElement, ButtonProps & { permission: Permission }>(
+  ({ permission, deniedReason = "You don't have permission to do this", className, ...props }, ref) => {
+    if (useCan(permission)) {
+      return <BaseButton ref={ref} className={className} {...props} />;
+    }
+
+    return (
+      <BaseButton
+        ref={ref}
+        {...props}
+        type="button"
+        aria-disabled="true"
+        title={deniedReason}
+        onClick={(event) => event.preventDefault()}
+        className={cn('opacity-50 cursor-not-allowed', className)}
+      />
+    );
+  }
+);
+
+PermissionButton.displayName = 'PermissionButton';
+
+// Only buttons that name a permission read the auth context
+const Button = forwardRef<HTMLButtonElement, ButtonProps>(({ permission, deniedReason, ...props }, ref) =>
+  permission ? (
+    <PermissionButton ref={ref} permission={permission} deniedReason={deniedReason} {...props} />
+  ) : (
+    <BaseButton ref={ref} {...props} />
+  )
+);
+
 Button.displayName = 'Button';
 
 export { Button };
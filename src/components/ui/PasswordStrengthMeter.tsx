@@ -0,0 +1,68 @@
+import { cn } from '@/lib/utils';
+import {
+  getPasswordRules,
+  getPasswordStrength,
+  passwordPolicy,
+  passwordStrengthLabels,
+  type PasswordPolicy,
+} from '@/validations/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy?: PasswordPolicy;
+  className?: string;
+}
+
+const barColors = ['bg-red-500', 'bg-red-500', 'bg-amber-500', 'bg-lime-500', 'bg-green-500'];
+const labelColors = [
+  'text-red-600 dark:text-red-400',
+  'text-red-600 dark:text-red-400',
+  'text-amber-600 dark:text-amber-400',
+  'text-lime-600 dark:text-lime-400',
+  'text-green-600 dark:text-green-400',
+];
+
+// Strength bar plus a checklist of the password policy rules
+export function PasswordStrengthMeter({ password, policy = passwordPolicy, className }: PasswordStrengthMeterProps) {
+  const strength = getPasswordStrength(password, policy);
+  const rules = getPasswordRules(policy);
+
+  return (
+    <div className={cn('space-y-2', className)} aria-live="polite">
+      <div className="flex items-center gap-3">
+        <div className="flex flex-1 gap-1">
+          {[1, 2, 3, 4].map((level) => (
+            <div
+              key={level}
+              className={cn(
+                'h-1.5 flex-1 rounded-full transition-colors',
+                password && strength >= level ? barColors[strength] : 'bg-slate-200 dark:bg-slate-700'
+              )}
+            />
+          ))}
+        </div>
+        <span className={cn('text-xs font-medium w-16 text-right', password ? labelColors[strength] : 'text-slate-400')}>
+          {password ? passwordStrengthLabels[strength] : ''}
+        </span>
+      </div>
+
+      <ul className="text-sm space-y-1">
+        {rules.map((rule) => {
+          const passed = rule.test(password);
+          return (
+            <li
+              key={rule.id}
+              className={cn(
+                'flex items-center',
+                passed ? 'text-green-600 dark:text-green-400' : 'text-slate-500 dark:text-slate-400'
+              )}
+            >
+              <span className="mr-2">{passed ? '✓' : '✗'}</span>
+              {rule.label}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
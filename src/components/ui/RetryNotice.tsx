@@ -0,0 +1,27 @@
+import { FiRefreshCw } from 'react-icons/fi';
+import { cn } from '@/lib/utils';
+
+interface RetryNoticeProps {
+  // Failed attempts so far; nothing is rendered while it is 0
+  retryCount: number;
+  className?: string;
+}
+
+export function RetryNotice({ retryCount, className }: RetryNoticeProps) {
+  if (retryCount <= 0) return null;
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'flex items-center gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4',
+        className
+      )}
+    >
+      <FiRefreshCw className="w-4 h-4 flex-shrink-0 text-amber-600 dark:text-amber-400 animate-spin" />
+      <p className="text-sm text-amber-800 dark:text-amber-300">
+        Having trouble reaching the server. Retrying&hellip; (attempt {retryCount + 1})
+      </p>
+    </div>
+  );
+}
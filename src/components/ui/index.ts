@@ -5,3 +5,5 @@ export { SearchableSelect } from './SearchableSelect';
 export { Card, CardHeader } from './Card';
 export { Badge } from './Badge';
 
+export { RetryNotice } from './RetryNotice';
+export { PasswordStrengthMeter } from './PasswordStrengthMeter';
@@ -1,54 +1,78 @@
 /* eslint-disable react-refresh/only-export-components */
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
-import apiClient from '@/api/client';
 import { authApi } from '@/api/auth';
 import settingsApi from '@/api/settings';
-import type { User } from '@/types/models';
-import type { AxiosError } from 'axios';
-import type { ResetPasswordPayload } from '@/types/models';
+import { usersApi } from '@/api/users';
+import { normalizeApiError } from '@/api/errors';
+import { startLeaderRefresh } from '@/api/tokenRefresh';
+import { emitAuthEvent, onAuthEvent, type LogoutReason } from '@/api/authEvents';
+import { queryClient } from '@/api/queryClient';
+import type { AuthUser } from '@/api/schemas';
+import type { Permission, User } from '@/types/models';
+import type {
+  AcceptInvitationPayload,
+  ResetPasswordPayload,
+  SsoCallbackPayload,
+  TwoFactorChallengePayload,
+} from '@/types/models';
+
+// Where the signed in user's permissions are: 'idle' while signed out
+export type PermissionsStatus = 'idle' | 'loading' | 'success' | 'error';
+
+// Accounts with two-factor enabled get a challenge instead of a session
+export type LoginResult =
+  | { status: 'authenticated' }
+  | { status: 'two_factor_required'; challengeToken: string };
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Set when the session ended on its own rather than by logging out
+  logoutReason: LogoutReason | null;
+  // The super admin viewing the app as user, while impersonating
+  impersonator: User | null;
+  // The user's permissions from the backend; null until they arrive or when
+  // the request failed (see permissionsStatus)
+  permissions: Permission[] | null;
+  permissionsStatus: PermissionsStatus;
+  // Ask the backend for the permissions again, e.g. after they failed to load
+  // or their role's permissions were changed
+  reloadPermissions: () => void;
+  // remember keeps the session after the browser closes ("Remember me")
+  login: (email: string, password: string, remember?: boolean) => Promise<LoginResult>;
+  // Answer the challenge from login with an authenticator or recovery code
+  verifyTwoFactor: (payload: TwoFactorChallengePayload, remember?: boolean) => Promise<void>;
+  // Finish a single sign-on login from the /auth/callback redirect
+  loginWithSso: (payload: SsoCallbackPayload, remember?: boolean) => Promise<void>;
   register: (data: { name: string; email: string; password: string; role: 'admin' | 'merchant' }) => Promise<void>;
-  logout: () => Promise<void>;
-  forgotPassword: (email: string) => Promise<{ reset_token: string; note: string } | null>;
+  // Pass a reason when the app signs the user out on its own (e.g. 'idle')
+  logout: (reason?: LogoutReason) => Promise<void>;
+  // Ask for a reset link by email; resolves the same way whether or not the account exists
+  forgotPassword: (email: string) => Promise<void>;
   resetPassword: (data: ResetPasswordPayload) => Promise<void>;
+  // Set the password for an invited account and sign in to it
+  acceptInvitation: (data: AcceptInvitationPayload) => Promise<void>;
   refreshUser: () => Promise<void>;
+  // Needs canImpersonateUsers: continue as another user until stopImpersonating
+  impersonate: (userId: number) => Promise<void>;
+  // Back to the super admin's own session
+  stopImpersonating: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Flag to prevent infinite refresh loops
-let isRefreshing = false;
-let refreshSubscribers: Array<(token: string) => void> = [];
-
-const subscribeTokenRefresh = (cb: (token: string) => void) => {
-  refreshSubscribers.push(cb);
-};
-
-const onTokenRefreshed = (token: string) => {
-  refreshSubscribers.forEach(cb => cb(token));
-  refreshSubscribers = [];
-};
-
-// Helper to extract user data from response
-const extractUserData = (responseData: unknown): User => {
-  // Handle response.data.user format
-  if (responseData && typeof responseData === 'object' && 'user' in responseData) {
-    return (responseData as { user: User }).user;
-  }
-  // Handle direct response format
-  return responseData as User;
-};
-
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-
-  // Initialize auth state from localStorage
+  const [logoutReason, setLogoutReason] = useState<LogoutReason | null>(null);
+  const [impersonator, setImpersonator] = useState<User | null>(null);
+  // Tagged with the user they belong to, so another user's set is never used;
+  // permissions is null when the request failed
+  const [loadedPermissions, setLoadedPermissions] = useState<{ userId: number; permissions: Permission[] | null } | null>(null);
+  const [permissionsAttempt, setPermissionsAttempt] = useState(0);
+
+  // Initialize auth state from token storage
   useEffect(() => {
     const initializeAuth = () => {
       const storedUser = authApi.getStoredUser();
@@ -56,6 +80,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       if (storedUser && isAuth) {
         setUser(storedUser);
+        setImpersonator(authApi.getImpersonator());
       }
       setIsLoading(false);
     };
@@ -63,152 +88,200 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     initializeAuth();
   }, []);
 
-  // Setup axios interceptor for token refresh
+  // Follow session changes from the API layer (token refresh) and other tabs
   useEffect(() => {
-    const interceptor = apiClient.interceptors.response.use(
-      (response) => response,
-      async (error) => {
-        const originalRequest = error.config;
-
-        // If error is 401 and we haven't retried yet
-        if (error.response?.status === 401 && !originalRequest._retry) {
-          originalRequest._retry = true;
-
-          const refreshToken = authApi.getRefreshToken();
-
-          if (!refreshToken) {
-            // No refresh token available, logout
-            authApi.clearUser();
+    return onAuthEvent((event, source) => {
+      switch (event.type) {
+        case 'refreshed':
+          if (source === 'remote') {
+            authApi.storeSession(event.user);
+          }
+          setUser(event.user);
+          break;
+        case 'session-expired':
+          // Refresh failed - tokens are already cleared (in this tab's storage only)
+          if (source === 'remote') {
+            authApi.clearSession();
+          }
+          queryClient.clear();
+          setLogoutReason('unauthorized');
+          setImpersonator(null);
+          setUser(null);
+          break;
+        case 'login':
+          // This tab already applied its own login, logout and profile updates
+          if (source === 'remote') {
+            authApi.storeSession(event.user, event.persistence);
+            queryClient.clear();
+            setLogoutReason(null);
+            setImpersonator(null);
+            setUser(event.user);
+          }
+          break;
+        case 'logout':
+          if (source === 'remote') {
+            authApi.clearSession();
+            queryClient.clear();
+            setLogoutReason(event.reason ?? null);
+            setImpersonator(null);
             setUser(null);
-            return Promise.reject(error);
           }
-
-          if (!isRefreshing) {
-            isRefreshing = true;
-
-            try {
-              const response = await authApi.refreshToken(refreshToken);
-              const userData = extractUserData(response.data);
-              const newToken = userData.token;
-              const newRefreshToken = (userData as { refresh_token?: string }).refresh_token;
-
-              // Check if tokens exist
-              if (!newToken) {
-                throw new Error('No token in refresh response');
-              }
-
-              // Store new tokens
-              localStorage.setItem('auth_token', newToken);
-              if (newRefreshToken) {
-                authApi.storeRefreshToken(newRefreshToken);
-              }
-
-              // Update stored user data
-              authApi.storeUser(userData);
-              setUser(userData);
-
-              // Notify all subscribers
-              onTokenRefreshed(newToken);
-
-              return apiClient(originalRequest);
-            } catch (refreshError) {
-              // Refresh failed, logout
-              isRefreshing = false;
-              authApi.clearUser();
-              setUser(null);
-              return Promise.reject(refreshError);
+          break;
+        case 'impersonation-started':
+          if (source === 'remote') {
+            authApi.storeImpersonation(event.user, event.impersonator);
+            queryClient.clear();
+            setImpersonator(event.impersonator);
+            setUser(event.user);
+          }
+          break;
+        case 'impersonation-ended':
+          if (source === 'remote') {
+            authApi.endImpersonation(event.user);
+            queryClient.clear();
+            setImpersonator(null);
+            setUser(event.user);
+          }
+          break;
+        case 'user-updated':
+          // Each tab keeps its own copy when the session is not in localStorage
+          if (source === 'remote') {
+            authApi.storeUser(event.user);
+            setUser(event.user);
+          }
+          break;
+        case 'session-changed': {
+          // Sent without tokens, so use whatever session this tab's storage holds
+          const storedUser = authApi.isAuthenticated() ? authApi.getStoredUser() : null;
+          if (source === 'remote' && storedUser) {
+            // Another account's data must not stay in the cache
+            if (event.change !== 'refreshed') {
+              queryClient.clear();
+            }
+            if (event.change === 'login') {
+              setLogoutReason(null);
             }
-          } else {
-            // Wait for token to be refreshed
-            return new Promise((resolve) => {
-              subscribeTokenRefresh((token) => {
-                originalRequest.headers.Authorization = `Bearer ${token}`;
-                resolve(apiClient(originalRequest));
-              });
-            });
+            setImpersonator(authApi.getImpersonator());
+            setUser(storedUser);
           }
+          break;
         }
-
-        return Promise.reject(error);
       }
-    );
+    });
+  }, []);
+
+  // Refresh the token before it expires for as long as someone is signed in
+  const isAuthenticated = !!user;
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return startLeaderRefresh();
+  }, [isAuthenticated]);
+
+  // Ask the backend again whenever the session changes: login, token refresh,
+  // impersonation or a profile update. Until the first answer for this user
+  // arrives the status is 'loading', so nothing is denied too early.
+  useEffect(() => {
+    if (!user) return;
+
+    let isCurrent = true;
+    authApi
+      .getPermissions()
+      .then((response) => {
+        if (isCurrent) setLoadedPermissions({ userId: user.id, permissions: response.data.permissions });
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load permissions:', error);
+        // A set loaded earlier for this user stays in use
+        if (isCurrent) {
+          setLoadedPermissions((current) =>
+            current?.userId === user.id && current.permissions ? current : { userId: user.id, permissions: null }
+          );
+        }
+      });
 
     return () => {
-      apiClient.interceptors.response.eject(interceptor);
+      isCurrent = false;
     };
+  }, [user, permissionsAttempt]);
+
+  const userPermissions = user && loadedPermissions?.userId === user.id ? loadedPermissions : null;
+  const permissions = userPermissions?.permissions ?? null;
+  const permissionsStatus: PermissionsStatus = !user
+    ? 'idle'
+    : !userPermissions
+      ? 'loading'
+      : userPermissions.permissions
+        ? 'success'
+        : 'error';
+
+  // Back to loading, unless a set is already there and is only being refreshed
+  const reloadPermissions = useCallback(() => {
+    setLoadedPermissions((current) => (current?.permissions ? current : null));
+    setPermissionsAttempt((attempt) => attempt + 1);
   }, []);
 
-  // Login
-  const login = useCallback(async (email: string, password: string): Promise<void> => {
-    try {
-      const response = await authApi.login({ email, password });
+  // Sign in with the user and tokens from login or the two-factor step
+  const startSession = useCallback((userData: AuthUser, remember: boolean) => {
+    // Store auth data - ensure this is BEFORE setUser
+    const persistence = remember ? 'local' : 'session';
+    authApi.storeSession(userData, persistence);
 
-      const userData = extractUserData(response.data);
+    // Never show cached data from a previous session
+    queryClient.clear();
 
-      if (!userData || !userData.token) {
-        console.error('Invalid login response structure:', response);
-        throw new Error('Invalid login response');
-      }
+    // Set user state - this will trigger isAuthenticated to become true
+    setLogoutReason(null);
+    setImpersonator(null);
+    setUser(userData);
+    emitAuthEvent({ type: 'login', user: userData, persistence });
+  }, []);
 
-      // Store auth data - ensure this is BEFORE setUser
-      localStorage.setItem('auth_token', userData.token);
-      const refreshToken = (userData as { refresh_token?: string }).refresh_token;
-      if (refreshToken) {
-        authApi.storeRefreshToken(refreshToken);
+  // Login
+  const login = useCallback(async (email: string, password: string, remember = false): Promise<LoginResult> => {
+    try {
+      // Responses without a token fail validation with a 'schema' error
+      const response = await authApi.login({ email, password });
+      if ('two_factor_required' in response.data) {
+        return { status: 'two_factor_required', challengeToken: response.data.challenge_token };
       }
-      authApi.storeUser(userData);
 
-      // Set user state - this will trigger isAuthenticated to become true
-      setUser(userData);
+      startSession(response.data, remember);
+      return { status: 'authenticated' };
     } catch (error) {
       console.error('Login error:', error);
+      throw normalizeApiError(error);
+    }
+  }, [startSession]);
 
-      // Extract error message from Axios error
-      const axiosError = error as AxiosError<{ message?: string; success?: boolean }>;
-
-      let errorMessage = 'Login failed. Please try again.';
-
-      if (axiosError.response?.data) {
-        const responseData = axiosError.response.data;
-
-        // Handle {success: false, message: '...'} format from backend
-        if (typeof responseData === 'object' && responseData.message) {
-          errorMessage = responseData.message;
-        }
-        // Handle string response
-        else if (typeof responseData === 'string') {
-          errorMessage = responseData;
-        }
-      } else if (axiosError.message) {
-        errorMessage = axiosError.message;
-      }
-
-      // Create custom error with extracted message
-      const customError = new Error(errorMessage) as AxiosError<{ message?: string }>;
-      customError.response = axiosError.response;
+  // Second login step for accounts with two-factor enabled
+  const verifyTwoFactor = useCallback(async (payload: TwoFactorChallengePayload, remember = false) => {
+    try {
+      const response = await authApi.verifyTwoFactor(payload);
+      startSession(response.data, remember);
+    } catch (error) {
+      throw normalizeApiError(error);
+    }
+  }, [startSession]);
 
-      throw customError;
+  // Single sign-on - same session as a password login
+  const loginWithSso = useCallback(async (payload: SsoCallbackPayload, remember = false) => {
+    try {
+      const response = await authApi.ssoCallback(payload);
+      startSession(response.data, remember);
+    } catch (error) {
+      throw normalizeApiError(error);
     }
-  }, []);
+  }, [startSession]);
 
   // Register (Super Admin only)
   const register = useCallback(async (data: { name: string; email: string; password: string; role: 'admin' | 'merchant' }) => {
     setIsLoading(true);
     try {
       const response = await authApi.register(data);
-      const userData = extractUserData(response.data);
-
-      if (!userData || !userData.token) {
-        throw new Error('Invalid register response');
-      }
+      const userData = response.data;
 
       // Store auth data
-      localStorage.setItem('auth_token', userData.token);
-      const refreshToken = (userData as { refresh_token?: string }).refresh_token;
-      if (refreshToken) {
-        authApi.storeRefreshToken(refreshToken);
-      }
-      authApi.storeUser(userData);
+      authApi.storeSession(userData);
 
       setUser(userData);
     } finally {
@@ -216,30 +289,62 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Impersonation - the super admin's session waits in storage until they return.
+  // Cached data belongs to the other account, so the query cache starts over.
+  const impersonate = useCallback(async (userId: number) => {
+    const original = authApi.getStoredSession();
+    if (!original) return;
+
+    try {
+      const response = await usersApi.impersonateUser(String(userId));
+      authApi.storeImpersonation(response.data, original);
+      queryClient.clear();
+      setImpersonator(original);
+      setUser(response.data);
+      emitAuthEvent({ type: 'impersonation-started', user: response.data, impersonator: original });
+    } catch (error) {
+      throw normalizeApiError(error);
+    }
+  }, []);
+
+  const stopImpersonating = useCallback(async () => {
+    await authApi.leaveImpersonation();
+    const original = authApi.endImpersonation();
+    if (!original) return;
+
+    queryClient.clear();
+    setImpersonator(null);
+    setUser(original);
+    emitAuthEvent({ type: 'impersonation-ended', user: original });
+  }, []);
+
   // Logout
-  const logout = useCallback(async () => {
+  const logout = useCallback(async (reason?: LogoutReason) => {
     setIsLoading(true);
     try {
+      // Sign out the super admin too, not just the account they were viewing as
+      if (authApi.getImpersonator()) {
+        await authApi.leaveImpersonation();
+        authApi.endImpersonation();
+      }
       await authApi.logout();
     } catch (error) {
       console.error('Logout error:', error);
     } finally {
       // Clear auth data regardless of API response
-      localStorage.removeItem('auth_token');
-      authApi.clearUser();
+      authApi.clearSession();
+      queryClient.clear();
+      setLogoutReason(reason ?? null);
+      setImpersonator(null);
       setUser(null);
+      emitAuthEvent({ type: 'logout', reason });
       setIsLoading(false);
     }
   }, []);
 
   // Forgot Password
-  const forgotPassword = useCallback(async (email: string): Promise<{ reset_token: string; note: string } | null> => {
-    const response = await authApi.forgotPassword({ email });
-    // Handle case where response is null or doesn't contain reset_token
-    if (!response || !response.data) {
-      return null;
-    }
-    return response.data;
+  const forgotPassword = useCallback(async (email: string) => {
+    await authApi.forgotPassword({ email });
   }, []);
 
   // Reset Password
@@ -247,13 +352,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await authApi.resetPassword(data);
   }, []);
 
+  // Accept Invitation - a new account, so it starts a fresh session
+  const acceptInvitation = useCallback(async (data: AcceptInvitationPayload) => {
+    try {
+      const response = await authApi.acceptInvitation(data);
+      startSession(response.data, false);
+    } catch (error) {
+      throw normalizeApiError(error);
+    }
+  }, [startSession]);
+
   // Refresh user data
   const refreshUser = useCallback(async () => {
     try {
       const response = await settingsApi.profile.get();
-      const userData = response.data.data; // API returns {success, message, data}
+      const userData = response.data;
       authApi.storeUser(userData);
       setUser(userData);
+      emitAuthEvent({ type: 'user-updated', user: userData });
     } catch (error) {
       console.error('Failed to refresh user:', error);
     }
@@ -262,13 +378,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const value: AuthContextType = {
     user,
     isLoading,
-    isAuthenticated: !!user,
+    isAuthenticated,
+    logoutReason,
+    impersonator,
+    permissions,
+    permissionsStatus,
+    reloadPermissions,
     login,
+    verifyTwoFactor,
+    loginWithSso,
     register,
     logout,
     forgotPassword,
     resetPassword,
+    acceptInvitation,
     refreshUser,
+    impersonate,
+    stopImpersonating,
   };
 
   return (
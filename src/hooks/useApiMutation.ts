@@ -0,0 +1,40 @@
+import { useCallback, useState } from 'react';
+import { queryClient, type QueryTag } from '@/api/queryClient';
+import { normalizeApiError, type ApiRequestError } from '@/api/errors';
+
+interface UseApiMutationOptions {
+  // Extra tags to refresh on success, on top of those the api module invalidates
+  invalidates?: QueryTag[];
+}
+
+// Tracks pending/error state for a write request and refreshes affected queries
+export function useApiMutation<TVariables, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>,
+  { invalidates = [] }: UseApiMutationOptions = {}
+) {
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<ApiRequestError | null>(null);
+
+  const mutate = useCallback(async (variables: TVariables): Promise<TResult> => {
+    setIsPending(true);
+    setError(null);
+    try {
+      const result = await mutationFn(variables);
+      if (invalidates.length > 0) {
+        queryClient.invalidate(invalidates);
+      }
+      return result;
+    } catch (err) {
+      const apiError = normalizeApiError(err);
+      setError(apiError);
+      throw apiError;
+    } finally {
+      setIsPending(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mutationFn, invalidates.join(',')]);
+
+  const reset = useCallback(() => setError(null), []);
+
+  return { mutate, isPending, error, reset };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import {
+  queryClient,
+  hashQueryKey,
+  type QueryFunction,
+  type QueryKey,
+  type QueryTag,
+} from '@/api/queryClient';
+
+interface UseApiQueryOptions<T> {
+  queryKey: QueryKey;
+  queryFn: QueryFunction<T>;
+  tags?: QueryTag[];
+  staleTime?: number;
+  enabled?: boolean;
+  // Set only on the page's main data: a 403 then shows the Forbidden page
+  forbiddenPage?: boolean;
+}
+
+// Cached data fetching on top of the api helpers, keyed by queryKey
+export function useApiQuery<T>({ queryKey, queryFn, tags, staleTime, enabled = true, forbiddenPage }: UseApiQueryOptions<T>) {
+  const hash = hashQueryKey(queryKey);
+  // Rebuild the key only when its hash changes so callers can pass inline arrays
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const key = useMemo(() => queryKey, [hash]);
+
+  const subscribe = useCallback((listener: () => void) => queryClient.subscribe(key, listener), [key]);
+  const getSnapshot = useCallback(() => queryClient.getState<T>(key), [key]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Keep the latest query function so invalidation refetches use current params
+  useEffect(() => {
+    queryClient.configure(key, { queryFn, tags, staleTime, forbiddenPage });
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    queryClient.ensureQuery(key).catch(() => undefined);
+  }, [key, enabled]);
+
+  const refetch = useCallback(() => queryClient.fetchQuery<T>(key), [key]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    status: state.status,
+    isLoading: enabled && (state.status === 'idle' || state.status === 'loading'),
+    isFetching: state.isFetching,
+    // A transient failure is being retried - show it instead of a silent spinner
+    isRetrying: state.isFetching && state.retryCount > 0,
+    retryCount: state.retryCount,
+    refetch,
+  };
+}
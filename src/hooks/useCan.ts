@@ -0,0 +1,9 @@
+import { usePermission } from '@/hooks/usePermission';
+import type { Permission } from '@/types/models';
+
+// Whether the signed in user has the permission; for one check where
+// usePermission's helpers would be more than needed
+export function useCan(permission: Permission): boolean {
+  const { hasPermission } = usePermission();
+  return hasPermission(permission);
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { formatCountdown, getSecondsLeft } from '@/hooks/useCountdown';
+
+describe('Countdown', () => {
+  describe('getSecondsLeft - rounding', () => {
+    it('should round partial seconds up', () => {
+      expect(getSecondsLeft(10_500, 0)).toBe(11);
+    });
+
+    it('should stop at zero once the deadline passed', () => {
+      expect(getSecondsLeft(1_000, 5_000)).toBe(0);
+    });
+  });
+
+  describe('formatCountdown - display', () => {
+    it('should show seconds under a minute', () => {
+      expect(formatCountdown(42)).toBe('42s');
+    });
+
+    it('should show minutes and padded seconds from a minute up', () => {
+      expect(formatCountdown(60)).toBe('1:00');
+      expect(formatCountdown(905)).toBe('15:05');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Whole seconds left until endsAt, never negative
+export function getSecondsLeft(endsAt: number, now: number): number {
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
+
+// "m:ss" for waits of a minute or more, "42s" below that
+export function formatCountdown(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Count down once per second, e.g. for "Resend in 42s". Counts from a
+// deadline rather than decrementing, so throttled background tabs stay right.
+export function useCountdown() {
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (endsAt === null) return;
+
+    const interval = setInterval(() => {
+      const left = getSecondsLeft(endsAt, Date.now());
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(interval);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const start = useCallback((seconds: number) => {
+    setEndsAt(Date.now() + seconds * 1000);
+    setSecondsLeft(Math.ceil(seconds));
+  }, []);
+
+  return {
+    secondsLeft,
+    isRunning: secondsLeft > 0,
+    start,
+  };
+}
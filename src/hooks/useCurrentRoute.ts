@@ -0,0 +1,9 @@
+import { useMatches } from 'react-router-dom';
+import type { AppRoute, AppRouteHandle } from '@/routes/routeRegistry';
+
+// The registry entry of the page being shown, or null outside the app layout
+export function useCurrentRoute(): AppRoute | null {
+  const matches = useMatches();
+  const match = [...matches].reverse().find((item) => (item.handle as AppRouteHandle | undefined)?.appRoute);
+  return (match?.handle as AppRouteHandle | undefined)?.appRoute ?? null;
+}
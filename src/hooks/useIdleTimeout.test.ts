@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { getIdleState } from '@/hooks/useIdleTimeout';
+
+const MINUTE = 60 * 1000;
+
+describe('Idle Timeout', () => {
+  describe('getIdleState - countdown', () => {
+    it('should stay active before the warning period', () => {
+      expect(getIdleState(0, 10 * MINUTE, 15 * MINUTE, MINUTE).status).toBe('active');
+    });
+
+    it('should warn with the seconds left in the last minute', () => {
+      expect(getIdleState(0, 14 * MINUTE + 15 * 1000, 15 * MINUTE, MINUTE)).toEqual({
+        status: 'warning',
+        secondsLeft: 45,
+      });
+    });
+
+    it('should expire once the timeout has passed', () => {
+      expect(getIdleState(0, 15 * MINUTE, 15 * MINUTE, MINUTE)).toEqual({ status: 'expired', secondsLeft: 0 });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Sign out after this much inactivity (VITE_IDLE_TIMEOUT_MINUTES, default 15)
+export const IDLE_TIMEOUT = (Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES) || 15) * 60 * 1000;
+// Show the countdown this long before signing out
+export const IDLE_WARNING = 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'] as const;
+// Shared by all tabs, so working in one tab keeps the others signed in too
+const LAST_ACTIVITY_KEY = 'last_activity_at';
+
+export type IdleStatus = 'active' | 'warning' | 'expired';
+
+export interface IdleState {
+  status: IdleStatus;
+  // Seconds until sign out, only meaningful while warning
+  secondsLeft: number;
+}
+
+export function getIdleState(lastActivity: number, now: number, timeout: number, warningTime: number): IdleState {
+  const remaining = lastActivity + timeout - now;
+  if (remaining <= 0) return { status: 'expired', secondsLeft: 0 };
+
+  const secondsLeft = Math.ceil(remaining / 1000);
+  return { status: remaining <= warningTime ? 'warning' : 'active', secondsLeft };
+}
+
+const readLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+const storeLastActivity = (time: number) => localStorage.setItem(LAST_ACTIVITY_KEY, String(time));
+
+interface UseIdleTimeoutOptions {
+  timeout?: number;
+  warningTime?: number;
+  onTimeout: () => void;
+}
+
+// Track user activity and report when the session should warn or end
+export function useIdleTimeout({ timeout = IDLE_TIMEOUT, warningTime = IDLE_WARNING, onTimeout }: UseIdleTimeoutOptions) {
+  const [idle, setIdle] = useState<IdleState>({ status: 'active', secondsLeft: Math.ceil(timeout / 1000) });
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  });
+
+  useEffect(() => {
+    let lastWrite = 0;
+    storeLastActivity(Date.now());
+
+    const markActive = () => {
+      const now = Date.now();
+      if (now - lastWrite < 1000) return;
+      // Once the warning shows, only the dialog buttons keep the session
+      if (getIdleState(readLastActivity(), now, timeout, warningTime).status !== 'active') return;
+      lastWrite = now;
+      storeLastActivity(now);
+    };
+
+    const tick = () => {
+      const next = getIdleState(readLastActivity(), Date.now(), timeout, warningTime);
+      setIdle((current) =>
+        current.status === next.status && current.secondsLeft === next.secondsLeft ? current : next
+      );
+      if (next.status === 'expired') {
+        clearInterval(interval);
+        onTimeoutRef.current();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, markActive, { passive: true }));
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, markActive));
+    };
+  }, [timeout, warningTime]);
+
+  // Restart the idle period, e.g. from the warning dialog
+  const stayActive = useCallback(() => {
+    storeLastActivity(Date.now());
+    setIdle({ status: 'active', secondsLeft: Math.ceil(timeout / 1000) });
+  }, [timeout]);
+
+  return {
+    isWarning: idle.status === 'warning',
+    secondsLeft: idle.secondsLeft,
+    stayActive,
+  };
+}
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { resolvePermissions, toRolePermissions } from '@/hooks/usePermission';
 
 // Permission definitions for each role
 const rolePermissions: Record<string, Record<string, boolean>> = {
@@ -221,5 +222,47 @@ describe('usePermission Hook - Permission Logic', () => {
       expect(permissions.canViewAllMerchants).toBe(false);
     });
   });
-});
 
+  describe('toRolePermissions - permissions from the backend', () => {
+    it('should grant only the listed permissions', () => {
+      const permissions = toRolePermissions(['canViewMerchants', 'canCreateMerchants']);
+      expect(permissions.canViewMerchants).toBe(true);
+      expect(permissions.canCreateMerchants).toBe(true);
+      expect(permissions.canDeleteMerchants).toBe(false);
+      expect(permissions.canViewUsers).toBe(false);
+    });
+
+    it('should accept permissions the frontend does not know yet', () => {
+      const permissions = toRolePermissions(['reports.export']);
+      expect(permissions['reports.export']).toBe(true);
+      expect(permissions['reports.delete']).toBeUndefined();
+    });
+  });
+
+  describe('resolvePermissions - loading, loaded and failed sets', () => {
+    it('should grant nothing while the set is loading', () => {
+      const permissions = resolvePermissions('super_admin', 'loading', null);
+      expect(permissions.canViewUsers).toBe(false);
+      expect(permissions.canManageRoles).toBe(false);
+    });
+
+    it('should use the backend set once it has loaded', () => {
+      const permissions = resolvePermissions('super_admin', 'success', ['canViewMerchants']);
+      expect(permissions.canViewMerchants).toBe(true);
+      expect(permissions.canViewUsers).toBe(false);
+    });
+
+    it('should fall back to the role table when loading failed', () => {
+      const permissions = resolvePermissions('admin', 'error', null);
+      expect(permissions.canViewMerchants).toBe(true);
+      expect(permissions.canViewUsers).toBe(false);
+      expect(permissions.canManageRoles).toBe(false);
+    });
+
+    it('should grant a custom role nothing when loading failed', () => {
+      const permissions = resolvePermissions('auditor', 'error', null);
+      expect(permissions.canViewUsers).toBe(false);
+      expect(permissions.canViewMerchants).toBe(false);
+    });
+  });
+});
@@ -1,9 +1,10 @@
 import { useCallback } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
-import type { RolePermissions, UserRole } from '@/types/models';
+import { useAuth, type PermissionsStatus } from '@/contexts/AuthContext';
+import type { BuiltInRole, Permission, RolePermissions, UserRole } from '@/types/models';
 
-// Default permissions based on role
-const rolePermissions: Record<UserRole, RolePermissions> = {
+// Fallback for when the backend's permission set (AuthContext) could not be
+// fetched. Only the built-in roles are known here.
+const rolePermissions: Record<BuiltInRole, RolePermissions> = {
     super_admin: {
         canViewUsers: true,
         canCreateUsers: true,
@@ -14,6 +15,8 @@ const rolePermissions: Record<UserRole, RolePermissions> = {
         canUpdateMerchants: true,
         canDeleteMerchants: true,
         canViewAllMerchants: true,
+        canManageRoles: true,
+        canImpersonateUsers: true,
     },
     admin: {
         canViewUsers: false,
@@ -25,6 +28,8 @@ const rolePermissions: Record<UserRole, RolePermissions> = {
         canUpdateMerchants: true,
         canDeleteMerchants: true,
         canViewAllMerchants: true,
+        canManageRoles: false,
+        canImpersonateUsers: false,
     },
     merchant: {
         canViewUsers: false,
@@ -36,31 +41,60 @@ const rolePermissions: Record<UserRole, RolePermissions> = {
         canUpdateMerchants: false,
         canDeleteMerchants: false,
         canViewAllMerchants: false,
+        canManageRoles: false,
+        canImpersonateUsers: false,
     },
 };
 
+const noPermissions: RolePermissions = {
+    canViewUsers: false,
+    canCreateUsers: false,
+    canUpdateUsers: false,
+    canDeleteUsers: false,
+    canViewMerchants: false,
+    canCreateMerchants: false,
+    canUpdateMerchants: false,
+    canDeleteMerchants: false,
+    canViewAllMerchants: false,
+    canManageRoles: false,
+    canImpersonateUsers: false,
+};
+
+// The backend's list of granted permissions as flags; anything not listed is denied
+export function toRolePermissions(granted: readonly Permission[]): RolePermissions {
+    return granted.reduce<RolePermissions>((permissions, permission) => ({ ...permissions, [permission]: true }), {
+        ...noPermissions,
+    });
+}
+
+// The backend's set once it is loaded. Nothing while it is on its way (callers
+// wait for it, see isLoading); the role table only if loading it failed, and
+// only for built-in roles since a custom role's permissions live in the backend.
+export function resolvePermissions(
+    role: UserRole,
+    status: PermissionsStatus,
+    granted: readonly Permission[] | null
+): RolePermissions {
+    if (status === 'success' && granted) {
+        return toRolePermissions(granted);
+    }
+    if (status === 'error') {
+        return rolePermissions[role as BuiltInRole] || noPermissions;
+    }
+    return noPermissions;
+}
+
 export function usePermission() {
-    const { user } = useAuth();
+    const { user, permissions: grantedPermissions, permissionsStatus } = useAuth();
 
     const getPermissions = useCallback((): RolePermissions => {
         if (!user) {
-            return {
-                canViewUsers: false,
-                canCreateUsers: false,
-                canUpdateUsers: false,
-                canDeleteUsers: false,
-                canViewMerchants: false,
-                canCreateMerchants: false,
-                canUpdateMerchants: false,
-                canDeleteMerchants: false,
-                canViewAllMerchants: false,
-            };
+            return noPermissions;
         }
+        return resolvePermissions(user.role, permissionsStatus, grantedPermissions);
+    }, [user, grantedPermissions, permissionsStatus]);
 
-        return rolePermissions[user.role] || rolePermissions.merchant;
-    }, [user]);
-
-    const hasPermission = useCallback((permission: keyof RolePermissions): boolean => {
+    const hasPermission = useCallback((permission: Permission): boolean => {
         const permissions = getPermissions();
         return permissions[permission] ?? false;
     }, [getPermissions]);
@@ -85,6 +119,8 @@ export function usePermission() {
     return {
         user,
         permissions: getPermissions(),
+        // Permission checks are not final until this is false
+        isLoading: permissionsStatus === 'loading',
         hasPermission,
         isSuperAdmin,
         isAdmin,
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { decodeJwtPayload, getJwtExpiry } from '@/lib/jwt';
+
+const encode = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, '');
+const jwt = (payload: object) => `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+
+describe('JWT Helpers', () => {
+  describe('decodeJwtPayload - payload parsing', () => {
+    it('should decode the payload of a JWT', () => {
+      expect(decodeJwtPayload(jwt({ sub: 1, role: 'admin' }))).toEqual({ sub: 1, role: 'admin' });
+    });
+
+    it('should return null for opaque tokens', () => {
+      expect(decodeJwtPayload('1|laravelsanctumtoken')).toBeNull();
+      expect(decodeJwtPayload('a.not-base64!.b')).toBeNull();
+    });
+  });
+
+  describe('getJwtExpiry - exp claim', () => {
+    it('should convert exp to milliseconds', () => {
+      expect(getJwtExpiry(jwt({ exp: 1800000000 }))).toBe(1800000000 * 1000);
+    });
+
+    it('should return null without an exp claim', () => {
+      expect(getJwtExpiry(jwt({ sub: 1 }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,20 @@
+// Read the payload of a JWT without verifying it - only for client-side hints
+// like the expiry time, never for authorization decisions
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const decoded: unknown = JSON.parse(json);
+    return decoded && typeof decoded === 'object' ? (decoded as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Expiry of a JWT in ms since epoch, or null for opaque tokens
+export function getJwtExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { base64UrlEncode, createCodeChallenge, generateCodeVerifier } from '@/lib/pkce';
+
+describe('PKCE Helpers', () => {
+  describe('createCodeChallenge - S256', () => {
+    it('should base64url encode the SHA-256 digest', async () => {
+      // SHA-256("abc") = ba7816bf 8f01cfea ... f20015ad
+      expect(await createCodeChallenge('abc')).toBe('ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0');
+    });
+  });
+
+  describe('generateCodeVerifier - format', () => {
+    it('should return 43 unreserved characters, different every time', () => {
+      const verifier = generateCodeVerifier();
+      expect(verifier).toMatch(/^[A-Za-z0-9\-_]{43}$/);
+      expect(generateCodeVerifier()).not.toBe(verifier);
+    });
+  });
+
+  describe('base64UrlEncode - alphabet', () => {
+    it('should use - and _ without padding', () => {
+      expect(base64UrlEncode(new Uint8Array([251, 255, 191]))).toBe('-_-_');
+      expect(base64UrlEncode(new Uint8Array([1]))).toBe('AQ');
+    });
+  });
+});
@@ -0,0 +1,19 @@
+// Proof Key for Code Exchange (RFC 7636) for the SSO login: the verifier never
+// leaves this browser until the code exchange, the provider only sees its hash
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Unguessable URL-safe string, also used for the state and nonce parameters
+export const randomUrlSafeString = (byteLength = 32) =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+// 32 random bytes give 43 characters, the shortest verifier the spec allows
+export const generateCodeVerifier = () => randomUrlSafeString(32);
+
+// S256 challenge: base64url(SHA-256(verifier))
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { getLoginPath, getSafeRedirect, withRedirect } from '@/lib/redirect';
+
+describe('Redirect Helpers', () => {
+  describe('getSafeRedirect - post-login target', () => {
+    it('should keep a path with its query string and hash', () => {
+      expect(getSafeRedirect('/users?search=john&page=2#top')).toBe('/users?search=john&page=2#top');
+    });
+
+    it('should fall back to the dashboard when there is no target', () => {
+      expect(getSafeRedirect(null)).toBe('/dashboard');
+      expect(getSafeRedirect('')).toBe('/dashboard');
+    });
+
+    it('should reject targets on other sites', () => {
+      const targets = [
+        'https://evil.com',
+        '//evil.com',
+        '/\\evil.com',
+        '\\\\evil.com',
+        'javascript:alert(1)',
+        '/\t/evil.com',
+        'evil.com/users',
+      ];
+
+      targets.forEach((target) => expect(getSafeRedirect(target)).toBe('/dashboard'));
+    });
+
+    it('should not send the user back to a sign in page', () => {
+      expect(getSafeRedirect('/login?redirect=/users')).toBe('/dashboard');
+      expect(getSafeRedirect('/auth/callback?code=abc')).toBe('/dashboard');
+    });
+
+    it('should use the given fallback', () => {
+      expect(getSafeRedirect('//evil.com', '/settings')).toBe('/settings');
+    });
+  });
+
+  describe('getLoginPath - protected page redirect', () => {
+    it('should remember the full location', () => {
+      expect(getLoginPath({ pathname: '/users', search: '?search=john', hash: '#list' })).toBe(
+        '/login?redirect=%2Fusers%3Fsearch%3Djohn%23list'
+      );
+    });
+
+    it('should keep the logout reason', () => {
+      expect(getLoginPath({ pathname: '/merchants' }, 'idle')).toBe('/login?reason=idle&redirect=%2Fmerchants');
+    });
+
+    it('should leave out the default destination', () => {
+      expect(getLoginPath({ pathname: '/dashboard' })).toBe('/login');
+      expect(getLoginPath({ pathname: '/' }, 'unauthorized')).toBe('/login?reason=unauthorized');
+    });
+  });
+
+  describe('withRedirect - passing the target along', () => {
+    it('should append a safe target', () => {
+      expect(withRedirect('/two-factor', '/users?search=john')).toBe('/two-factor?redirect=%2Fusers%3Fsearch%3Djohn');
+      expect(withRedirect('/login?reason=two_factor_expired', '/users')).toBe(
+        '/login?reason=two_factor_expired&redirect=%2Fusers'
+      );
+    });
+
+    it('should drop missing or unsafe targets', () => {
+      expect(withRedirect('/two-factor', null)).toBe('/two-factor');
+      expect(withRedirect('/two-factor', 'https://evil.com')).toBe('/two-factor');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+// Where a signed in user lands when there is nowhere better to go
+export const DEFAULT_REDIRECT = '/dashboard';
+
+// Sign in pages never make sense as a destination after signing in
+const AUTH_PATHS = ['/login', '/two-factor', '/forgot-password', '/reset-password', '/accept-invite', '/auth/callback', '/mock-idp'];
+
+// Any base works - it only has to be something a relative path cannot escape
+const BASE_ORIGIN = 'http://app.invalid';
+
+const hasControlCharacters = (value: string) =>
+  Array.from(value).some((char) => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f);
+
+// The ?redirect= target if it is a path inside this app, otherwise the fallback.
+// Anything that could leave the app - "https://evil.com", "//evil.com",
+// "/\evil.com", "javascript:" - is an open redirect and gets rejected.
+export function getSafeRedirect(target: string | null | undefined, fallback = DEFAULT_REDIRECT): string {
+  if (!target || !target.startsWith('/') || target.startsWith('//') || target.startsWith('/\\')) return fallback;
+  // Browsers strip tabs and newlines from URLs, so "/\t/evil.com" would become "//evil.com"
+  if (hasControlCharacters(target)) return fallback;
+
+  let url: URL;
+  try {
+    url = new URL(target, BASE_ORIGIN);
+  } catch {
+    return fallback;
+  }
+
+  if (url.origin !== BASE_ORIGIN) return fallback;
+  if (AUTH_PATHS.some((path) => url.pathname === path || url.pathname.startsWith(`${path}/`))) return fallback;
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+// Login URL that comes back to `from` (path, query string and hash) afterwards
+export function getLoginPath(from: { pathname: string; search?: string; hash?: string }, reason?: string | null): string {
+  const params = new URLSearchParams();
+  if (reason) params.set('reason', reason);
+
+  const target = `${from.pathname}${from.search ?? ''}${from.hash ?? ''}`;
+  if (target !== '/' && target !== DEFAULT_REDIRECT) params.set('redirect', target);
+
+  const query = params.toString();
+  return query ? `/login?${query}` : '/login';
+}
+
+// The same ?redirect= on another sign in page, e.g. /two-factor
+export function withRedirect(path: string, redirect: string | null | undefined): string {
+  const target = getSafeRedirect(redirect, '');
+  if (!target) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}${new URLSearchParams({ redirect: target }).toString()}`;
+}
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Card, Button, Input, PasswordStrengthMeter } from '@/components/ui';
+import { FiArrowLeft, FiLock, FiAlertTriangle, FiUserCheck } from 'react-icons/fi';
+import { useAuth } from '@/contexts/AuthContext';
+import { authApi } from '@/api/auth';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { acceptInvitationSchema, type AcceptInvitationFormData } from '@/validations';
+import { normalizeApiError } from '@/api/errors';
+import { getRoleDisplayName } from '@/utils/helpers';
+
+export function AcceptInvitePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { acceptInvitation } = useAuth();
+  const token = searchParams.get('token') ?? '';
+
+  const [error, setError] = useState<string | null>(null);
+  // The backend rejected the token while accepting: expired or revoked meanwhile
+  const [isLinkInvalid, setIsLinkInvalid] = useState(false);
+
+  // Who the invitation is for - also tells us early when the link is dead
+  const invitationQuery = useApiQuery({
+    queryKey: ['invitation', token],
+    queryFn: (context) => authApi.getInvitation(token, { ...context, retry: false }),
+    enabled: !!token,
+  });
+  const invitation = invitationQuery.data?.data ?? null;
+  // 404: expired, revoked or already used. Anything else may work on a retry.
+  const isInvitationGone = invitationQuery.error?.kind === 'not_found';
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<AcceptInvitationFormData>({
+    resolver: zodResolver(acceptInvitationSchema),
+    defaultValues: {
+      token,
+      password: '',
+      password_confirmation: '',
+    },
+  });
+
+  const password = useWatch({ control, name: 'password' }) ?? '';
+
+  const onSubmit = async (data: AcceptInvitationFormData) => {
+    setError(null);
+    try {
+      await acceptInvitation(data);
+      navigate('/dashboard', { replace: true });
+    } catch (err: unknown) {
+      const apiError = normalizeApiError(err);
+      if (apiError.fieldErrors.token?.length) {
+        setIsLinkInvalid(true);
+        return;
+      }
+      setError(apiError.firstFieldErrors().password ?? apiError.message ?? 'Failed to accept the invitation.');
+    }
+  };
+
+  if (token && invitationQuery.isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  // Missing, expired, revoked or already used - only a new invitation helps
+  if (!token || isInvitationGone || isLinkInvalid) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 px-4 py-12">
+        <div className="w-full max-w-md">
+          <Card className="text-center">
+            <div className="mx-auto flex items-center justify-center w-12 h-12 bg-amber-100 dark:bg-amber-900/30 rounded-full mb-4">
+              <FiAlertTriangle className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+            </div>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">This invitation is no longer valid</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              Invitations expire after 7 days and work only once. Ask your administrator to send you a new one.
+            </p>
+            <div className="mt-6">
+              <Link
+                to="/login"
+                className="inline-flex items-center text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+              >
+                <FiArrowLeft className="w-4 h-4 mr-1" />
+                Back to login
+              </Link>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (invitationQuery.error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 px-4 py-12">
+        <div className="w-full max-w-md">
+          <Card className="text-center">
+            <p className="text-sm text-red-700 dark:text-red-400">{invitationQuery.error.message}</p>
+            <Button type="button" variant="outline" className="mt-4" onClick={() => void invitationQuery.refetch()}>
+              Try Again
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-indigo-600 rounded-xl mb-4">
+            <span className="text-white font-bold text-lg">AD</span>
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-white">AdminPanel</h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1">Set up your account</p>
+        </div>
+
+        <Card>
+          <div className="text-center mb-6">
+            <div className="mx-auto flex items-center justify-center w-12 h-12 bg-indigo-100 dark:bg-indigo-900/30 rounded-full mb-4">
+              <FiUserCheck className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+            </div>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Welcome, {invitation?.name}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              You have been invited to join{invitation ? ` as ${getRoleDisplayName(invitation.role)}` : ''}. Choose a
+              password to finish creating your account.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={(e) => void handleSubmit(onSubmit)(e)} className="space-y-5">
+            <Input label="Email" type="email" value={invitation?.email ?? ''} disabled readOnly />
+
+            {/* Hidden token field - from the invitation link */}
+            <input type="hidden" {...register('token')} />
+
+            <Input
+              label="Password"
+              type="password"
+              placeholder="Create a password"
+              autoComplete="new-password"
+              leftIcon={<FiLock className="w-4 h-4" />}
+              error={errors.password?.message}
+              {...register('password')}
+            />
+            {password && <PasswordStrengthMeter password={password} />}
+            <Input
+              label="Confirm Password"
+              type="password"
+              placeholder="Confirm your password"
+              autoComplete="new-password"
+              leftIcon={<FiLock className="w-4 h-4" />}
+              error={errors.password_confirmation?.message}
+              {...register('password_confirmation')}
+            />
+
+            <Button type="submit" className="w-full" size="lg" isLoading={isSubmitting}>
+              Create Account
+            </Button>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
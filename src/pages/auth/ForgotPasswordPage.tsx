@@ -1,68 +1,75 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useAuth } from '@/contexts/AuthContext';
 import { Input, Button, Card } from '@/components/ui';
-import { FiMail, FiArrowLeft, FiKey } from 'react-icons/fi';
+import { FiMail, FiArrowLeft, FiKey, FiInbox } from 'react-icons/fi';
 import { forgotPasswordSchema, type ForgotPasswordFormData } from '@/validations';
+import { normalizeApiError } from '@/api/errors';
+import { useCountdown } from '@/hooks/useCountdown';
+
+// Wait this long before another email can be requested
+const RESEND_COOLDOWN = 60; // seconds
 
 export function ForgotPasswordPage() {
-  const { forgotPassword, isLoading } = useAuth();
-  const navigate = useNavigate();
+  const { forgotPassword } = useAuth();
+  const [searchParams] = useSearchParams();
   const [error, setError] = useState<string | null>(null);
+  // Email the link was sent to - switches to the "check your inbox" step
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+  const cooldown = useCountdown();
 
   const {
     register,
     handleSubmit,
-    formState: { errors },
+    formState: { errors, isSubmitting },
   } = useForm<ForgotPasswordFormData>({
     resolver: zodResolver(forgotPasswordSchema),
     defaultValues: {
-      email: '',
+      // Prefilled when coming back from an expired reset link
+      email: searchParams.get('email') ?? '',
     },
   });
 
-  const onSubmit = async (formData: ForgotPasswordFormData) => {
+  // The response never says whether the email has an account, and neither do we
+  const sendResetLink = async (email: string): Promise<boolean> => {
     setError(null);
     try {
-      const response = await forgotPassword(formData.email);
-
-      // If response is null or doesn't contain reset_token, email is not registered
-      if (!response || !response.reset_token) {
-        setError('Email is not registered in the system');
-        return;
+      await forgotPassword(email);
+      cooldown.start(RESEND_COOLDOWN);
+      return true;
+    } catch (err: unknown) {
+      const apiError = normalizeApiError(err);
+      if (apiError.kind === 'rate_limited') {
+        cooldown.start(apiError.retryAfter ?? RESEND_COOLDOWN);
+        setError('Too many requests. Please wait a moment before trying again.');
+        return false;
       }
 
-      // Redirect to reset password page with token in URL
-      navigate(`/reset-password?email=${encodeURIComponent(formData.email)}&token=${encodeURIComponent(response.reset_token)}`);
-    } catch (err: unknown) {
       console.error('Forgot password error details:', err);
-      let errorMessage = 'Failed to send password reset instructions. Please try again.';
-      const axiosError = err as {
-        response?: {
-          data?: {
-            message?: string;
-            success?: boolean;
-          }
-        };
-        message?: string
-      };
+      setError(
+        apiError.firstFieldErrors().email ??
+          (apiError.kind === 'validation' ? apiError.message : 'Failed to send the reset email. Please try again.')
+      );
+      return false;
+    }
+  };
 
-      if (axiosError.response?.data) {
-        const responseData = axiosError.response.data;
-        if (typeof responseData === 'string') {
-          errorMessage = responseData;
-        } else if (typeof responseData === 'object' && responseData.message) {
-          errorMessage = responseData.message;
-        }
-      } else if (axiosError.message) {
-        errorMessage = axiosError.message;
-      }
-      setError(errorMessage);
+  const onSubmit = async (formData: ForgotPasswordFormData) => {
+    if (await sendResetLink(formData.email)) {
+      setSentTo(formData.email);
     }
   };
 
+  const handleResend = async () => {
+    if (!sentTo) return;
+    setIsResending(true);
+    await sendResetLink(sentTo);
+    setIsResending(false);
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 py-12 px-4 sm:px-6 lg:px-8 transition-colors duration-200">
       <div className="max-w-md w-full">
@@ -75,45 +82,92 @@ export function ForgotPasswordPage() {
         </div>
 
         <Card>
-          <div className="text-center mb-6">
-            <div className="mx-auto flex items-center justify-center w-12 h-12 bg-indigo-100 dark:bg-indigo-900/30 rounded-full mb-4">
-              <FiKey className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
-            </div>
-            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
-              Forgot your password?
-            </h2>
-            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-              Enter your email address and we will send you instructions to reset your password.
-            </p>
-          </div>
+          {sentTo ? (
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center w-12 h-12 bg-indigo-100 dark:bg-indigo-900/30 rounded-full mb-4">
+                <FiInbox className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+              </div>
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Check your inbox</h2>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                If an account exists for <span className="font-medium text-slate-700 dark:text-slate-200">{sentTo}</span>,
+                we have sent a link to reset your password. The link expires in 60 minutes.
+              </p>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-3">
+                Didn't get it? Check your spam folder, or send it again.
+              </p>
 
-          {error && (
-            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
-              <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
-            </div>
-          )}
+              {error && (
+                <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+                </div>
+              )}
 
-          <form onSubmit={(e) => void handleSubmit(onSubmit)(e)} className="space-y-5">
-            <div>
-              <Input
-                label="Email address"
-                type="email"
-                placeholder="admin@admin.com"
-                leftIcon={<FiMail className="w-4 h-4" />}
-                error={errors.email?.message}
-                {...register('email')}
-              />
+              <div className="mt-6 space-y-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => void handleResend()}
+                  isLoading={isResending}
+                  disabled={cooldown.isRunning}
+                >
+                  {cooldown.isRunning ? `Resend email in ${cooldown.secondsLeft}s` : 'Resend email'}
+                </Button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSentTo(null);
+                    setError(null);
+                  }}
+                  className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+                >
+                  Use a different email
+                </button>
+              </div>
             </div>
+          ) : (
+            <>
+              <div className="text-center mb-6">
+                <div className="mx-auto flex items-center justify-center w-12 h-12 bg-indigo-100 dark:bg-indigo-900/30 rounded-full mb-4">
+                  <FiKey className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+                </div>
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+                  Forgot your password?
+                </h2>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                  Enter your email address and we will send you a link to reset your password.
+                </p>
+              </div>
 
-            <Button
-              type="submit"
-              className="w-full"
-              size="lg"
-              isLoading={isLoading}
-            >
-              Send Reset Instructions
-            </Button>
-          </form>
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              <form onSubmit={(e) => void handleSubmit(onSubmit)(e)} className="space-y-5">
+                <div>
+                  <Input
+                    label="Email address"
+                    type="email"
+                    placeholder="admin@admin.com"
+                    leftIcon={<FiMail className="w-4 h-4" />}
+                    error={errors.email?.message}
+                    {...register('email')}
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  size="lg"
+                  isLoading={isSubmitting}
+                >
+                  Send Reset Link
+                </Button>
+              </form>
+            </>
+          )}
 
           <div className="mt-6 text-center">
             <Link
@@ -129,4 +183,3 @@ export function ForgotPasswordPage() {
     </div>
   );
 }
-
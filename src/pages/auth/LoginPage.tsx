@@ -3,8 +3,59 @@ import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useAuth } from '@/contexts/AuthContext';
-import { FiMail, FiLock, FiLogIn, FiAlertCircle, FiEye, FiEyeOff } from 'react-icons/fi';
+import { Button } from '@/components/ui';
+import { FiMail, FiLock, FiLogIn, FiAlertCircle, FiEye, FiEyeOff, FiClock, FiKey } from 'react-icons/fi';
 import { loginSchema, type LoginFormData } from '@/validations';
+import { normalizeApiError } from '@/api/errors';
+import { loginFailureSchema } from '@/api/schemas';
+import { isSsoEnabled, ssoConfig, startSsoLogin } from '@/api/sso';
+import { getSafeRedirect, withRedirect } from '@/lib/redirect';
+import { formatCountdown, getSecondsLeft, useCountdown } from '@/hooks/useCountdown';
+
+// Used when a 429 comes without Retry-After
+const DEFAULT_THROTTLE_WAIT = 60; // seconds
+
+// What to tell the user about a failed login, and how long sign in stays
+// blocked when the backend throttled the attempts or locked the account
+function describeLoginFailure(err: unknown): { message: string; waitSeconds: number | null } {
+  const error = normalizeApiError(err);
+  const details = loginFailureSchema.safeParse(error.data).data?.data;
+
+  switch (error.kind) {
+    case 'auth': {
+      const remaining = details?.attempts_remaining;
+      return {
+        message:
+          remaining === undefined
+            ? 'Invalid email or password'
+            : `Invalid email or password. ${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left before the account is locked.`,
+        waitSeconds: null,
+      };
+    }
+    case 'rate_limited':
+      return {
+        message: 'Too many login attempts.',
+        waitSeconds: error.retryAfter ?? DEFAULT_THROTTLE_WAIT,
+      };
+    case 'locked': {
+      const lockedUntil = details?.locked_until ? Date.parse(details.locked_until) : NaN;
+      const waitSeconds = error.retryAfter ?? (Number.isNaN(lockedUntil) ? null : getSecondsLeft(lockedUntil, Date.now()));
+      return {
+        // Without an end time only an administrator can lift the lock
+        message: waitSeconds
+          ? 'This account is locked after too many failed login attempts.'
+          : 'This account is locked after too many failed login attempts. Please contact an administrator.',
+        waitSeconds,
+      };
+    }
+    case 'validation':
+      return { message: 'Please check your input and try again', waitSeconds: null };
+    case 'server':
+      return { message: 'Server error. Please try again later', waitSeconds: null };
+    default:
+      return { message: error.message || 'Login failed. Please try again.', waitSeconds: null };
+  }
+}
 
 export function LoginPage() {
   const navigate = useNavigate();
@@ -12,6 +63,11 @@ export function LoginPage() {
   const { login, isAuthenticated, user } = useAuth();
   const [error, setError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  // Throttled or locked: why, and a countdown until the next attempt
+  const [lockoutMessage, setLockoutMessage] = useState<string | null>(null);
+  const lockout = useCountdown();
+  // On the way to the identity provider
+  const [isRedirectingToSso, setIsRedirectingToSso] = useState(false);
 
   // Ref for tracking login state
   const loginSuccessRef = useRef(false);
@@ -19,81 +75,81 @@ export function LoginPage() {
   // Only show session expired message after user has tried to access a protected page
   // (indicated by having auth_token but still being on login page)
   const reason = searchParams.get('reason');
+  // Set by ProtectedRoute - the page the user was on their way to
+  const redirect = searchParams.get('redirect');
   const redirectReason = reason === 'unauthorized'
     ? 'Your session has expired. Please log in again.'
+    : reason === 'idle'
+    ? 'You were signed out after a period of inactivity. Please log in again.'
+    : reason === 'two_factor_expired'
+    ? 'Your login attempt expired. Please log in again.'
     : null;
 
   const {
     register,
     handleSubmit,
+    getValues,
     formState: { errors, isSubmitting },
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
       email: '',
       password: '',
+      remember: false,
     },
   });
 
-  // Navigate to dashboard on successful login
+  // Navigate to the requested page (or the dashboard) on successful login
   useEffect(() => {
     if (isAuthenticated && user && loginSuccessRef.current) {
       loginSuccessRef.current = false;
-      navigate('/dashboard', { replace: true });
+      navigate(getSafeRedirect(redirect), { replace: true });
     }
-  }, [isAuthenticated, user, navigate]);
+  }, [isAuthenticated, user, navigate, redirect]);
 
-  const doLogin = useCallback(async (email: string, password: string) => {
+  const doLogin = useCallback(async (email: string, password: string, remember: boolean) => {
     loginSuccessRef.current = false;
 
     try {
-      await login(email, password);
+      const result = await login(email, password, remember);
+      if (result.status === 'two_factor_required') {
+        // The challenge only lives in history state - a reload starts over
+        navigate(withRedirect('/two-factor', redirect), { state: { challengeToken: result.challengeToken, remember } });
+        return { success: true };
+      }
       loginSuccessRef.current = true;
     } catch (err: unknown) {
       // Login failed - show error
-      let errorMsg = 'Login failed. Please try again.';
-
-      const error = err as {
-        message?: string;
-        response?: {
-          data?: { success?: boolean; message?: string; error?: string };
-          status?: number;
-        };
-      };
-
-      if (error.response?.data) {
-        const responseData = error.response.data;
-
-        if (typeof responseData === 'object' && responseData.message) {
-          errorMsg = responseData.message;
-        } else if (typeof responseData === 'object' && responseData.error) {
-          errorMsg = responseData.error;
-        }
-      } else if (error.message) {
-        errorMsg = error.message;
-      }
-
-      if (error.response?.status === 401) {
-        errorMsg = 'Invalid email or password';
-      } else if (error.response?.status === 422) {
-        errorMsg = 'Please check your input and try again';
-      } else if (error.response?.status === 500) {
-        errorMsg = 'Server error. Please try again later';
-      }
-
-      return { success: false, error: errorMsg };
+      const { message, waitSeconds } = describeLoginFailure(err);
+      return { success: false, error: message, waitSeconds };
     }
     return { success: true };
-  }, [login]);
+  }, [login, navigate, redirect]);
 
   const onSubmit = async (data: LoginFormData) => {
     setError(null);
-    const result = await doLogin(data.email, data.password);
-    if (result?.error) {
+    const result = await doLogin(data.email, data.password, data.remember ?? false);
+    if (!result.error) return;
+
+    if (result.waitSeconds) {
+      setLockoutMessage(result.error);
+      lockout.start(result.waitSeconds);
+    } else {
       setError(result.error);
     }
   };
 
+  const handleSsoLogin = async () => {
+    setError(null);
+    setIsRedirectingToSso(true);
+    try {
+      await startSsoLogin(getValues('remember') ?? false, getSafeRedirect(redirect));
+    } catch {
+      setError('Could not reach the identity provider. Please try again later.');
+      setIsRedirectingToSso(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 py-12 px-4 sm:px-6 lg:px-8 transition-colors duration-200">
 
@@ -117,6 +173,17 @@ export function LoginPage() {
             </div>
           )}
 
+          {/* Throttled or locked - gone once the countdown ends */}
+          {lockout.isRunning && lockoutMessage && (
+            <div role="alert" className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center">
+              <FiClock className="w-5 h-5 flex-shrink-0 text-red-500 mr-2" />
+              <p className="text-sm text-red-700 dark:text-red-300">
+                {lockoutMessage} You can try again in{' '}
+                <span className="font-medium tabular-nums">{formatCountdown(lockout.secondsLeft)}</span>.
+              </p>
+            </div>
+          )}
+
           {/* Error message */}
           {error && (
             <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center">
@@ -193,6 +260,7 @@ export function LoginPage() {
               <label className="flex items-center cursor-pointer">
                 <input
                   type="checkbox"
+                  {...register('remember')}
                   className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700"
                 />
                 <span className="ml-2 text-sm text-slate-600 dark:text-slate-400">Remember me</span>
@@ -207,7 +275,7 @@ export function LoginPage() {
 
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || lockout.isRunning}
               className="w-full py-2.5 px-4 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white font-medium rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-slate-900 focus:ring-indigo-500 disabled:opacity-70 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center"
             >
               {isSubmitting ? (
@@ -218,6 +286,11 @@ export function LoginPage() {
                   </svg>
                   Signing in...
                 </span>
+              ) : lockout.isRunning ? (
+                <span className="flex items-center">
+                  <FiClock className="w-4 h-4 mr-2" />
+                  Try again in {formatCountdown(lockout.secondsLeft)}
+                </span>
               ) : (
                 <span className="flex items-center">
                   <FiLogIn className="w-4 h-4 mr-2" />
@@ -227,6 +300,27 @@ export function LoginPage() {
             </button>
           </form>
 
+          {isSsoEnabled && (
+            <>
+              <div className="flex items-center my-6">
+                <div className="flex-1 border-t border-slate-200 dark:border-slate-700" />
+                <span className="px-3 text-xs uppercase text-slate-400">or</span>
+                <div className="flex-1 border-t border-slate-200 dark:border-slate-700" />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => void handleSsoLogin()}
+                isLoading={isRedirectingToSso}
+                disabled={isSubmitting}
+              >
+                <FiKey className="w-4 h-4 mr-2" />
+                Sign in with {ssoConfig.providerName}
+              </Button>
+            </>
+          )}
+
           <div className="mt-6 text-center">
             <p className="text-sm text-slate-500 dark:text-slate-400">
               Demo credentials:{' '}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { FiAlertTriangle, FiShield } from 'react-icons/fi';
+import { Card, Button, Input } from '@/components/ui';
+import { createAuthorizationCode, MOCK_OIDC_CLIENT_ID } from '@/api/mock/oidc';
+
+// Seeded accounts (see api/mock/db) - any other email gets a 403 from the backend
+const DEMO_ACCOUNTS = ['superadmin@example.com', 'admin@example.com', 'merchant@example.com'];
+
+// Login page of the mock identity provider, only routed while VITE_USE_MOCK_API
+// is on. Loaded lazily so it never ships otherwise.
+export function MockIdpPage() {
+  const [searchParams] = useSearchParams();
+  const [email, setEmail] = useState('');
+
+  const redirectUri = searchParams.get('redirect_uri') ?? '';
+  const state = searchParams.get('state') ?? '';
+  // Like a real provider, only send codes back to the registered app
+  const isValidRequest =
+    searchParams.get('response_type') === 'code' &&
+    searchParams.get('client_id') === MOCK_OIDC_CLIENT_ID &&
+    redirectUri === `${window.location.origin}/auth/callback` &&
+    searchParams.get('code_challenge_method') === 'S256' &&
+    !!searchParams.get('code_challenge') &&
+    !!state;
+
+  const returnToApp = (params: Record<string, string>) => {
+    window.location.assign(`${redirectUri}?${new URLSearchParams({ ...params, state }).toString()}`);
+  };
+
+  const signInAs = (account: string) => {
+    returnToApp({
+      code: createAuthorizationCode({
+        email: account,
+        client_id: MOCK_OIDC_CLIENT_ID,
+        redirect_uri: redirectUri,
+        code_challenge: searchParams.get('code_challenge') ?? '',
+        nonce: searchParams.get('nonce') ?? '',
+      }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100 dark:bg-slate-900 px-4 py-12">
+      <div className="w-full max-w-sm">
+        <Card>
+          {!isValidRequest ? (
+            <div className="text-center">
+              <FiAlertTriangle className="mx-auto w-8 h-8 text-amber-500 mb-3" />
+              <h1 className="text-lg font-semibold text-slate-900 dark:text-white">Invalid sign in request</h1>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                The authorization request is missing parameters or comes from an unknown app.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="text-center mb-6">
+                <FiShield className="mx-auto w-8 h-8 text-emerald-600 mb-3" />
+                <h1 className="text-lg font-semibold text-slate-900 dark:text-white">Mock Identity Provider</h1>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                  Choose who to sign in as. No password needed - this stands in for your company login.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                {DEMO_ACCOUNTS.map((account) => (
+                  <Button key={account} variant="outline" className="w-full" onClick={() => signInAs(account)}>
+                    {account}
+                  </Button>
+                ))}
+              </div>
+
+              <form
+                className="mt-6 pt-6 border-t border-slate-200 dark:border-slate-700 space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (email) signInAs(email);
+                }}
+              >
+                <Input
+                  label="Other email"
+                  type="email"
+                  placeholder="someone@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+                <Button type="submit" className="w-full" disabled={!email}>
+                  Continue
+                </Button>
+              </form>
+
+              <button
+                type="button"
+                onClick={() => returnToApp({ error: 'access_denied' })}
+                className="mt-4 w-full text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+              >
+                Cancel
+              </button>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
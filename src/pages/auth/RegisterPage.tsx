@@ -6,6 +6,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Input, Button, Card, Select } from '@/components/ui';
 import { FiMail, FiLock, FiUser, FiUserPlus, FiAlertCircle } from 'react-icons/fi';
 import { registerSchema, type RegisterFormData } from '@/validations';
+import { getErrorMessage } from '@/utils/helpers';
 
 export function RegisterPage() {
   const navigate = useNavigate();
@@ -39,33 +40,8 @@ export function RegisterPage() {
     try {
       await registerUser(data);
     } catch (err: unknown) {
-      // Debug: Log the full error to see the structure
       console.error('Register error details:', err);
-
-      // Extract error message from API response - handle different possible structures
-      let errorMessage = 'Registration failed. Please try again.';
-
-      const axiosError = err as {
-        response?: {
-          data?: {
-            message?: string;
-            success?: boolean;
-          }
-        };
-        message?: string
-      };
-
-      if (axiosError.response?.data) {
-        const responseData = axiosError.response.data;
-
-        if (typeof responseData === 'string') {
-          errorMessage = responseData;
-        } else if (typeof responseData === 'object' && responseData.message) {
-          errorMessage = responseData.message;
-        }
-      } else if (axiosError.message) {
-        errorMessage = axiosError.message;
-      }
+      const errorMessage = getErrorMessage(err, 'Registration failed. Please try again.');
 
       setError(errorMessage);
     }
@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate, useSearchParams } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Card, Button, Input } from '@/components/ui';
-import { FiArrowLeft, FiLock, FiEye, FiEyeOff } from 'react-icons/fi';
+import { Card, Button, Input, PasswordStrengthMeter } from '@/components/ui';
+import { FiArrowLeft, FiLock, FiEye, FiEyeOff, FiAlertTriangle } from 'react-icons/fi';
 import { useAuth } from '@/contexts/AuthContext';
 import { resetPasswordSchema, type ResetPasswordFormData } from '@/validations';
+import { normalizeApiError } from '@/api/errors';
 
 export function ResetPasswordPage() {
   const navigate = useNavigate();
@@ -17,6 +18,8 @@ export function ResetPasswordPage() {
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [isReady, setIsReady] = useState(false);
+  // The backend rejected the token: expired, already used or mistyped
+  const [isLinkInvalid, setIsLinkInvalid] = useState(false);
 
   // Load email and token from URL params
   useEffect(() => {
@@ -30,8 +33,8 @@ export function ResetPasswordPage() {
   const {
     register,
     handleSubmit,
-    watch,
     setValue,
+    control,
     formState: { errors },
   } = useForm<ResetPasswordFormData>({
     resolver: zodResolver(resetPasswordSchema),
@@ -52,7 +55,7 @@ export function ResetPasswordPage() {
     setIsReady(true);
   }, [searchParams, setValue]);
 
-  const password = watch('password', '');
+  const password = useWatch({ control, name: 'password' }) ?? '';
 
   const onSubmit = async (data: ResetPasswordFormData) => {
     setLoading(true);
@@ -79,33 +82,23 @@ export function ResetPasswordPage() {
     } catch (error: unknown) {
       console.error('Reset password error:', error);
 
-      // Extract error message
-      const axiosError = error as {
-        response?: {
-          data?: {
-            message?: string;
-            errors?: Record<string, string[]>;
-          }
-        };
-        message?: string
-      };
-
-      let errorMessage = 'Failed to reset password. Please check your token and try again.';
-
-      // Check for validation errors first
-      if (axiosError.response?.data?.errors) {
-        const errors = axiosError.response.data.errors;
-        const errorParts: string[] = [];
-        if (errors.email) errorParts.push(`Email: ${errors.email.join(', ')}`);
-        if (errors.token) errorParts.push(`Token: ${errors.token.join(', ')}`);
-        if (errors.password) errorParts.push(`Password: ${errors.password.join(', ')}`);
+      const apiError = normalizeApiError(error);
+      if (apiError.fieldErrors.token?.length) {
+        setIsLinkInvalid(true);
+        return;
+      }
+
+      let errorMessage = apiError.message || 'Failed to reset password. Please check your token and try again.';
+
+      // Prefer field-level validation errors when present
+      if (apiError.hasFieldErrors) {
+        const fieldLabels: Record<string, string> = { email: 'Email', password: 'Password' };
+        const errorParts = Object.entries(fieldLabels)
+          .filter(([field]) => apiError.fieldErrors[field]?.length)
+          .map(([field, label]) => `${label}: ${apiError.fieldErrors[field].join(', ')}`);
         if (errorParts.length > 0) {
           errorMessage = errorParts.join('. ');
         }
-      } else if (axiosError.response?.data?.message) {
-        errorMessage = axiosError.response.data.message;
-      } else if (axiosError.message) {
-        errorMessage = axiosError.message;
       }
 
       setMessage({ type: 'error', text: errorMessage });
@@ -114,6 +107,45 @@ export function ResetPasswordPage() {
     }
   };
 
+  // Without a usable token the form cannot work - offer a fresh link instead
+  if (!searchParams.get('token') || isLinkInvalid) {
+    const email = searchParams.get('email');
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 px-4 py-12">
+        <div className="w-full max-w-md">
+          <Card className="text-center">
+            <div className="mx-auto flex items-center justify-center w-12 h-12 bg-amber-100 dark:bg-amber-900/30 rounded-full mb-4">
+              <FiAlertTriangle className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+            </div>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+              {isLinkInvalid ? 'This reset link has expired' : 'Invalid reset link'}
+            </h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {isLinkInvalid
+                ? 'Reset links work only once and expire after 60 minutes. Request a new link to choose your password.'
+                : 'This link is incomplete. Open the link from your email again, or request a new one.'}
+            </p>
+            <Link
+              to={email ? `/forgot-password?email=${encodeURIComponent(email)}` : '/forgot-password'}
+              className="mt-6 inline-flex items-center justify-center w-full px-4 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-xl transition-colors"
+            >
+              Request a new link
+            </Link>
+            <div className="mt-6">
+              <Link
+                to="/login"
+                className="inline-flex items-center text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+              >
+                <FiArrowLeft className="w-4 h-4 mr-1" />
+                Back to login
+              </Link>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 px-4 py-12">
       <div className="w-full max-w-md space-y-8">
@@ -195,29 +227,7 @@ export function ResetPasswordPage() {
             </div>
 
             {/* Password Requirements */}
-            {password && (
-              <div className="text-sm space-y-1">
-                <p className="font-medium text-slate-700 dark:text-slate-300">Password requirements:</p>
-                <div className="space-y-1 text-slate-600 dark:text-slate-400">
-                  <div className={`flex items-center ${password.length >= 8 ? 'text-green-600' : 'text-red-600'}`}>
-                    <span className="mr-2">{password.length >= 8 ? '✓' : '✗'}</span>
-                    At least 8 characters
-                  </div>
-                  <div className={`flex items-center ${/[A-Z]/.test(password) ? 'text-green-600' : 'text-red-600'}`}>
-                    <span className="mr-2">{/[A-Z]/.test(password) ? '✓' : '✗'}</span>
-                    One uppercase letter
-                  </div>
-                  <div className={`flex items-center ${/[a-z]/.test(password) ? 'text-green-600' : 'text-red-600'}`}>
-                    <span className="mr-2">{/[a-z]/.test(password) ? '✓' : '✗'}</span>
-                    One lowercase letter
-                  </div>
-                  <div className={`flex items-center ${/\d/.test(password) ? 'text-green-600' : 'text-red-600'}`}>
-                    <span className="mr-2">{/\d/.test(password) ? '✓' : '✗'}</span>
-                    One number
-                  </div>
-                </div>
-              </div>
-            )}
+            {password && <PasswordStrengthMeter password={password} />}
 
             <Button
               type="submit"
@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { FiAlertTriangle, FiArrowLeft } from 'react-icons/fi';
+import { Card } from '@/components/ui';
+import { useAuth } from '@/contexts/AuthContext';
+import { completeSsoLogin, SsoError } from '@/api/sso';
+import { normalizeApiError } from '@/api/errors';
+
+// Why the backend turned the SSO login down
+function describeSsoFailure(err: unknown): string {
+  if (err instanceof SsoError) return err.message;
+
+  const error = normalizeApiError(err);
+  if (error.kind === 'forbidden') return error.message;
+  return error.firstFieldErrors().code ?? 'Single sign-on failed. Please try again.';
+}
+
+// Where the identity provider sends the user back with ?code=&state=
+export function SsoCallbackPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { loginWithSso } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  // The code works once - StrictMode's second effect run must not redeem it again
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    const finishLogin = async () => {
+      try {
+        const { payload, remember, redirectTo } = completeSsoLogin(searchParams);
+        await loginWithSso(payload, remember);
+        navigate(redirectTo, { replace: true });
+      } catch (err: unknown) {
+        setError(describeSsoFailure(err));
+      }
+    };
+
+    void finishLogin();
+  }, [searchParams, loginWithSso, navigate]);
+
+  if (!error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-slate-50 dark:bg-slate-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        <p className="text-sm text-slate-500 dark:text-slate-400">Signing you in...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 px-4 py-12">
+      <div className="w-full max-w-md">
+        <Card className="text-center">
+          <div className="mx-auto flex items-center justify-center w-12 h-12 bg-amber-100 dark:bg-amber-900/30 rounded-full mb-4">
+            <FiAlertTriangle className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+          </div>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Single sign-on failed</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{error}</p>
+          <div className="mt-6">
+            <Link
+              to="/login"
+              replace
+              className="inline-flex items-center text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+            >
+              <FiArrowLeft className="w-4 h-4 mr-1" />
+              Back to login
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Link, Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input, Button, Card } from '@/components/ui';
+import { FiArrowLeft, FiShield, FiAlertCircle } from 'react-icons/fi';
+import { twoFactorChallengeSchema, type TwoFactorChallengeFormData } from '@/validations';
+import { normalizeApiError } from '@/api/errors';
+import { withRedirect } from '@/lib/redirect';
+
+// Set by LoginPage when the password was right but a code is still needed
+interface TwoFactorLocationState {
+  challengeToken?: string;
+  remember?: boolean;
+}
+
+export function TwoFactorChallengePage() {
+  const { verifyTwoFactor } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  // Carried over from the login page so starting over keeps it
+  const redirect = searchParams.get('redirect');
+  const { challengeToken, remember = false } = (location.state ?? {}) as TwoFactorLocationState;
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    clearErrors,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<TwoFactorChallengeFormData>({
+    resolver: zodResolver(twoFactorChallengeSchema),
+    defaultValues: {
+      code: '',
+      useRecoveryCode: false,
+    },
+  });
+  const useRecoveryCode = useWatch({ control, name: 'useRecoveryCode' });
+
+  // Opened directly or after a reload - the challenge is gone
+  if (!challengeToken) {
+    return <Navigate to={withRedirect('/login', redirect)} replace />;
+  }
+
+  const toggleRecoveryCode = () => {
+    setValue('useRecoveryCode', !useRecoveryCode);
+    setValue('code', '');
+    clearErrors('code');
+    setError(null);
+  };
+
+  const onSubmit = async (formData: TwoFactorChallengeFormData) => {
+    setError(null);
+    try {
+      // AuthRoute sends the now signed in user on to ?redirect= or the dashboard
+      await verifyTwoFactor(
+        formData.useRecoveryCode
+          ? { challenge_token: challengeToken, recovery_code: formData.code }
+          : { challenge_token: challengeToken, code: formData.code.replace(/\s/g, '') },
+        remember
+      );
+    } catch (err: unknown) {
+      const apiError = normalizeApiError(err);
+      if (apiError.kind === 'auth') {
+        // The challenge expired - the password has to be entered again
+        navigate(withRedirect('/login?reason=two_factor_expired', redirect), { replace: true });
+        return;
+      }
+
+      const fieldErrors = apiError.firstFieldErrors();
+      setError(fieldErrors.code ?? fieldErrors.recovery_code ?? apiError.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 py-12 px-4 sm:px-6 lg:px-8 transition-colors duration-200">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-indigo-600 rounded-xl mb-4">
+            <span className="text-white font-bold text-lg">AD</span>
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-white">AdminPanel</h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1">Two-factor authentication</p>
+        </div>
+
+        <Card>
+          <div className="text-center mb-6">
+            <div className="mx-auto flex items-center justify-center w-12 h-12 bg-indigo-100 dark:bg-indigo-900/30 rounded-full mb-4">
+              <FiShield className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+            </div>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+              {useRecoveryCode ? 'Use a recovery code' : 'Enter your authentication code'}
+            </h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved when you enabled two-factor authentication.'
+                : 'Open your authenticator app and enter the 6-digit code for AdminPanel.'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center">
+              <FiAlertCircle className="w-5 h-5 text-red-500 mr-2 shrink-0" />
+              <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={(e) => void handleSubmit(onSubmit)(e)} className="space-y-5">
+            <Input
+              key={useRecoveryCode ? 'recovery' : 'code'}
+              id="code"
+              label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+              placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+              autoComplete="one-time-code"
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoFocus
+              error={errors.code?.message}
+              className={useRecoveryCode ? 'font-mono' : 'font-mono tracking-widest'}
+              {...register('code')}
+            />
+
+            <Button type="submit" className="w-full" size="lg" isLoading={isSubmitting}>
+              Verify
+            </Button>
+          </form>
+
+          <div className="mt-4 text-center">
+            <button
+              type="button"
+              onClick={toggleRecoveryCode}
+              className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+            >
+              {useRecoveryCode ? 'Use an authentication code instead' : 'Lost your device? Use a recovery code'}
+            </button>
+          </div>
+
+          <div className="mt-6 text-center">
+            <Link
+              to={withRedirect('/login', redirect)}
+              className="inline-flex items-center text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+            >
+              <FiArrowLeft className="w-4 h-4 mr-1" />
+              Back to login
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 export { LoginPage } from './LoginPage';
+export { TwoFactorChallengePage } from './TwoFactorChallengePage';
 export { RegisterPage } from './RegisterPage';
 export { ForgotPasswordPage } from './ForgotPasswordPage';
 export { ResetPasswordPage } from './ResetPasswordPage';
-
+export { AcceptInvitePage } from './AcceptInvitePage';
+export { SsoCallbackPage } from './SsoCallbackPage';
@@ -1,10 +1,11 @@
-import { useEffect, useState } from 'react';
-import { Card, CardHeader, Badge } from '@/components/ui';
+import { Link } from 'react-router-dom';
+import { Card, CardHeader, Badge, RetryNotice } from '@/components/ui';
+import { Can } from '@/components/Can';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePermission } from '@/hooks/usePermission';
 import { dashboardApi } from '@/api/dashboard';
-import { formatDate, getRoleDisplayName } from '@/utils/helpers';
-import type { DashboardData } from '@/types/models';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { formatDate, getRoleDisplayName, getErrorMessage } from '@/utils/helpers';
 import {
   FiUsers,
   FiShoppingBag,
@@ -16,30 +17,22 @@ import {
   FiMapPin,
   FiPhone,
   FiCalendar,
+  FiArrowRight,
 } from 'react-icons/fi';
+import type { Permission } from '@/types/models';
 
 export function DashboardPage() {
   const { user } = useAuth();
   const { isSuperAdmin, isAdmin, isMerchant } = usePermission();
-  const [data, setData] = useState<DashboardData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchDashboard = async () => {
-      try {
-        const response = await dashboardApi.getDashboard();
-        setData(response.data);
-      } catch (err) {
-        console.error('Dashboard fetch error:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load dashboard');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchDashboard();
-  }, []);
+  const { data: response, error: queryError, isLoading, retryCount } = useApiQuery({
+    queryKey: ['dashboard'],
+    queryFn: (context) => dashboardApi.getDashboard(context),
+    forbiddenPage: true,
+    tags: ['dashboard'],
+  });
+  const data = response?.data ?? null;
+  // Keep showing cached data if only a background refresh failed
+  const error = queryError && !data ? getErrorMessage(queryError, 'Failed to load dashboard') : null;
 
   if (isLoading) {
     return (
@@ -47,6 +40,7 @@ export function DashboardPage() {
         <div className="flex flex-col items-center space-y-3">
           <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
           <p className="text-sm text-slate-500 dark:text-slate-400">Loading dashboard...</p>
+          <RetryNotice retryCount={retryCount} />
         </div>
       </div>
     );
@@ -70,6 +64,9 @@ export function DashboardPage() {
 
   return (
     <div className="space-y-6 animate-fade-in">
+      {/* Background refresh is retrying a failed request */}
+      <RetryNotice retryCount={retryCount} />
+
       {/* Welcome Section */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div className="page-header">
@@ -294,6 +291,7 @@ export function DashboardPage() {
             <CardHeader
               title="Recent Users"
               subtitle="Latest registered users"
+              action={<ViewAllLink to="/users" permission="canViewUsers" />}
             />
             <div className="space-y-3">
               {data.recent_users?.slice(0, 5).map((userItem) => (
@@ -345,6 +343,7 @@ export function DashboardPage() {
             <CardHeader
               title="Recent Merchants"
               subtitle="Latest registered merchants"
+              action={<ViewAllLink to="/merchants" permission="canViewAllMerchants" />}
             />
             <div className="space-y-3">
               {data.recent_merchants?.slice(0, 5).map((merchant) => (
@@ -390,6 +389,7 @@ export function DashboardPage() {
           <CardHeader
             title="Recent Merchants"
             subtitle="Latest registered merchants"
+            action={<ViewAllLink to="/merchants" permission="canViewAllMerchants" />}
           />
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
@@ -483,3 +483,23 @@ function StatCard({ title, value, icon, color, iconBg }: StatCardProps) {
   );
 }
 
+
+// Card header link to the full list, for users who may open it
+interface ViewAllLinkProps {
+  to: string;
+  permission: Permission;
+}
+
+function ViewAllLink({ to, permission }: ViewAllLinkProps) {
+  return (
+    <Can permission={permission}>
+      <Link
+        to={to}
+        className="inline-flex items-center text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300"
+      >
+        View all
+        <FiArrowRight className="w-4 h-4 ml-1" />
+      </Link>
+    </Can>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Card, Button } from '@/components/ui';
+import { accessRequestsApi } from '@/api/accessRequests';
+import { useApiMutation } from '@/hooks/useApiMutation';
+import { useCurrentRoute } from '@/hooks/useCurrentRoute';
+import { getErrorMessage } from '@/utils/helpers';
+import type { Permission } from '@/types/models';
+import { FiArrowLeft, FiCheckCircle, FiLock, FiSend } from 'react-icons/fi';
+
+interface ForbiddenPageProps {
+  // What the page needs, sent along with the access request
+  permission?: Permission;
+  // The backend's reason when it refused to load the page's data
+  message?: string;
+}
+
+// Shown in place of a page the user may not open, inside the app layout so
+// they can still navigate away
+export function ForbiddenPage({ permission, message }: ForbiddenPageProps) {
+  const location = useLocation();
+  const currentRoute = useCurrentRoute();
+  const requestAccess = useApiMutation(accessRequestsApi.createAccessRequest);
+  const [requested, setRequested] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRequestAccess = async () => {
+    try {
+      await requestAccess.mutate({
+        path: location.pathname,
+        permission: permission ?? currentRoute?.permission,
+      });
+      setRequested(true);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to request access'));
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center py-12 animate-fade-in">
+      <Card className="w-full max-w-md text-center">
+        <div className="mx-auto flex items-center justify-center w-12 h-12 bg-amber-100 dark:bg-amber-900/30 rounded-full mb-4">
+          <FiLock className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+        </div>
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+          You don&apos;t have access to {currentRoute?.title ?? 'this page'}
+        </h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+          {message ?? "Your role doesn't include the permission this page needs."}
+        </p>
+
+        {error && (
+          <div className="mt-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+            <p className="text-red-700 dark:text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-col items-center gap-4">
+          {requested ? (
+            <p className="inline-flex items-center text-sm text-green-700 dark:text-green-300">
+              <FiCheckCircle className="w-4 h-4 mr-2" />
+              Request sent. An administrator will review it.
+            </p>
+          ) : (
+            <Button onClick={() => void handleRequestAccess()} isLoading={requestAccess.isPending}>
+              <FiSend className="w-4 h-4 mr-2" />
+              Request access
+            </Button>
+          )}
+          <Link
+            to="/dashboard"
+            className="inline-flex items-center text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+          >
+            <FiArrowLeft className="w-4 h-4 mr-1" />
+            Back to dashboard
+          </Link>
+        </div>
+      </Card>
+    </div>
+  );
+}
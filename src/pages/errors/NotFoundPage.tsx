@@ -0,0 +1,32 @@
+import { Link, useLocation } from 'react-router-dom';
+import { Card } from '@/components/ui';
+import { FiArrowLeft, FiCompass } from 'react-icons/fi';
+
+// Any path inside the app that no page is registered for
+export function NotFoundPage() {
+  const location = useLocation();
+
+  return (
+    <div className="flex items-center justify-center py-12 animate-fade-in">
+      <Card className="w-full max-w-md text-center">
+        <div className="mx-auto flex items-center justify-center w-12 h-12 bg-slate-100 dark:bg-slate-700 rounded-full mb-4">
+          <FiCompass className="w-6 h-6 text-slate-500 dark:text-slate-400" />
+        </div>
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Page not found</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+          There is no page at <span className="font-mono break-all">{location.pathname}</span>. Check the address or
+          follow a link from the menu.
+        </p>
+        <div className="mt-6">
+          <Link
+            to="/dashboard"
+            className="inline-flex items-center text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+          >
+            <FiArrowLeft className="w-4 h-4 mr-1" />
+            Back to dashboard
+          </Link>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,4 @@
 export { DashboardPage } from './dashboard/DashboardPage';
-export { UsersPage } from './users/UsersPage';
-export { MerchantsPage } from './merchants/MerchantsPage';
 export { SettingsPage } from './settings/SettingsPage';
 
 
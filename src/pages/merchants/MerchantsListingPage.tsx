@@ -1,11 +1,13 @@
 import { useEffect, useState } from 'react';
-import { Card, Button, Badge, Input, SearchableSelect, Select } from '@/components/ui';
+import { Card, Button, Badge, Input, SearchableSelect, Select, RetryNotice } from '@/components/ui';
 import { merchantsApi } from '@/api/merchants';
 import { usersApi } from '@/api/users';
-import { formatDate } from '@/utils/helpers';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { useApiMutation } from '@/hooks/useApiMutation';
+import { formatDate, getErrorMessage } from '@/utils/helpers';
 import type { MerchantWithUser, User } from '@/types/models';
 import { FiPlus, FiSearch, FiEdit2, FiTrash2, FiShoppingBag, FiMapPin, FiMail, FiUser } from 'react-icons/fi';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 
 interface MerchantFilters {
   search: string;
@@ -15,23 +17,13 @@ interface MerchantFilters {
 }
 
 export function MerchantsListingPage() {
-  const [merchants, setMerchants] = useState<MerchantWithUser[]>([]);
-  const [users, setUsers] = useState<User[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isUsersLoading, setIsUsersLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [meta, setMeta] = useState<{
-    current_page: number;
-    last_page: number;
-    per_page: number;
-    total: number;
-  } | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [editingMerchant, setEditingMerchant] = useState<MerchantWithUser | null>(null);
   const [deletingMerchant, setDeletingMerchant] = useState<MerchantWithUser | null>(null);
 
-  const { register, reset, watch } = useForm<MerchantFilters>({
+  const { register, reset, control } = useForm<MerchantFilters>({
     defaultValues: {
       search: '',
       per_page: 10,
@@ -40,59 +32,60 @@ export function MerchantsListingPage() {
     },
   });
 
-  const filters = watch();
-
-  const fetchMerchants = async (page = 1) => {
-    setIsLoading(true);
-    try {
-      const response = await merchantsApi.getMerchants({
-        ...filters,
-        page,
-      });
-      setMerchants(response.data || []);
-      if (response.meta) {
-        setMeta(response.meta);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load merchants');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const fetchUsers = async () => {
-    setIsUsersLoading(true);
-    try {
-      // Use the new endpoint that both Admin and Super Admin can access
-      const response = await usersApi.getMerchantUsers();
-      setUsers(response.data || []);
-    } catch (err) {
-      console.error('Failed to load users:', err);
-    } finally {
-      setIsUsersLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchMerchants();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filters.per_page, filters.sort_by, filters.sort_order]);
+  const [searchInput, perPage, sortBy, sortOrder] = useWatch({
+    control,
+    name: ['search', 'per_page', 'sort_by', 'sort_order'],
+  });
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
 
+  // Debounce search input before it becomes part of the query key
   useEffect(() => {
     const timer = setTimeout(() => {
-      fetchMerchants(1);
+      setSearch(searchInput);
+      setPage(1);
     }, 300);
     return () => clearTimeout(timer);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filters.search]);
+  }, [searchInput]);
+
+  const params = {
+    search,
+    per_page: Number(perPage),
+    sort_by: sortBy,
+    sort_order: sortOrder,
+    page,
+  };
+
+  const merchantsQuery = useApiQuery({
+    queryKey: ['merchants', params],
+    queryFn: (context) => merchantsApi.getMerchants(params, context),
+    forbiddenPage: true,
+    tags: ['merchants'],
+  });
+  const merchants = merchantsQuery.data?.data ?? [];
+  const meta = merchantsQuery.data?.meta ?? null;
+  const isLoading = merchantsQuery.isLoading;
+  const listError = merchantsQuery.error ? getErrorMessage(merchantsQuery.error, 'Failed to load merchants') : null;
+
+  const deleteMerchant = useApiMutation(merchantsApi.deleteMerchant);
+
+  // Owner candidates are only needed while the create modal is open
+  const ownersQuery = useApiQuery({
+    queryKey: ['merchant-owners'],
+    queryFn: (context) => usersApi.getMerchantUsers(context),
+    tags: ['users', 'merchants'],
+    enabled: showModal && !editingMerchant,
+  });
+  const users = ownersQuery.data?.data ?? [];
+  const isUsersLoading = ownersQuery.isLoading;
 
   const handleSearch = () => {
-    fetchMerchants(1);
+    setSearch(searchInput);
+    setPage(1);
   };
 
   const handleCreate = () => {
     setEditingMerchant(null);
-    fetchUsers();
     setShowModal(true);
   };
 
@@ -108,14 +101,13 @@ export function MerchantsListingPage() {
   const confirmDelete = async () => {
     if (!deletingMerchant) return;
     try {
-      await merchantsApi.deleteMerchant(deletingMerchant.id.toString());
+      await deleteMerchant.mutate(deletingMerchant.id.toString());
       setSuccess('Merchant deleted successfully');
       setError(null);
       setDeletingMerchant(null);
-      fetchMerchants();
       setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete merchant');
+      setError(getErrorMessage(err, 'Failed to delete merchant'));
       setSuccess(null);
     }
   };
@@ -137,10 +129,9 @@ export function MerchantsListingPage() {
       setShowModal(false);
       setError(null);
       reset();
-      fetchMerchants();
       setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save merchant');
+      setError(getErrorMessage(err, 'Failed to save merchant'));
       setSuccess(null);
     }
   };
@@ -152,7 +143,12 @@ export function MerchantsListingPage() {
           <h1 className="text-2xl font-bold text-slate-900">Merchants Management</h1>
           <p className="text-slate-500 mt-1">Manage merchant profiles</p>
         </div>
-        <Button onClick={handleCreate} className="btn-transition">
+        <Button
+          onClick={handleCreate}
+          className="btn-transition"
+          permission="canCreateMerchants"
+          deniedReason="You don't have permission to add merchants"
+        >
           <FiPlus className="w-4 h-4 mr-2" />
           Add Merchant
         </Button>
@@ -177,7 +173,7 @@ export function MerchantsListingPage() {
                   { value: '25', label: '25/page' },
                   { value: '50', label: '50/page' },
                 ]}
-                {...register('per_page', { onChange: () => fetchMerchants(1) })}
+                {...register('per_page', { onChange: () => setPage(1) })}
               />
             </div>
             <div className="min-w-0">
@@ -186,7 +182,7 @@ export function MerchantsListingPage() {
                   { value: 'asc', label: 'Oldest' },
                   { value: 'desc', label: 'Newest' },
                 ]}
-                {...register('sort_order', { onChange: () => fetchMerchants(1) })}
+                {...register('sort_order', { onChange: () => setPage(1) })}
               />
             </div>
           </div>
@@ -199,9 +195,11 @@ export function MerchantsListingPage() {
         </div>
       )}
 
-      {error && (
+      <RetryNotice retryCount={merchantsQuery.retryCount} />
+
+      {(error || listError) && (
         <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl p-4">
-          <p className="text-red-700 dark:text-red-300">{error}</p>
+          <p className="text-red-700 dark:text-red-300">{error || listError}</p>
         </div>
       )}
 
@@ -271,20 +269,30 @@ export function MerchantsListingPage() {
                 </div>
 
                 <div className="mt-3 pt-3 border-t border-slate-100 dark:border-slate-700 flex justify-end space-x-1 sm:space-x-2">
-                  <button
+                  <Button
+                    permission="canUpdateMerchants"
+                    deniedReason="You don't have permission to edit merchants"
+                    variant="ghost"
+                    size="icon"
                     onClick={() => handleEdit(merchant)}
                     className="p-1.5 sm:p-2 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
                     title="Edit"
+                    aria-label="Edit"
                   >
                     <FiEdit2 className="w-4 h-4" />
-                  </button>
-                  <button
+                  </Button>
+                  <Button
+                    permission="canDeleteMerchants"
+                    deniedReason="You don't have permission to delete merchants"
+                    variant="ghost"
+                    size="icon"
                     onClick={() => handleDelete(merchant)}
                     className="p-1.5 sm:p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
                     title="Delete"
+                    aria-label="Delete"
                   >
                     <FiTrash2 className="w-4 h-4" />
-                  </button>
+                  </Button>
                 </div>
               </div>
             ))}
@@ -304,7 +312,7 @@ export function MerchantsListingPage() {
                 size="sm"
                 className="flex-1 sm:flex-none"
                 disabled={meta.current_page === 1}
-                onClick={() => fetchMerchants(meta.current_page - 1)}
+                onClick={() => setPage(meta.current_page - 1)}
               >
                 Prev
               </Button>
@@ -313,7 +321,7 @@ export function MerchantsListingPage() {
                 size="sm"
                 className="flex-1 sm:flex-none"
                 disabled={meta.current_page === meta.last_page}
-                onClick={() => fetchMerchants(meta.current_page + 1)}
+                onClick={() => setPage(meta.current_page + 1)}
               >
                 Next
               </Button>
@@ -353,7 +361,7 @@ export function MerchantsListingPage() {
               <Button variant="secondary" onClick={() => setDeletingMerchant(null)}>
                 Cancel
               </Button>
-              <Button variant="danger" onClick={confirmDelete}>
+              <Button variant="danger" onClick={confirmDelete} isLoading={deleteMerchant.isPending}>
                 Delete
               </Button>
             </div>
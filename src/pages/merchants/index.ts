@@ -1,3 +1,2 @@
-export { MerchantsPage } from './MerchantsPage';
 export { MerchantsListingPage } from './MerchantsListingPage';
 
@@ -0,0 +1,408 @@
+import { Fragment, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Card, Button, Badge, Input, RetryNotice } from '@/components/ui';
+import { rolesApi } from '@/api/roles';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { useApiMutation } from '@/hooks/useApiMutation';
+import { getErrorMessage } from '@/utils/helpers';
+import { normalizeApiError } from '@/api/errors';
+import type { Permission, PermissionDefinition, Role } from '@/types/models';
+import { FiPlus, FiEdit2, FiTrash2, FiShield } from 'react-icons/fi';
+import { roleFormSchema, type RoleFormData } from '@/validations';
+
+// Permission changes waiting to be saved, by role id
+type PermissionDraft = Record<number, Permission[]>;
+
+const samePermissions = (a: Permission[], b: Permission[]) =>
+  a.length === b.length && a.every((permission) => b.includes(permission));
+
+// Permission definitions in their groups, keeping the backend's order
+const groupPermissions = (definitions: PermissionDefinition[]) =>
+  definitions.reduce<{ group: string; permissions: PermissionDefinition[] }[]>((groups, definition) => {
+    const existing = groups.find((item) => item.group === definition.group);
+    if (existing) {
+      existing.permissions.push(definition);
+    } else {
+      groups.push({ group: definition.group, permissions: [definition] });
+    }
+    return groups;
+  }, []);
+
+export function RolesPage() {
+  const { user, reloadPermissions } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PermissionDraft>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [deletingRole, setDeletingRole] = useState<Role | null>(null);
+
+  const rolesQuery = useApiQuery({
+    queryKey: ['roles'],
+    queryFn: (context) => rolesApi.getRoles(context),
+    forbiddenPage: true,
+    tags: ['roles'],
+  });
+  const permissionsQuery = useApiQuery({
+    queryKey: ['permissions'],
+    queryFn: (context) => rolesApi.getPermissions(context),
+    forbiddenPage: true,
+  });
+  const deleteRole = useApiMutation(rolesApi.deleteRole);
+
+  const roles = rolesQuery.data?.data ?? [];
+  const groups = groupPermissions(permissionsQuery.data?.data ?? []);
+  const isLoading = rolesQuery.isLoading || permissionsQuery.isLoading;
+  const loadError = rolesQuery.error || permissionsQuery.error;
+  const listError = loadError ? getErrorMessage(loadError, 'Failed to load roles') : null;
+
+  const permissionsOf = (role: Role) => draft[role.id] ?? role.permissions;
+  const changedRoles = roles.filter((role) => draft[role.id] && !samePermissions(draft[role.id], role.permissions));
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setError(null);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const togglePermission = (role: Role, permission: Permission) => {
+    const current = permissionsOf(role);
+    setDraft({
+      ...draft,
+      [role.id]: current.includes(permission)
+        ? current.filter((item) => item !== permission)
+        : [...current, permission],
+    });
+  };
+
+  // Saves every changed role. On a partial failure the draft stays, and roles
+  // that did save drop out of it once the list reloads.
+  const saveChanges = async () => {
+    setIsSaving(true);
+    try {
+      await Promise.all(
+        changedRoles.map((role) => rolesApi.updateRole(role.id.toString(), { permissions: draft[role.id] }))
+      );
+      setDraft({});
+      showSuccess('Permissions saved successfully');
+      // Pick up our own new permissions straight away
+      if (user && changedRoles.some((role) => role.name === user.role)) {
+        reloadPermissions();
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save permissions'));
+      setSuccess(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaved = (message: string) => {
+    setShowModal(false);
+    setEditingRole(null);
+    showSuccess(message);
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingRole) return;
+
+    try {
+      await deleteRole.mutate(deletingRole.id.toString());
+      showSuccess('Role deleted successfully');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete role'));
+      setSuccess(null);
+    } finally {
+      setDeletingRole(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="page-header">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-slate-900 dark:text-white">Roles</h1>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Decide what each role may do</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => {
+              setEditingRole(null);
+              setShowModal(true);
+            }}
+            className="w-full sm:w-auto"
+          >
+            <FiPlus className="w-4 h-4 mr-2" />
+            New Role
+          </Button>
+        </div>
+      </div>
+
+      {/* Success Message */}
+      {success && (
+        <div className="bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-xl p-4">
+          <p className="text-green-700 dark:text-green-300">{success}</p>
+        </div>
+      )}
+
+      {/* Retrying a failed load */}
+      <RetryNotice retryCount={Math.max(rolesQuery.retryCount, permissionsQuery.retryCount)} />
+
+      {/* Error Message */}
+      {(error || listError) && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl p-4">
+          <p className="text-red-700 dark:text-red-300">{error || listError}</p>
+        </div>
+      )}
+
+      {/* Permission matrix */}
+      <Card padding="none" className="overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : roles.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-slate-500 dark:text-slate-400">
+            <FiShield className="w-12 h-12 mb-3 text-slate-300 dark:text-slate-600" />
+            <p>No roles found</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+              <thead className="bg-slate-50 dark:bg-slate-800/50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Permission
+                  </th>
+                  {roles.map((role) => (
+                    <th key={role.id} className="px-4 py-3 text-center align-top">
+                      <div className="flex flex-col items-center gap-1">
+                        <span className="text-sm font-medium text-slate-900 dark:text-white whitespace-nowrap">
+                          {role.display_name}
+                        </span>
+                        <span className="text-xs font-normal text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                          {role.users_count} {role.users_count === 1 ? 'user' : 'users'}
+                        </span>
+                        {role.is_system ? (
+                          <Badge size="sm">System</Badge>
+                        ) : (
+                          <div className="flex items-center">
+                            <button
+                              onClick={() => {
+                                setEditingRole(role);
+                                setShowModal(true);
+                              }}
+                              className="p-1.5 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
+                              title="Edit role"
+                            >
+                              <FiEdit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setDeletingRole(role)}
+                              className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                              title="Delete role"
+                            >
+                              <FiTrash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-slate-800 divide-y divide-slate-200 dark:divide-slate-700">
+                {groups.map(({ group, permissions }) => (
+                  <Fragment key={group}>
+                    <tr className="bg-slate-50/50 dark:bg-slate-800/30">
+                      <td
+                        colSpan={roles.length + 1}
+                        className="px-6 py-2 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider"
+                      >
+                        {group}
+                      </td>
+                    </tr>
+                    {permissions.map((permission) => (
+                      <tr key={permission.name} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-slate-700 dark:text-slate-300">
+                          {permission.label}
+                        </td>
+                        {roles.map((role) => {
+                          // Super admin always has everything, so it cannot lock everyone out
+                          const isLocked = role.name === 'super_admin';
+                          return (
+                            <td key={role.id} className="px-4 py-3 text-center">
+                              <input
+                                type="checkbox"
+                                aria-label={`${role.display_name}: ${permission.label}`}
+                                checked={isLocked || permissionsOf(role).includes(permission.name)}
+                                disabled={isLocked || isSaving}
+                                onChange={() => togglePermission(role, permission.name)}
+                                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 disabled:opacity-50"
+                              />
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Unsaved changes */}
+        {changedRoles.length > 0 && (
+          <div className="px-4 py-3 border-t border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row items-center justify-between gap-3">
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Unsaved changes to {changedRoles.map((role) => role.display_name).join(', ')}
+            </p>
+            <div className="flex w-full sm:w-auto gap-2">
+              <Button variant="secondary" size="sm" className="flex-1 sm:flex-none" onClick={() => setDraft({})} disabled={isSaving}>
+                Discard
+              </Button>
+              <Button size="sm" className="flex-1 sm:flex-none" onClick={() => void saveChanges()} isLoading={isSaving}>
+                Save changes
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {/* Create/Edit Modal */}
+      {showModal && (
+        <RoleModal
+          role={editingRole}
+          onClose={() => {
+            setShowModal(false);
+            setEditingRole(null);
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deletingRole && (
+        <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-md w-full mx-4 animate-slide-up">
+            <div className="flex items-center space-x-3 mb-4">
+              <div className="p-2 bg-red-100 dark:bg-red-900/50 rounded-xl">
+                <FiTrash2 className="w-5 h-5 text-red-600 dark:text-red-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Delete Role</h3>
+            </div>
+            {deletingRole.users_count > 0 && (
+              <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+                <p className="text-yellow-800 dark:text-yellow-300 text-sm">
+                  <strong>Warning:</strong> {deletingRole.users_count} {deletingRole.users_count === 1 ? 'user has' : 'users have'} this
+                  role. Assign them another role before deleting it.
+                </p>
+              </div>
+            )}
+            <p className="text-slate-500 dark:text-slate-400 mb-6">
+              Are you sure you want to delete <span className="font-medium text-slate-900 dark:text-white">{deletingRole.display_name}</span>?
+              This action cannot be undone.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button variant="secondary" onClick={() => setDeletingRole(null)}>
+                Cancel
+              </Button>
+              <Button variant="danger" onClick={confirmDelete} isLoading={deleteRole.isPending}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Role Modal Component - permissions are edited in the matrix, not here
+interface RoleModalProps {
+  role: Role | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+function RoleModal({ role, onClose, onSaved }: RoleModalProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const { register, handleSubmit, formState: { errors: formErrors, isSubmitting } } = useForm<RoleFormData>({
+    resolver: zodResolver(roleFormSchema),
+    defaultValues: {
+      name: role?.name ?? '',
+      display_name: role?.display_name ?? '',
+      description: role?.description ?? '',
+    },
+  });
+
+  const onSubmit = async (data: RoleFormData) => {
+    try {
+      if (role) {
+        await rolesApi.updateRole(role.id.toString(), {
+          display_name: data.display_name,
+          description: data.description,
+        });
+        onSaved('Role updated successfully');
+      } else {
+        await rolesApi.createRole({ ...data, permissions: [] });
+        onSaved(`${data.display_name} created. Tick its permissions in the matrix.`);
+      }
+    } catch (err: unknown) {
+      const apiError = normalizeApiError(err);
+      setErrors(apiError.hasFieldErrors ? apiError.firstFieldErrors() : { _general: apiError.message });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 dark:bg-slate-900/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto animate-slide-up">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
+            {role ? 'Edit Role' : 'Create Role'}
+          </h3>
+        </div>
+        <form onSubmit={(e) => void handleSubmit(onSubmit)(e)} className="p-6 space-y-4">
+          {errors._general && (
+            <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+              <p className="text-red-700 dark:text-red-300 text-sm">{errors._general}</p>
+            </div>
+          )}
+
+          <Input
+            label="Display Name"
+            error={formErrors.display_name?.message || errors.display_name}
+            {...register('display_name')}
+            className="input-focus"
+          />
+          <Input
+            label="Name"
+            helperText={role ? 'Users reference the role by this name, so it cannot change' : 'For example finance_viewer'}
+            readOnly={!!role}
+            error={formErrors.name?.message || errors.name}
+            {...register('name')}
+            className="input-focus"
+          />
+          <Input
+            label="Description (optional)"
+            error={formErrors.description?.message || errors.description}
+            {...register('description')}
+            className="input-focus"
+          />
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={isSubmitting}>{role ? 'Update' : 'Create'}</Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Card, CardHeader, Button, Badge, RetryNotice } from '@/components/ui';
+import { FiLogOut, FiMonitor, FiSmartphone, FiTablet } from 'react-icons/fi';
+import settingsApi from '@/api/settings';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { useApiMutation } from '@/hooks/useApiMutation';
+import { formatDateTime, getErrorMessage } from '@/utils/helpers';
+import type { SessionDeviceType, UserSession } from '@/types/models';
+
+interface SessionsSettingsProps {
+  onMessage: (type: 'success' | 'error', text: string) => void;
+}
+
+const deviceIcons: Record<SessionDeviceType, typeof FiMonitor> = {
+  desktop: FiMonitor,
+  mobile: FiSmartphone,
+  tablet: FiTablet,
+};
+
+// Sessions tab: every device signed in to this account, with sign out for
+// one of them or all of the others
+export function SessionsSettings({ onMessage }: SessionsSettingsProps) {
+  const sessionsQuery = useApiQuery({
+    queryKey: ['sessions'],
+    queryFn: (context) => settingsApi.sessions.list(context),
+    tags: ['sessions'],
+  });
+  const sessions = sessionsQuery.data?.data ?? [];
+  const hasOtherSessions = sessions.some((session) => !session.is_current);
+
+  const revokeSession = useApiMutation(settingsApi.sessions.revoke);
+  const revokeOthers = useApiMutation(settingsApi.sessions.revokeOthers);
+  // Row whose sign out is in flight
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevokingId(session.id);
+    try {
+      await revokeSession.mutate(session.id);
+      onMessage('success', `Signed out ${session.browser} on ${session.platform}`);
+    } catch (error: unknown) {
+      onMessage('error', getErrorMessage(error, 'Failed to sign out the session'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      await revokeOthers.mutate(undefined);
+      onMessage('success', 'Signed out of all other sessions');
+    } catch (error: unknown) {
+      onMessage('error', getErrorMessage(error, 'Failed to sign out other sessions'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Active Sessions"
+        subtitle="Devices that are signed in to your account. Sign out any you don't recognize and change your password."
+        action={
+          hasOtherSessions && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => void handleRevokeOthers()}
+              isLoading={revokeOthers.isPending}
+            >
+              Sign Out All Other Sessions
+            </Button>
+          )
+        }
+      />
+
+      <RetryNotice retryCount={sessionsQuery.retryCount} className="mb-4" />
+
+      {sessionsQuery.isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600" />
+        </div>
+      ) : sessionsQuery.error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {getErrorMessage(sessionsQuery.error, 'Failed to load sessions')}
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {sessions.map((session) => {
+            const DeviceIcon = deviceIcons[session.device_type];
+            return (
+              <li key={session.id} className="flex items-center gap-4 py-4 first:pt-0 last:pb-0">
+                <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-slate-100 dark:bg-slate-700 flex-shrink-0">
+                  <DeviceIcon className="w-5 h-5 text-slate-600 dark:text-slate-300" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                      {session.browser} on {session.platform}
+                    </p>
+                    {session.is_current && <Badge variant="success">This device</Badge>}
+                  </div>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    {session.ip_address} &middot;{' '}
+                    {session.is_current ? 'Active now' : `Last active ${formatDateTime(session.last_active_at)}`}
+                  </p>
+                </div>
+                {!session.is_current && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => void handleRevoke(session)}
+                    isLoading={revokingId === session.id}
+                    disabled={revokingId !== null || revokeOthers.isPending}
+                  >
+                    <FiLogOut className="w-4 h-4 mr-2" />
+                    Sign Out
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+}
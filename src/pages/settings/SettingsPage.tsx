@@ -1,16 +1,21 @@
 import { useState, useEffect, type FormEvent } from 'react';
-import { Card, Button, Input } from '@/components/ui';
-import { FiUser, FiLock } from 'react-icons/fi';
+import { Card, Button, Input, PasswordStrengthMeter } from '@/components/ui';
+import { FiUser, FiLock, FiShield, FiMonitor } from 'react-icons/fi';
 import settingsApi from '@/api/settings';
 import type {
   ProfileUpdateData,
   PasswordChangeData,
 } from '@/api/settings';
 import { useAuth } from '@/contexts/AuthContext';
+import { getErrorMessage } from '@/utils/helpers';
+import { normalizeApiError } from '@/api/errors';
+import { changePasswordSchema } from '@/validations';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { SessionsSettings } from './SessionsSettings';
 
 export function SettingsPage() {
   const { user, refreshUser } = useAuth();
-  const [activeTab, setActiveTab] = useState<'profile' | 'password'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'security' | 'sessions'>('profile');
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
@@ -25,6 +30,7 @@ export function SettingsPage() {
     password: '',
     password_confirmation: '',
   });
+  const [passwordErrors, setPasswordErrors] = useState<Partial<Record<keyof PasswordChangeData, string>>>({});
 
   // Load initial data
   useEffect(() => {
@@ -49,8 +55,7 @@ export function SettingsPage() {
       await refreshUser(); // Refresh user data in context
       showMessage('success', 'Profile updated successfully');
     } catch (error: unknown) {
-      const err = error as { response?: { data?: { message?: string } } };
-      showMessage('error', err.response?.data?.message || 'Failed to update profile');
+      showMessage('error', getErrorMessage(error, 'Failed to update profile'));
     } finally {
       setLoading(false);
     }
@@ -59,18 +64,30 @@ export function SettingsPage() {
   // Password handlers
   const handlePasswordSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    if (passwordData.password !== passwordData.password_confirmation) {
-      showMessage('error', 'Passwords do not match');
+    // Same password policy as every other password form
+    const result = changePasswordSchema.safeParse(passwordData);
+    if (!result.success) {
+      const fieldErrors: Partial<Record<keyof PasswordChangeData, string>> = {};
+      result.error.issues.forEach((issue) => {
+        const field = issue.path[0] as keyof PasswordChangeData;
+        fieldErrors[field] ??= issue.message;
+      });
+      setPasswordErrors(fieldErrors);
       return;
     }
+    setPasswordErrors({});
     setLoading(true);
     try {
+      // The backend signs out the other sessions as part of the change
       await settingsApi.password.change(passwordData);
-      showMessage('success', 'Password changed successfully');
       setPasswordData({ current_password: '', password: '', password_confirmation: '' });
+      showMessage('success', 'Password changed. Other sessions were signed out.');
     } catch (error: unknown) {
-      const err = error as { response?: { data?: { message?: string } } };
-      showMessage('error', err.response?.data?.message || 'Failed to change password');
+      const apiError = normalizeApiError(error);
+      if (apiError.hasFieldErrors) {
+        setPasswordErrors(apiError.firstFieldErrors());
+      }
+      showMessage('error', getErrorMessage(error, 'Failed to change password'));
     } finally {
       setLoading(false);
     }
@@ -115,6 +132,28 @@ export function SettingsPage() {
           <FiLock className="w-4 h-4 mr-2" />
           Password
         </button>
+        <button
+          onClick={() => setActiveTab('security')}
+          className={`flex items-center px-4 py-2 text-sm font-medium rounded-lg transition-all ${
+            activeTab === 'security'
+              ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm'
+              : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+          }`}
+        >
+          <FiShield className="w-4 h-4 mr-2" />
+          Security
+        </button>
+        <button
+          onClick={() => setActiveTab('sessions')}
+          className={`flex items-center px-4 py-2 text-sm font-medium rounded-lg transition-all ${
+            activeTab === 'sessions'
+              ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm'
+              : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+          }`}
+        >
+          <FiMonitor className="w-4 h-4 mr-2" />
+          Sessions
+        </button>
       </div>
 
       {/* Profile Tab */}
@@ -155,6 +194,7 @@ export function SettingsPage() {
               placeholder="Enter current password"
               value={passwordData.current_password}
               onChange={(e) => setPasswordData({ ...passwordData, current_password: e.target.value })}
+              error={passwordErrors.current_password}
               required
             />
             <Input
@@ -163,14 +203,17 @@ export function SettingsPage() {
               placeholder="Enter new password"
               value={passwordData.password}
               onChange={(e) => setPasswordData({ ...passwordData, password: e.target.value })}
+              error={passwordErrors.password}
               required
             />
+            {passwordData.password && <PasswordStrengthMeter password={passwordData.password} />}
             <Input
               label="Confirm New Password"
               type="password"
               placeholder="Confirm new password"
               value={passwordData.password_confirmation}
               onChange={(e) => setPasswordData({ ...passwordData, password_confirmation: e.target.value })}
+              error={passwordErrors.password_confirmation}
               required
             />
             <div className="pt-4">
@@ -179,6 +222,12 @@ export function SettingsPage() {
           </form>
         </Card>
       )}
+
+      {/* Security Tab */}
+      {activeTab === 'security' && <TwoFactorSettings onMessage={showMessage} />}
+
+      {/* Sessions Tab */}
+      {activeTab === 'sessions' && <SessionsSettings onMessage={showMessage} />}
     </div>
   );
 }
@@ -0,0 +1,254 @@
+import { useState, type FormEvent } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Card, CardHeader, Button, Input, Badge } from '@/components/ui';
+import { FiCopy, FiEye, FiRefreshCw } from 'react-icons/fi';
+import settingsApi from '@/api/settings';
+import { useAuth } from '@/contexts/AuthContext';
+import { getErrorMessage } from '@/utils/helpers';
+import type { TwoFactorSetup } from '@/types/models';
+
+interface TwoFactorSettingsProps {
+  onMessage: (type: 'success' | 'error', text: string) => void;
+}
+
+// "ABCD EFGH ..." is easier to type into an authenticator app by hand
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+// Security tab: enroll in, confirm and disable two-factor authentication,
+// and view or regenerate recovery codes
+export function TwoFactorSettings({ onMessage }: TwoFactorSettingsProps) {
+  const { user, refreshUser } = useAuth();
+  const isEnabled = !!user?.two_factor_enabled;
+
+  const [loading, setLoading] = useState<'enable' | 'confirm' | 'disable' | 'codes' | null>(null);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  // Pending enrollment, until the first code confirms it
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleEnable = async (e: FormEvent) => {
+    e.preventDefault();
+    setLoading('enable');
+    try {
+      const response = await settingsApi.twoFactor.enable(password);
+      setSetup(response.data);
+      setPassword('');
+    } catch (error: unknown) {
+      onMessage('error', getErrorMessage(error, 'Failed to start two-factor setup'));
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleConfirm = async (e: FormEvent) => {
+    e.preventDefault();
+    setLoading('confirm');
+    try {
+      const response = await settingsApi.twoFactor.confirm(code.replace(/\s/g, ''));
+      setSetup(null);
+      setCode('');
+      // Shown once right away - the user should save them now
+      setRecoveryCodes(response.data.recovery_codes);
+      await refreshUser();
+      onMessage('success', 'Two-factor authentication enabled');
+    } catch (error: unknown) {
+      onMessage('error', getErrorMessage(error, 'The code could not be verified'));
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleDisable = async (e: FormEvent) => {
+    e.preventDefault();
+    setLoading('disable');
+    try {
+      await settingsApi.twoFactor.disable(password);
+      setPassword('');
+      setRecoveryCodes(null);
+      await refreshUser();
+      onMessage('success', 'Two-factor authentication disabled');
+    } catch (error: unknown) {
+      onMessage('error', getErrorMessage(error, 'Failed to disable two-factor authentication'));
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const loadRecoveryCodes = async (regenerate: boolean) => {
+    setLoading('codes');
+    try {
+      const response = regenerate
+        ? await settingsApi.twoFactor.regenerateRecoveryCodes()
+        : await settingsApi.twoFactor.getRecoveryCodes();
+      setRecoveryCodes(response.data.recovery_codes);
+      if (regenerate) {
+        onMessage('success', 'New recovery codes generated. The old codes no longer work.');
+      }
+    } catch (error: unknown) {
+      onMessage('error', getErrorMessage(error, 'Failed to load recovery codes'));
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      onMessage('success', 'Recovery codes copied to clipboard');
+    } catch {
+      onMessage('error', 'Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader
+          title="Two-Factor Authentication"
+          subtitle="Require a code from an authenticator app in addition to your password when you log in."
+          action={
+            <Badge variant={isEnabled ? 'success' : 'default'} size="md">
+              {isEnabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          }
+        />
+
+        {/* Step 1: confirm the password to start enrolling */}
+        {!isEnabled && !setup && (
+          <form onSubmit={handleEnable} className="space-y-4 max-w-md">
+            <Input
+              label="Current Password"
+              type="password"
+              placeholder="Confirm your password to continue"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+            <Button type="submit" isLoading={loading === 'enable'}>Enable Two-Factor</Button>
+          </form>
+        )}
+
+        {/* Step 2: scan the QR code and confirm with the first code */}
+        {!isEnabled && setup && (
+          <div className="space-y-4 max-w-md">
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              Scan this QR code with your authenticator app (Google Authenticator, 1Password, Authy…), or enter
+              the setup key manually. Then enter the 6-digit code it shows.
+            </p>
+            <div className="inline-block p-3 bg-white rounded-xl border border-slate-200 dark:border-slate-600">
+              <QRCodeSVG value={setup.otpauth_url} size={160} />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5">Setup key</p>
+              <code className="block px-3 py-2 bg-slate-50 dark:bg-slate-700 rounded-lg text-sm font-mono text-slate-900 dark:text-white break-all">
+                {formatSecret(setup.secret)}
+              </code>
+            </div>
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <Input
+                label="Authentication Code"
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="font-mono tracking-widest"
+                required
+              />
+              <div className="flex gap-3">
+                <Button type="submit" isLoading={loading === 'confirm'}>Confirm</Button>
+                <Button type="button" variant="secondary" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Enabled: recovery codes and disabling */}
+        {isEnabled && (
+          <div className="space-y-6 max-w-md">
+            <div>
+              <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Recovery Codes</h4>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                Use a recovery code to log in if you lose access to your authenticator app. Each code works once.
+              </p>
+              <div className="flex flex-wrap gap-3 mt-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void loadRecoveryCodes(false)}
+                  disabled={loading === 'codes'}
+                >
+                  <FiEye className="w-4 h-4 mr-2" />
+                  Show Codes
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void loadRecoveryCodes(true)}
+                  disabled={loading === 'codes'}
+                >
+                  <FiRefreshCw className="w-4 h-4 mr-2" />
+                  Regenerate Codes
+                </Button>
+              </div>
+            </div>
+
+            <form onSubmit={handleDisable} className="space-y-4 pt-6 border-t border-slate-100 dark:border-slate-700">
+              <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Disable Two-Factor</h4>
+              <Input
+                label="Current Password"
+                type="password"
+                placeholder="Confirm your password to disable"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+              <Button type="submit" variant="danger" isLoading={loading === 'disable'}>
+                Disable Two-Factor
+              </Button>
+            </form>
+          </div>
+        )}
+      </Card>
+
+      {recoveryCodes && (
+        <Card>
+          <CardHeader
+            title="Your Recovery Codes"
+            subtitle="Store these somewhere safe, like a password manager."
+            action={
+              <Button type="button" variant="secondary" size="sm" onClick={() => void copyRecoveryCodes()}>
+                <FiCopy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+            }
+          />
+          {recoveryCodes.length > 0 ? (
+            <ul className="grid grid-cols-2 gap-2 max-w-md">
+              {recoveryCodes.map((recoveryCode) => (
+                <li
+                  key={recoveryCode}
+                  className="px-3 py-2 bg-slate-50 dark:bg-slate-700 rounded-lg text-sm font-mono text-slate-900 dark:text-white"
+                >
+                  {recoveryCode}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Every recovery code has been used. Regenerate them to get new ones.
+            </p>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
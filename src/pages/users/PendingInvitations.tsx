@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Card, CardHeader, Badge } from '@/components/ui';
+import { FiMail, FiSend, FiX } from 'react-icons/fi';
+import { invitationsApi } from '@/api/invitations';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { useApiMutation } from '@/hooks/useApiMutation';
+import { formatDateTime, getRoleDisplayName, getRoleBadgeColor, getErrorMessage } from '@/utils/helpers';
+import type { Invitation } from '@/types/models';
+
+interface PendingInvitationsProps {
+  onMessage: (type: 'success' | 'error', text: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "Expires in 3 days", "Expires today" or null once the link is dead
+const describeExpiry = (expiresAt: string): string | null => {
+  const remaining = new Date(expiresAt).getTime() - Date.now();
+  if (remaining <= 0) return null;
+
+  const days = Math.floor(remaining / DAY_MS);
+  if (days === 0) return 'Expires today';
+  return `Expires in ${days} ${days === 1 ? 'day' : 'days'}`;
+};
+
+// Invitations not accepted yet, above the users table. Hidden when there are none.
+export function PendingInvitations({ onMessage }: PendingInvitationsProps) {
+  const invitationsQuery = useApiQuery({
+    queryKey: ['invitations'],
+    queryFn: (context) => invitationsApi.getInvitations(context),
+    tags: ['invitations'],
+  });
+  const invitations = invitationsQuery.data?.data ?? [];
+
+  const resendInvitation = useApiMutation(invitationsApi.resendInvitation);
+  const revokeInvitation = useApiMutation(invitationsApi.revokeInvitation);
+  // Row whose resend or revoke is in flight
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const handleResend = async (invitation: Invitation) => {
+    setBusyId(invitation.id);
+    try {
+      await resendInvitation.mutate(invitation.id.toString());
+      onMessage('success', `Invitation resent to ${invitation.email}`);
+    } catch (error: unknown) {
+      onMessage('error', getErrorMessage(error, 'Failed to resend invitation'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    setBusyId(invitation.id);
+    try {
+      await revokeInvitation.mutate(invitation.id.toString());
+      onMessage('success', `Invitation for ${invitation.email} revoked`);
+    } catch (error: unknown) {
+      onMessage('error', getErrorMessage(error, 'Failed to revoke invitation'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader
+        title="Pending Invitations"
+        subtitle="People who have been invited but have not set a password yet."
+      />
+
+      <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+        {invitations.map((invitation) => {
+          const expiry = describeExpiry(invitation.expires_at);
+          return (
+            <li key={invitation.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-4 first:pt-0 last:pb-0">
+              <div className="flex items-center gap-3 flex-1 min-w-0">
+                <div className="shrink-0 w-10 h-10 bg-slate-100 dark:bg-slate-700 rounded-full flex items-center justify-center">
+                  <FiMail className="w-4 h-4 text-slate-500 dark:text-slate-300" />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{invitation.name}</p>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 truncate">{invitation.email}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge className={getRoleBadgeColor(invitation.role)}>{getRoleDisplayName(invitation.role)}</Badge>
+                <span title={`Expires ${formatDateTime(invitation.expires_at)}`}>
+                  {expiry ? (
+                    <span className="text-xs text-slate-500 dark:text-slate-400">{expiry}</span>
+                  ) : (
+                    <Badge variant="danger">Expired</Badge>
+                  )}
+                </span>
+              </div>
+              <div className="flex items-center gap-1 sm:ml-2">
+                <button
+                  onClick={() => void handleResend(invitation)}
+                  disabled={busyId !== null}
+                  className="p-2 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors disabled:opacity-50"
+                  title="Resend invitation"
+                >
+                  <FiSend className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => void handleRevoke(invitation)}
+                  disabled={busyId !== null}
+                  className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors disabled:opacity-50"
+                  title="Revoke invitation"
+                >
+                  <FiX className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+}
@@ -1,45 +1,51 @@
 import { useEffect, useState } from 'react';
-import { useSearchParams } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Card, Button, Badge, Input, Select } from '@/components/ui';
+import { Card, Button, Badge, Input, Select, RetryNotice, PasswordStrengthMeter } from '@/components/ui';
+import { Can } from '@/components/Can';
 import { usersApi } from '@/api/users';
-import { formatDate, getRoleDisplayName, getRoleBadgeColor } from '@/utils/helpers';
-import type { User } from '@/types/models';
-import { FiPlus, FiSearch, FiEdit2, FiTrash2, FiRefreshCw, FiUsers, FiEye, FiEyeOff } from 'react-icons/fi';
+import { useAuth } from '@/contexts/AuthContext';
+import { invitationsApi } from '@/api/invitations';
+import { rolesApi } from '@/api/roles';
+import { useApiQuery } from '@/hooks/useApiQuery';
+import { useApiMutation } from '@/hooks/useApiMutation';
+import { formatDate, formatDateTime, getRoleDisplayName, getRoleBadgeColor, getErrorMessage } from '@/utils/helpers';
+import { normalizeApiError } from '@/api/errors';
+import type { User, UserRole } from '@/types/models';
+import { FiPlus, FiSearch, FiEdit2, FiTrash2, FiRefreshCw, FiUsers, FiEye, FiEyeOff, FiUnlock, FiMail, FiLogIn } from 'react-icons/fi';
 import {
   userFiltersSchema,
   createUserSchema,
   updateUserSchema,
-  type UserFiltersFormData
+  updateUserSchemaFor,
+  inviteUserSchema,
+  type UserFiltersFormData,
+  type InviteUserFormData
 } from '@/validations';
 import type { z } from 'zod';
+import { PendingInvitations } from './PendingInvitations';
 
 // Type for form that combines create and update
 type UserFormData = z.infer<typeof createUserSchema> & z.infer<typeof updateUserSchema>;
 
 export function UsersListingPage() {
   const [searchParams] = useSearchParams();
-  const [users, setUsers] = useState<User[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const navigate = useNavigate();
+  const { impersonator, impersonate } = useAuth();
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [meta, setMeta] = useState<{
-    current_page: number;
-    last_page: number;
-    per_page: number;
-    total: number;
-  } | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [deletingUser, setDeletingUser] = useState<User | null>(null);
   const [modalErrors, setModalErrors] = useState<Record<string, string>>({});
   const [showDeleted, setShowDeleted] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
 
   // Get initial search value from URL params
   const urlSearch = searchParams.get('search') || '';
 
-  const { register, reset, watch } = useForm<UserFiltersFormData>({
+  const { register, reset, control } = useForm<UserFiltersFormData>({
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     resolver: zodResolver(userFiltersSchema) as any,
     defaultValues: {
@@ -50,43 +56,44 @@ export function UsersListingPage() {
     },
   });
 
-  const filters = watch();
-
-  const fetchUsers = async (page = 1) => {
-    setIsLoading(true);
-    try {
-      const response = await usersApi.getUsers({
-        search: filters.search,
-        per_page: Number(filters.per_page),
-        sort_by: filters.sort_by,
-        sort_order: filters.sort_order,
-        page,
-        include_deleted: showDeleted,
-      });
-      setUsers(response.data || []);
-      if (response.meta) {
-        setMeta(response.meta);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load users');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchUsers();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filters.per_page, filters.sort_by, filters.sort_order, showDeleted]);
+  const [searchInput, perPage, sortBy, sortOrder] = useWatch({
+    control,
+    name: ['search', 'per_page', 'sort_by', 'sort_order'],
+  });
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState(urlSearch);
 
+  // Debounce search input before it becomes part of the query key
   useEffect(() => {
     const timer = setTimeout(() => {
-      fetchUsers(1);
+      setSearch(searchInput || '');
+      setPage(1);
     }, 300);
 
     return () => clearTimeout(timer);
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filters.search]);
+  }, [searchInput]);
+
+  const params = {
+    search,
+    per_page: Number(perPage),
+    sort_by: sortBy,
+    sort_order: sortOrder,
+    page,
+    include_deleted: showDeleted,
+  };
+
+  const usersQuery = useApiQuery({
+    queryKey: ['users', params],
+    queryFn: (context) => usersApi.getUsers(params, context),
+    forbiddenPage: true,
+    tags: ['users'],
+  });
+  const users = usersQuery.data?.data ?? [];
+  const meta = usersQuery.data?.meta ?? null;
+  const isLoading = usersQuery.isLoading;
+  const listError = usersQuery.error ? getErrorMessage(usersQuery.error, 'Failed to load users') : null;
+
+  const deleteUser = useApiMutation(usersApi.deleteUser);
 
   const handleCreate = () => {
     setEditingUser(null);
@@ -108,14 +115,13 @@ export function UsersListingPage() {
     if (!deletingUser) return;
 
     try {
-      await usersApi.deleteUser(deletingUser.id.toString());
+      await deleteUser.mutate(deletingUser.id.toString());
       setSuccess('User deleted successfully');
       setError(null);
       setDeletingUser(null);
-      fetchUsers();
       setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete user');
+      setError(getErrorMessage(err, 'Failed to delete user'));
       setSuccess(null);
     }
   };
@@ -125,10 +131,50 @@ export function UsersListingPage() {
       await usersApi.restoreUser(id);
       setSuccess('User restored successfully');
       setError(null);
-      fetchUsers();
       setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to restore user');
+      setError(getErrorMessage(err, 'Failed to restore user'));
+      setSuccess(null);
+    }
+  };
+
+  const handleUnlock = async (user: User) => {
+    try {
+      await usersApi.unlockUser(user.id.toString());
+      setSuccess(`${user.name} can log in again`);
+      setError(null);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to unlock user'));
+      setSuccess(null);
+    }
+  };
+
+  // "View as user": continue as them until "Return to my account" in the banner
+  const handleImpersonate = async (user: User) => {
+    try {
+      await impersonate(user.id);
+      navigate('/dashboard');
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to view as ${user.name}`));
+      setSuccess(null);
+    }
+  };
+
+  const handleInvited = (email: string) => {
+    setShowInviteModal(false);
+    setSuccess(`Invitation sent to ${email}`);
+    setError(null);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleInvitationMessage = (type: 'success' | 'error', text: string) => {
+    if (type === 'success') {
+      setSuccess(text);
+      setError(null);
+      setTimeout(() => setSuccess(null), 3000);
+    } else {
+      setError(text);
       setSuccess(null);
     }
   };
@@ -140,7 +186,8 @@ export function UsersListingPage() {
         const updateData: Record<string, unknown> = {};
         if (data.name) updateData.name = data.name;
         if (data.email) updateData.email = data.email;
-        if (data.role) updateData.role = data.role;
+        // An unchanged role is left out, so it is never re-assigned
+        if (data.role && data.role !== editingUser.role) updateData.role = data.role;
         if (data.password) {
           updateData.password = data.password;
           updateData.password_confirmation = data.password_confirmation;
@@ -149,37 +196,30 @@ export function UsersListingPage() {
         await usersApi.updateUser(editingUser.id.toString(), updateData);
         setSuccess('User updated successfully');
       } else {
-        await usersApi.createUser(data as { name: string; email: string; password: string; password_confirmation: string; role: 'admin' | 'merchant' });
+        await usersApi.createUser(data as { name: string; email: string; password: string; password_confirmation: string; role: UserRole });
         setSuccess('User created successfully');
       }
       setShowModal(false);
       setError(null);
       setModalErrors({});
       reset();
-      fetchUsers();
       setTimeout(() => setSuccess(null), 3000);
     } catch (err: unknown) {
-      // Handle API validation errors (422) from axios
-      const axiosError = err as { response?: { data?: { message?: string; errors?: Record<string, string[]> } } };
-      const errorData = axiosError.response?.data;
-
-      if (errorData?.errors) {
-        // Map backend errors to form field format
-        const fieldErrors: Record<string, string> = {};
-        Object.entries(errorData.errors).forEach(([key, value]) => {
-          fieldErrors[key] = Array.isArray(value) ? value[0] : value;
-        });
-        setModalErrors(fieldErrors);
-        return; // Keep modal open
+      const apiError = normalizeApiError(err);
+
+      // Map backend validation errors (422) to form fields and keep modal open
+      if (apiError.hasFieldErrors) {
+        setModalErrors(apiError.firstFieldErrors());
+        return;
       }
 
-      // Handle general error message
-      if (errorData?.message) {
-        setModalErrors({ _general: errorData.message });
+      // Show other backend errors inside the modal
+      if (apiError.status) {
+        setModalErrors({ _general: apiError.message });
         return;
       }
 
-      setError(err instanceof Error ? err.message : 'Failed to save user');
+      setError(getErrorMessage(err, 'Failed to save user'));
       setSuccess(null);
     }
   };
@@ -192,10 +232,27 @@ export function UsersListingPage() {
           <h1 className="text-2xl font-bold text-slate-900">Users Management</h1>
           <p className="text-slate-500 mt-1">Manage system users and their roles</p>
         </div>
-        <Button onClick={handleCreate} className="btn-transition">
-          <FiPlus className="w-4 h-4 mr-2" />
-          Add User
-        </Button>
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setShowInviteModal(true)}
+            className="btn-transition"
+            permission="canCreateUsers"
+            deniedReason="You don't have permission to invite users"
+          >
+            <FiMail className="w-4 h-4 mr-2" />
+            Invite User
+          </Button>
+          <Button
+            onClick={handleCreate}
+            className="btn-transition"
+            permission="canCreateUsers"
+            deniedReason="You don't have permission to add users"
+          >
+            <FiPlus className="w-4 h-4 mr-2" />
+            Add User
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -217,8 +274,8 @@ export function UsersListingPage() {
                   { value: '25', label: '25/page' },
                   { value: '50', label: '50/page' },
                 ]}
-                {...register('per_page', { 
-                  onChange: () => fetchUsers(1),
+                {...register('per_page', {
+                  onChange: () => setPage(1),
                   setValueAs: (value: string) => Number(value)
                 })}
               />
@@ -229,13 +286,13 @@ export function UsersListingPage() {
                   { value: 'asc', label: 'Oldest' },
                   { value: 'desc', label: 'Newest' },
                 ]}
-                {...register('sort_order', { onChange: () => fetchUsers(1) })}
+                {...register('sort_order', { onChange: () => setPage(1) })}
               />
             </div>
             <button
               onClick={() => {
                 setShowDeleted(!showDeleted);
-                fetchUsers(1);
+                setPage(1);
               }}
               className={`flex items-center px-3 py-2.5 text-sm font-medium rounded-xl transition-all ${showDeleted
                   ? 'bg-red-50 text-red-600 dark:bg-red-900/50 dark:text-red-300 border border-red-200 dark:border-red-800'
@@ -265,13 +322,21 @@ export function UsersListingPage() {
         </div>
       )}
 
+      {/* Retrying a failed load */}
+      <RetryNotice retryCount={usersQuery.retryCount} />
+
       {/* Error Message */}
-      {error && (
+      {(error || listError) && (
         <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl p-4">
-          <p className="text-red-700 dark:text-red-300">{error}</p>
+          <p className="text-red-700 dark:text-red-300">{error || listError}</p>
         </div>
       )}
 
+      {/* Invitations not accepted yet */}
+      <Can permission="canCreateUsers">
+        <PendingInvitations onMessage={handleInvitationMessage} />
+      </Can>
+
       {/* Users Table */}
       <Card padding="none" className="overflow-hidden">
         {/* Desktop Table */}
@@ -340,6 +405,11 @@ export function UsersListingPage() {
                             Deleted
                           </Badge>
                         )}
+                        {user.locked_until && (
+                          <span title={`Locked until ${formatDateTime(user.locked_until)}`}>
+                            <Badge variant="warning">Locked</Badge>
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
@@ -349,32 +419,75 @@ export function UsersListingPage() {
                       <div className="flex items-center justify-end space-x-1">
                         {!user.deleted_at && (
                           <>
-                            <button
+                            {user.locked_until && (
+                              <Button
+                                permission="canUpdateUsers"
+                                deniedReason="You don't have permission to unlock users"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleUnlock(user)}
+                                className="p-2 text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30 rounded-lg transition-colors"
+                                title="Unlock account"
+                                aria-label="Unlock account"
+                              >
+                                <FiUnlock className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {!impersonator && user.role !== 'super_admin' && (
+                              <Button
+                                permission="canImpersonateUsers"
+                                deniedReason="You don't have permission to view the app as other users"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => void handleImpersonate(user)}
+                                className="p-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                                title="View as user"
+                                aria-label="View as user"
+                              >
+                                <FiLogIn className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button
+                              permission="canUpdateUsers"
+                              deniedReason="You don't have permission to edit users"
+                              variant="ghost"
+                              size="icon"
                               onClick={() => handleEdit(user)}
                               className="p-2 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
                               title="Edit"
+                              aria-label="Edit"
                             >
                               <FiEdit2 className="w-4 h-4" />
-                            </button>
+                            </Button>
                             {user.role !== 'super_admin' && (
-                              <button
+                              <Button
+                                permission="canDeleteUsers"
+                                deniedReason="You don't have permission to delete users"
+                                variant="ghost"
+                                size="icon"
                                 onClick={() => handleDelete(user)}
                                 className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
                                 title="Delete"
+                                aria-label="Delete"
                               >
                                 <FiTrash2 className="w-4 h-4" />
-                              </button>
+                              </Button>
                             )}
                           </>
                         )}
                         {user.deleted_at && (
-                          <button
+                          <Button
+                            permission="canDeleteUsers"
+                            deniedReason="You don't have permission to restore users"
+                            variant="ghost"
+                            size="icon"
                             onClick={() => handleRestore(user.id.toString())}
                             className="p-2 text-yellow-600 dark:text-yellow-400 hover:bg-yellow-50 dark:hover:bg-yellow-900/30 rounded-lg transition-colors"
                             title="Restore"
+                            aria-label="Restore"
                           >
                             <FiRefreshCw className="w-4 h-4" />
-                          </button>
+                          </Button>
                         )}
                       </div>
                     </td>
@@ -418,6 +531,11 @@ export function UsersListingPage() {
                             Deleted
                           </Badge>
                         )}
+                        {user.locked_until && (
+                          <Badge variant="warning" className="mt-1 text-xs">
+                            Locked
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     <Badge className={`${getRoleBadgeColor(user.role)} shrink-0 text-xs`}>
@@ -429,32 +547,75 @@ export function UsersListingPage() {
                     <div className="flex items-center gap-1 shrink-0">
                       {!user.deleted_at && (
                         <>
-                          <button
+                          {user.locked_until && (
+                            <Button
+                              permission="canUpdateUsers"
+                              deniedReason="You don't have permission to unlock users"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleUnlock(user)}
+                              className="p-1.5 text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30 rounded-lg transition-colors"
+                              title="Unlock account"
+                              aria-label="Unlock account"
+                            >
+                              <FiUnlock className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {!impersonator && user.role !== 'super_admin' && (
+                            <Button
+                              permission="canImpersonateUsers"
+                              deniedReason="You don't have permission to view the app as other users"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => void handleImpersonate(user)}
+                              className="p-1.5 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                              title="View as user"
+                              aria-label="View as user"
+                            >
+                              <FiLogIn className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            permission="canUpdateUsers"
+                            deniedReason="You don't have permission to edit users"
+                            variant="ghost"
+                            size="icon"
                             onClick={() => handleEdit(user)}
                             className="p-1.5 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
                             title="Edit"
+                            aria-label="Edit"
                           >
                             <FiEdit2 className="w-4 h-4" />
-                          </button>
+                          </Button>
                           {user.role !== 'super_admin' && (
-                            <button
+                            <Button
+                              permission="canDeleteUsers"
+                              deniedReason="You don't have permission to delete users"
+                              variant="ghost"
+                              size="icon"
                               onClick={() => handleDelete(user)}
                               className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
                               title="Delete"
+                              aria-label="Delete"
                             >
                               <FiTrash2 className="w-4 h-4" />
-                            </button>
+                            </Button>
                           )}
                         </>
                       )}
                       {user.deleted_at && (
-                        <button
+                        <Button
+                          permission="canDeleteUsers"
+                          deniedReason="You don't have permission to restore users"
+                          variant="ghost"
+                          size="icon"
                           onClick={() => handleRestore(user.id.toString())}
                           className="p-1.5 text-yellow-600 dark:text-yellow-400 hover:bg-yellow-50 dark:hover:bg-yellow-900/30 rounded-lg transition-colors"
                           title="Restore"
+                          aria-label="Restore"
                         >
                           <FiRefreshCw className="w-4 h-4" />
-                        </button>
+                        </Button>
                       )}
                     </div>
                   </div>
@@ -478,7 +639,7 @@ export function UsersListingPage() {
                 size="sm"
                 className="flex-1 sm:flex-none"
                 disabled={meta.current_page === 1}
-                onClick={() => fetchUsers(meta.current_page - 1)}
+                onClick={() => setPage(meta.current_page - 1)}
               >
                 Prev
               </Button>
@@ -487,7 +648,7 @@ export function UsersListingPage() {
                 size="sm"
                 className="flex-1 sm:flex-none"
                 disabled={meta.current_page === meta.last_page}
-                onClick={() => fetchUsers(meta.current_page + 1)}
+                onClick={() => setPage(meta.current_page + 1)}
               >
                 Next
               </Button>
@@ -511,6 +672,11 @@ export function UsersListingPage() {
         />
       )}
 
+      {/* Invite Modal */}
+      {showInviteModal && (
+        <InviteUserModal onClose={() => setShowInviteModal(false)} onInvited={handleInvited} />
+      )}
+
       {/* Delete Confirmation Modal */}
       {deletingUser && (
         <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -536,7 +702,7 @@ export function UsersListingPage() {
               <Button variant="secondary" onClick={() => setDeletingUser(null)}>
                 Cancel
               </Button>
-              <Button variant="danger" onClick={confirmDelete}>
+              <Button variant="danger" onClick={confirmDelete} isLoading={deleteUser.isPending}>
                 Delete
               </Button>
             </div>
@@ -559,7 +725,7 @@ function UserModal({ user, errors = {}, onClose, onSubmit }: UserModalProps) {
   const [password, setPassword] = useState('');
   
   // Use different schemas for create vs update
-  const schema = user ? updateUserSchema : createUserSchema;
+  const schema = user ? updateUserSchemaFor(user.role) : createUserSchema;
   
   const { register, handleSubmit, formState: { errors: formErrors } } = useForm({
     resolver: zodResolver(schema),
@@ -567,17 +733,14 @@ function UserModal({ user, errors = {}, onClose, onSubmit }: UserModalProps) {
       ? {
           name: user.name,
           email: user.email,
-          role: user.role as 'admin' | 'merchant',
+          role: user.role,
         }
       : {
-          role: 'merchant' as const,
+          role: 'merchant',
         },
   });
 
-  const roleOptions = [
-    { value: 'admin', label: 'Administrator' },
-    { value: 'merchant', label: 'Merchant' },
-  ];
+  const roleOptions = useRoleOptions(user?.role);
 
   return (
     <div className="fixed inset-0 bg-slate-900/50 dark:bg-slate-900/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -619,6 +782,7 @@ function UserModal({ user, errors = {}, onClose, onSubmit }: UserModalProps) {
                 })}
                 className="input-focus"
               />
+              {password && <PasswordStrengthMeter password={password} />}
               <Input
                 label="Confirm Password"
                 type="password"
@@ -640,13 +804,16 @@ function UserModal({ user, errors = {}, onClose, onSubmit }: UserModalProps) {
                 className="input-focus"
               />
               {password && (
-                <Input
-                  label="Confirm New Password"
-                  type="password"
-                  error={formErrors.password_confirmation?.message || errors.password_confirmation}
-                  {...register('password_confirmation')}
-                  className="input-focus"
-                />
+                <>
+                  <PasswordStrengthMeter password={password} />
+                  <Input
+                    label="Confirm New Password"
+                    type="password"
+                    error={formErrors.password_confirmation?.message || errors.password_confirmation}
+                    {...register('password_confirmation')}
+                    className="input-focus"
+                  />
+                </>
               )}
             </>
           )}
@@ -668,3 +835,102 @@ function UserModal({ user, errors = {}, onClose, onSubmit }: UserModalProps) {
   );
 }
 
+// Roles the user forms can hand out, built-in and custom. The built-in ones
+// show until the list has loaded; super admin is never offered.
+function useRoleOptions(currentRole?: UserRole) {
+  const rolesQuery = useApiQuery({
+    queryKey: ['roles'],
+    queryFn: (context) => rolesApi.getRoles(context),
+    tags: ['roles'],
+  });
+
+  const options = (
+    rolesQuery.data?.data.map((role) => ({ value: role.name, label: role.display_name })) ?? [
+      { value: 'admin', label: getRoleDisplayName('admin') },
+      { value: 'merchant', label: getRoleDisplayName('merchant') },
+    ]
+  ).filter((option) => option.value !== 'super_admin');
+
+  // Keep the user's current role selectable even before the list arrives
+  if (currentRole && !options.some((option) => option.value === currentRole)) {
+    options.push({ value: currentRole, label: getRoleDisplayName(currentRole) });
+  }
+  return options;
+}
+
+// Invite User Modal Component - the invitee sets their own password
+interface InviteUserModalProps {
+  onClose: () => void;
+  onInvited: (email: string) => void;
+}
+
+function InviteUserModal({ onClose, onInvited }: InviteUserModalProps) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const { register, handleSubmit, formState: { errors: formErrors, isSubmitting } } = useForm<InviteUserFormData>({
+    resolver: zodResolver(inviteUserSchema),
+    defaultValues: {
+      name: '',
+      email: '',
+      role: 'merchant',
+    },
+  });
+
+  const roleOptions = useRoleOptions();
+
+  const onSubmit = async (data: InviteUserFormData) => {
+    try {
+      await invitationsApi.createInvitation(data);
+      onInvited(data.email);
+    } catch (err: unknown) {
+      const apiError = normalizeApiError(err);
+      setErrors(apiError.hasFieldErrors ? apiError.firstFieldErrors() : { _general: apiError.message });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 dark:bg-slate-900/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto animate-slide-up">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Invite User</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            We'll email them a link to set their own password. The link expires after 7 days.
+          </p>
+        </div>
+        <form onSubmit={(e) => void handleSubmit(onSubmit)(e)} className="p-6 space-y-4">
+          {errors._general && (
+            <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+              <p className="text-red-700 dark:text-red-300 text-sm">{errors._general}</p>
+            </div>
+          )}
+
+          <Input
+            label="Full Name"
+            error={formErrors.name?.message || errors.name}
+            {...register('name')}
+            className="input-focus"
+          />
+          <Input
+            label="Email"
+            type="email"
+            error={formErrors.email?.message || errors.email}
+            {...register('email')}
+            className="input-focus"
+          />
+          <Select
+            label="Role"
+            options={roleOptions}
+            error={formErrors.role?.message || errors.role}
+            {...register('role')}
+          />
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={isSubmitting}>Send Invitation</Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,2 @@
-export { UsersPage } from './UsersPage';
 export { UsersListingPage } from './UsersListingPage';
 
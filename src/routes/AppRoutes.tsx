@@ -1,21 +1,31 @@
-import { createBrowserRouter, Navigate } from 'react-router-dom';
+import { createBrowserRouter, Navigate, useLocation, useSearchParams, type RouteObject } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { LoginPage, ForgotPasswordPage, ResetPasswordPage } from '@/pages/auth';
-import { DashboardPage, SettingsPage } from '@/pages';
-import { UsersPage, UsersListingPage } from '@/pages/users';
-import { MerchantsPage, MerchantsListingPage } from '@/pages/merchants';
+import {
+  LoginPage,
+  TwoFactorChallengePage,
+  ForgotPasswordPage,
+  ResetPasswordPage,
+  AcceptInvitePage,
+  SsoCallbackPage,
+} from '@/pages/auth';
+import { ForbiddenPage, NotFoundPage } from '@/pages/errors';
 import { MainLayout } from '@/components/layout';
-import type { UserRole } from '@/types/models';
+import { usePermission } from '@/hooks/usePermission';
+import { getLoginPath, getSafeRedirect } from '@/lib/redirect';
+import { appRoutes, type AppRoute, type AppRouteHandle } from './routeRegistry';
+import type { Permission } from '@/types/models';
 
 // Protected Route Wrapper
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: UserRole[];
+  permission?: Permission;
 }
 
 // eslint-disable-next-line react-refresh/only-export-components
-function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
-  const { isAuthenticated, user, isLoading } = useAuth();
+function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { isAuthenticated, isLoading, logoutReason } = useAuth();
+  const { hasPermission, isLoading: isLoadingPermissions } = usePermission();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -26,11 +36,22 @@ function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Tell the login page why, e.g. "Your session has expired", and where to come back to
+    return <Navigate to={getLoginPath(location, logoutReason)} replace />;
   }
 
-  if (allowedRoles && user && !allowedRoles.includes(user.role)) {
-    return <Navigate to="/dashboard" replace />;
+  // Don't deny the page before the user's permissions are known
+  if (permission && isLoadingPermissions) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  // Stay on the URL and explain, rather than silently landing somewhere else
+  if (permission && !hasPermission(permission)) {
+    return <ForbiddenPage permission={permission} />;
   }
 
   return <>{children}</>;
@@ -44,6 +65,7 @@ interface AuthRouteProps {
 // eslint-disable-next-line react-refresh/only-export-components
 function AuthRoute({ children }: AuthRouteProps) {
   const { isAuthenticated, isLoading } = useAuth();
+  const [searchParams] = useSearchParams();
 
   if (isLoading) {
     return (
@@ -54,12 +76,36 @@ function AuthRoute({ children }: AuthRouteProps) {
   }
 
   if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={getSafeRedirect(searchParams.get('redirect'))} replace />;
   }
 
   return <>{children}</>;
 }
 
+// The mock identity provider's login page, only with the mock backend
+const mockIdpRoutes: RouteObject[] =
+  import.meta.env.VITE_USE_MOCK_API === 'true'
+    ? [
+        {
+          path: '/mock-idp/authorize',
+          lazy: () => import('@/pages/auth/MockIdpPage').then(({ MockIdpPage }) => ({ Component: MockIdpPage })),
+        },
+      ]
+    : [];
+
+// A registry entry as a child route of the app layout
+const toRouteObject = (route: AppRoute): RouteObject => ({
+  path: route.path.slice(1),
+  handle: { appRoute: route } satisfies AppRouteHandle,
+  element: route.permission ? (
+    <ProtectedRoute permission={route.permission}>
+      <route.Component />
+    </ProtectedRoute>
+  ) : (
+    <route.Component />
+  ),
+});
+
 // Router Configuration
 export const router = createBrowserRouter([
   // Auth Routes (public)
@@ -71,6 +117,14 @@ export const router = createBrowserRouter([
       </AuthRoute>
     ),
   },
+  {
+    path: '/two-factor',
+    element: (
+      <AuthRoute>
+        <TwoFactorChallengePage />
+      </AuthRoute>
+    ),
+  },
   {
     path: '/forgot-password',
     element: (
@@ -87,6 +141,21 @@ export const router = createBrowserRouter([
       </AuthRoute>
     ),
   },
+  {
+    path: '/accept-invite',
+    element: (
+      <AuthRoute>
+        <AcceptInvitePage />
+      </AuthRoute>
+    ),
+  },
+  // Not behind AuthRoute: the page signs the user in and then opens the page
+  // saved with the SSO attempt, which AuthRoute would override with /dashboard
+  {
+    path: '/auth/callback',
+    element: <SsoCallbackPage />,
+  },
+  ...mockIdpRoutes,
 
   // Protected Routes
   {
@@ -101,48 +170,12 @@ export const router = createBrowserRouter([
         index: true,
         element: <Navigate to="/dashboard" replace />,
       },
+      ...appRoutes.map(toRouteObject),
+      // Catch all - signed out users go to login first, then land here
       {
-        path: 'dashboard',
-        element: <DashboardPage />,
-      },
-      {
-        path: 'users',
-        element: (
-          <ProtectedRoute allowedRoles={['super_admin']}>
-            <UsersPage />
-          </ProtectedRoute>
-        ),
-        children: [
-          {
-            index: true,
-            element: <UsersListingPage />,
-          },
-        ],
-      },
-      {
-        path: 'merchants',
-        element: (
-          <ProtectedRoute allowedRoles={['super_admin', 'admin']}>
-            <MerchantsPage />
-          </ProtectedRoute>
-        ),
-        children: [
-          {
-            index: true,
-            element: <MerchantsListingPage />,
-          },
-        ],
-      },
-      {
-        path: 'settings',
-        element: <SettingsPage />,
+        path: '*',
+        element: <NotFoundPage />,
       },
     ],
   },
-
-  // Catch all - redirect to dashboard
-  {
-    path: '*',
-    element: <Navigate to="/dashboard" replace />,
-  },
 ]);
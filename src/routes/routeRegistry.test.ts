@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { toRolePermissions } from '@/hooks/usePermission';
+import { appRoutes, findAppRoute, getBreadcrumbs, getDocumentTitle, getNavigation } from '@/routes/routeRegistry';
+import type { Permission } from '@/types/models';
+
+const canWith = (granted: Permission[]) => (permission: Permission) => !!toRolePermissions(granted)[permission];
+
+const navPaths = (granted: Permission[]) =>
+  getNavigation(canWith(granted)).flatMap((group) => group.routes.map((route) => route.path));
+
+describe('Route Registry', () => {
+  describe('appRoutes - definitions', () => {
+    it('should have unique absolute paths', () => {
+      const paths = appRoutes.map((route) => route.path);
+      expect(new Set(paths).size).toBe(paths.length);
+      paths.forEach((path) => expect(path.startsWith('/')).toBe(true));
+    });
+
+    it('should only point breadcrumbs at registered pages', () => {
+      appRoutes
+        .filter((route) => route.parent)
+        .forEach((route) => expect(findAppRoute(route.parent!)).toBeDefined());
+    });
+  });
+
+  describe('getNavigation - sidebar', () => {
+    it('should show every section to a user with all permissions', () => {
+      expect(navPaths(['canViewUsers', 'canViewAllMerchants', 'canManageRoles'])).toEqual([
+        '/dashboard',
+        '/users',
+        '/merchants',
+        '/roles',
+      ]);
+    });
+
+    it('should leave out pages and empty sections the user may not open', () => {
+      const navigation = getNavigation(canWith(['canViewMerchants']));
+      expect(navigation.map((group) => group.id)).toEqual(['overview']);
+      expect(navPaths(['canViewAllMerchants'])).toEqual(['/dashboard', '/merchants']);
+    });
+
+    it('should keep pages without a nav group out of the sidebar', () => {
+      expect(navPaths(['canViewUsers'])).not.toContain('/settings');
+    });
+  });
+
+  describe('getBreadcrumbs - trail', () => {
+    it('should start from the parent page', () => {
+      expect(getBreadcrumbs(findAppRoute('/users')!).map((route) => route.title)).toEqual(['Dashboard', 'Users']);
+    });
+
+    it('should be just the page for top-level pages', () => {
+      expect(getBreadcrumbs(findAppRoute('/dashboard')!)).toHaveLength(1);
+    });
+  });
+
+  describe('getDocumentTitle - browser tab', () => {
+    it('should name the page', () => {
+      expect(getDocumentTitle(findAppRoute('/merchants'))).toBe('Merchants | Admin Dashboard');
+      expect(getDocumentTitle()).toBe('Admin Dashboard');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import type { ComponentType } from 'react';
+import type { IconType } from 'react-icons';
+import { FiHome, FiSettings, FiShield, FiShoppingBag, FiUsers } from 'react-icons/fi';
+import { DashboardPage, SettingsPage } from '@/pages';
+import { UsersListingPage } from '@/pages/users';
+import { MerchantsListingPage } from '@/pages/merchants';
+import { RolesPage } from '@/pages/roles';
+import type { Permission } from '@/types/models';
+
+// Every page inside the app layout, in one place. The router, the sidebar,
+// the breadcrumbs and the document title are all generated from this list.
+
+export type NavGroup = 'overview' | 'management';
+
+export interface AppRoute {
+  path: string;
+  title: string;
+  Component: ComponentType;
+  icon?: IconType;
+  // Needed to open the page and to see it in the sidebar; none means every signed in user
+  permission?: Permission;
+  // Sidebar section; pages without one are reached another way (Settings: user menu)
+  navGroup?: NavGroup;
+  // Position within the sidebar section
+  order?: number;
+  // Path of the page one level up in the breadcrumbs
+  parent?: string;
+}
+
+// Stored on the generated route objects, read back with useMatches
+export interface AppRouteHandle {
+  appRoute: AppRoute;
+}
+
+// Sidebar sections in display order; null shows no heading
+export const NAV_GROUPS: { id: NavGroup; label: string | null }[] = [
+  { id: 'overview', label: null },
+  { id: 'management', label: 'Management' },
+];
+
+export const appRoutes: AppRoute[] = [
+  {
+    path: '/dashboard',
+    title: 'Dashboard',
+    Component: DashboardPage,
+    icon: FiHome,
+    navGroup: 'overview',
+    order: 1,
+  },
+  {
+    path: '/users',
+    title: 'Users',
+    Component: UsersListingPage,
+    icon: FiUsers,
+    permission: 'canViewUsers',
+    navGroup: 'management',
+    order: 1,
+    parent: '/dashboard',
+  },
+  {
+    // The merchant list spans every merchant; merchants see their own on the dashboard
+    path: '/merchants',
+    title: 'Merchants',
+    Component: MerchantsListingPage,
+    icon: FiShoppingBag,
+    permission: 'canViewAllMerchants',
+    navGroup: 'management',
+    order: 2,
+    parent: '/dashboard',
+  },
+  {
+    path: '/roles',
+    title: 'Roles',
+    Component: RolesPage,
+    icon: FiShield,
+    permission: 'canManageRoles',
+    navGroup: 'management',
+    order: 3,
+    parent: '/dashboard',
+  },
+  {
+    path: '/settings',
+    title: 'Settings',
+    Component: SettingsPage,
+    icon: FiSettings,
+    parent: '/dashboard',
+  },
+];
+
+export const findAppRoute = (path: string) => appRoutes.find((route) => route.path === path);
+
+// Sidebar sections with the pages the user may open, empty sections left out
+export function getNavigation(can: (permission: Permission) => boolean) {
+  return NAV_GROUPS.map((group) => ({
+    ...group,
+    routes: appRoutes
+      .filter((route) => route.navGroup === group.id && (!route.permission || can(route.permission)))
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0)),
+  })).filter((group) => group.routes.length > 0);
+}
+
+// The route and its parents, outermost first
+export function getBreadcrumbs(route: AppRoute): AppRoute[] {
+  const trail = [route];
+  let parent = route.parent && findAppRoute(route.parent);
+  while (parent && !trail.includes(parent)) {
+    trail.unshift(parent);
+    parent = parent.parent && findAppRoute(parent.parent);
+  }
+  return trail;
+}
+
+// Same as <title> in index.html
+export const APP_TITLE = 'Admin Dashboard';
+
+// Browser tab title for a page
+export const getDocumentTitle = (route?: AppRoute | null) => (route ? `${route.title} | ${APP_TITLE}` : APP_TITLE);
@@ -22,12 +22,15 @@ export interface User {
   id: number;
   name: string;
   email: string;
-  role: 'super_admin' | 'admin' | 'merchant';
+  role: UserRole;
   token?: string;
   refresh_token?: string;
   created_at: string;
   updated_at: string;
   deleted_at?: string | null;
+  two_factor_enabled?: boolean;
+  // Set while sign in is blocked after too many failed attempts
+  locked_until?: string | null;
   merchant?: {
     id: number;
     business_name: string;
@@ -39,6 +42,33 @@ export interface LoginPayload {
   password: string;
 }
 
+// Second login step: a code from the authenticator app or a recovery code
+export interface TwoFactorChallengePayload {
+  challenge_token: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+// Secret shown while enrolling, before the first code is confirmed
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+}
+
+export type SessionDeviceType = 'desktop' | 'mobile' | 'tablet';
+
+// A device the user is signed in on (one refresh token)
+export interface UserSession {
+  id: string;
+  device_type: SessionDeviceType;
+  browser: string;
+  platform: string;
+  ip_address: string;
+  last_active_at: string;
+  // The session making the request
+  is_current: boolean;
+}
+
 export interface RegisterPayload {
   name: string;
   email: string;
@@ -71,8 +101,8 @@ export interface DashboardData {
   merchant?: {
     id: number;
     business_name: string;
-    phone: string;
-    address: string;
+    phone: string | null;
+    address: string | null;
     user: {
       id: number;
       name: string;
@@ -146,14 +176,51 @@ export interface StoreUserPayload {
   name: string;
   email: string;
   password: string;
-  role: 'admin' | 'merchant';
+  role: UserRole;
 }
 
 export interface UpdateUserPayload {
   name?: string;
   email?: string;
   password?: string;
-  role?: 'admin' | 'merchant';
+  role?: UserRole;
+}
+
+// Invitation Types - the invitee chooses their own password when accepting
+export interface Invitation {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  invited_by?: {
+    id: number;
+    name: string;
+  } | null;
+  expires_at: string;
+  created_at: string;
+}
+
+// What the public accept page shows before the password is set
+export type InvitationDetails = Pick<Invitation, 'name' | 'email' | 'role' | 'expires_at'>;
+
+export interface StoreInvitationPayload {
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface AcceptInvitationPayload {
+  token: string;
+  password: string;
+  password_confirmation: string;
+}
+
+// Single sign-on: what the backend needs to redeem the identity provider's code
+export interface SsoCallbackPayload {
+  code: string;
+  code_verifier: string;
+  redirect_uri: string;
+  nonce: string;
 }
 
 // Pagination & Filter Types
@@ -175,18 +242,82 @@ export interface PaginatedResponse<T> {
   };
 }
 
-// Role Types
-export type UserRole = 'super_admin' | 'admin' | 'merchant';
+// Role Types - the built-in roles always exist; super admins can add their own
+export type BuiltInRole = 'super_admin' | 'admin' | 'merchant';
+export type UserRole = BuiltInRole | (string & {});
+
+// Permissions the frontend checks itself
+export type KnownPermission =
+  | 'canViewUsers'
+  | 'canCreateUsers'
+  | 'canUpdateUsers'
+  | 'canDeleteUsers'
+  | 'canViewMerchants'
+  | 'canCreateMerchants'
+  | 'canUpdateMerchants'
+  | 'canDeleteMerchants'
+  | 'canViewAllMerchants'
+  | 'canManageRoles'
+  | 'canImpersonateUsers';
+
+// Any permission name the backend grants - new ones need no frontend release
+export type Permission = KnownPermission | (string & {});
+
+// What a user may do, by permission name. Names missing from the set are not granted.
+export type RolePermissions = Record<KnownPermission, boolean> & { [permission: string]: boolean | undefined };
+
+// GET /auth/permissions - the signed in user's effective permissions
+export interface UserPermissions {
+  permissions: Permission[];
+}
+
+// A role and what it grants. name is what users reference, so it never
+// changes; system roles cannot be deleted and super_admin grants everything.
+export interface Role {
+  id: number;
+  name: UserRole;
+  display_name: string;
+  description?: string | null;
+  permissions: Permission[];
+  is_system: boolean;
+  users_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A permission as the role editor lists it
+export interface PermissionDefinition {
+  name: Permission;
+  label: string;
+  group: string;
+}
+
+export interface StoreRolePayload {
+  name: string;
+  display_name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+export interface UpdateRolePayload {
+  display_name?: string;
+  description?: string;
+  permissions?: Permission[];
+}
+
+// Access Request Types - asked for from the Forbidden page; super admins are notified
+export interface AccessRequest {
+  id: number;
+  path: string;
+  permission?: Permission | null;
+  reason?: string | null;
+  created_at: string;
+}
 
-export interface RolePermissions {
-  canViewUsers: boolean;
-  canCreateUsers: boolean;
-  canUpdateUsers: boolean;
-  canDeleteUsers: boolean;
-  canViewMerchants: boolean;
-  canCreateMerchants: boolean;
-  canUpdateMerchants: boolean;
-  canDeleteMerchants: boolean;
-  canViewAllMerchants: boolean;
+export interface StoreAccessRequestPayload {
+  // The page that was refused
+  path: string;
+  permission?: Permission;
+  reason?: string;
 }
 
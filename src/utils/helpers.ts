@@ -1,4 +1,5 @@
-import type { UserRole } from '@/types/models';
+import type { BuiltInRole, UserRole } from '@/types/models';
+import { isApiRequestError } from '@/api/errors';
 
 // Format date string
 export function formatDate(dateString: string, locale: string = 'id-ID'): string {
@@ -24,22 +25,26 @@ export function formatDateTime(dateString: string, locale: string = 'id-ID'): st
 
 // Get role display name in Indonesian
 export function getRoleDisplayName(role: UserRole): string {
-  const roleNames: Record<UserRole, string> = {
+  const roleNames: Record<BuiltInRole, string> = {
     super_admin: 'Super Administrator',
     admin: 'Administrator',
     merchant: 'Merchant',
   };
-  return roleNames[role] || role;
+  // Custom roles: "finance_viewer" -> "Finance Viewer"
+  return (
+    roleNames[role as BuiltInRole] ||
+    role.replace(/[_-]+/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase())
+  );
 }
 
 // Get role badge color
 export function getRoleBadgeColor(role: UserRole): string {
-  const colors: Record<UserRole, string> = {
+  const colors: Record<BuiltInRole, string> = {
     super_admin: 'bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-800',
     admin: 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800',
     merchant: 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800',
   };
-  return colors[role] || 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700';
+  return colors[role as BuiltInRole] || 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700';
 }
 
 // Format currency (IDR)
@@ -129,18 +134,23 @@ export function deepClone<T>(obj: T): T {
 }
 
 // Get error message from API error
-export function getErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+export function getErrorMessage(error: unknown, fallback: string = 'An unexpected error occurred'): string {
+  // Requests made through apiClient reject with a normalized ApiRequestError
+  if (isApiRequestError(error)) {
+    return error.message || fallback;
   }
 
   // Check if it's an axios error with response
   const axiosError = error as { response?: { data?: { message?: string } } };
-  if (axiosError.response?.data?.message) {
+  if (axiosError?.response?.data?.message) {
     return axiosError.response.data.message;
   }
 
-  return 'An unexpected error occurred';
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+
+  return fallback;
 }
 
 // Validate email format
@@ -1,4 +1,6 @@
 // Export all validation schemas
 export * from './schemas/auth';
 export * from './schemas/user';
+export * from './schemas/role';
 
+export * from './passwordPolicy';
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPasswordRules,
+  getPasswordStrength,
+  passwordSchema,
+  type PasswordPolicy,
+} from '@/validations/passwordPolicy';
+
+const strictPolicy: PasswordPolicy = {
+  minLength: 10,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+};
+
+describe('Password Policy', () => {
+  describe('getPasswordRules - configuration', () => {
+    it('should only include the rules the policy enables', () => {
+      const ids = getPasswordRules({ ...strictPolicy, requireSymbol: false, requireUppercase: false }).map(
+        (rule) => rule.id
+      );
+      expect(ids).toEqual(['length', 'lowercase', 'number']);
+    });
+  });
+
+  describe('passwordSchema - validation', () => {
+    it('should report every broken rule with its message', () => {
+      const result = passwordSchema(strictPolicy).safeParse('password');
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+        'Password must be at least 10 characters',
+        'Password must contain at least one uppercase letter',
+        'Password must contain at least one number',
+        'Password must contain at least one symbol',
+      ]);
+    });
+
+    it('should accept a password meeting the policy', () => {
+      expect(passwordSchema(strictPolicy).safeParse('Correct-Horse-9').success).toBe(true);
+    });
+  });
+
+  describe('getPasswordStrength - score', () => {
+    it('should stay weak until the policy is met', () => {
+      expect(getPasswordStrength('')).toBe(0);
+      expect(getPasswordStrength('password')).toBe(1);
+    });
+
+    it('should rise with length and variety', () => {
+      expect(getPasswordStrength('Password1')).toBe(2);
+      expect(getPasswordStrength('Password1234')).toBe(3);
+      expect(getPasswordStrength('Password-1234')).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+// Password Policy - the single source of password rules for every form
+import { z } from 'zod';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+// Keep in sync with the backend's Password::defaults() rule
+export const passwordPolicy: PasswordPolicy = {
+  minLength: Number(import.meta.env.VITE_PASSWORD_MIN_LENGTH) || 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+};
+
+export interface PasswordRule {
+  id: 'length' | 'uppercase' | 'lowercase' | 'number' | 'symbol';
+  // Checklist wording, e.g. "At least 8 characters"
+  label: string;
+  // Validation message when the rule fails
+  message: string;
+  test: (password: string) => boolean;
+}
+
+// The rules a policy enforces, in checklist order
+export function getPasswordRules(policy: PasswordPolicy = passwordPolicy): PasswordRule[] {
+  const rules: PasswordRule[] = [
+    {
+      id: 'length',
+      label: `At least ${policy.minLength} characters`,
+      message: `Password must be at least ${policy.minLength} characters`,
+      test: (password) => password.length >= policy.minLength,
+    },
+  ];
+
+  if (policy.requireUppercase) {
+    rules.push({
+      id: 'uppercase',
+      label: 'One uppercase letter',
+      message: 'Password must contain at least one uppercase letter',
+      test: (password) => /[A-Z]/.test(password),
+    });
+  }
+  if (policy.requireLowercase) {
+    rules.push({
+      id: 'lowercase',
+      label: 'One lowercase letter',
+      message: 'Password must contain at least one lowercase letter',
+      test: (password) => /[a-z]/.test(password),
+    });
+  }
+  if (policy.requireNumber) {
+    rules.push({
+      id: 'number',
+      label: 'One number',
+      message: 'Password must contain at least one number',
+      test: (password) => /\d/.test(password),
+    });
+  }
+  if (policy.requireSymbol) {
+    rules.push({
+      id: 'symbol',
+      label: 'One symbol',
+      message: 'Password must contain at least one symbol',
+      test: (password) => /[^A-Za-z0-9]/.test(password),
+    });
+  }
+
+  return rules;
+}
+
+// New passwords: required and checked against every rule of the policy
+export function passwordSchema(policy: PasswordPolicy = passwordPolicy) {
+  return getPasswordRules(policy).reduce(
+    (schema, rule) => schema.refine(rule.test, rule.message),
+    z.string().min(1, 'Password is required')
+  );
+}
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export const passwordStrengthLabels: Record<PasswordStrength, string> = {
+  0: 'Too weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Good',
+  4: 'Strong',
+};
+
+// Rough strength for the meter: 0 until the policy is met, then more points
+// for extra length and character variety
+export function getPasswordStrength(password: string, policy: PasswordPolicy = passwordPolicy): PasswordStrength {
+  if (!password) return 0;
+  if (!getPasswordRules(policy).every((rule) => rule.test(password))) {
+    return password.length >= policy.minLength / 2 ? 1 : 0;
+  }
+
+  const variety = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) => pattern.test(password)).length;
+  let score = 2;
+  if (password.length >= policy.minLength + 4) score += 1;
+  if (variety >= 4 || password.length >= policy.minLength * 2) score += 1;
+  return Math.min(score, 4) as PasswordStrength;
+}
@@ -4,6 +4,7 @@ import {
   registerSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  acceptInvitationSchema,
 } from '@/validations/schemas/auth';
 
 describe('Auth Validation Schemas', () => {
@@ -44,13 +45,13 @@ describe('Auth Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
 
-    it('should reject password less than 6 characters', () => {
-      const invalidData = {
+    it('should accept short passwords set under an older policy', () => {
+      const validData = {
         email: 'test@example.com',
-        password: '123',
+        password: 'abc123',
       };
-      const result = loginSchema.safeParse(invalidData);
-      expect(result.success).toBe(false);
+      const result = loginSchema.safeParse(validData);
+      expect(result.success).toBe(true);
     });
   });
 
@@ -59,8 +60,8 @@ describe('Auth Validation Schemas', () => {
       const validData = {
         name: 'John Doe',
         email: 'john@example.com',
-        password: 'password123',
-        password_confirmation: 'password123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
         role: 'admin' as const,
       };
       const result = registerSchema.safeParse(validData);
@@ -71,7 +72,7 @@ describe('Auth Validation Schemas', () => {
       const invalidData = {
         name: 'John Doe',
         email: 'john@example.com',
-        password: 'password123',
+        password: 'Password123',
         password_confirmation: 'differentpassword',
         role: 'merchant' as const,
       };
@@ -83,8 +84,8 @@ describe('Auth Validation Schemas', () => {
       const invalidData = {
         name: 'J',
         email: 'john@example.com',
-        password: 'password123',
-        password_confirmation: 'password123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
         role: 'admin' as const,
       };
       const result = registerSchema.safeParse(invalidData);
@@ -95,8 +96,8 @@ describe('Auth Validation Schemas', () => {
       const invalidData = {
         name: 'John Doe',
         email: 'john@example.com',
-        password: 'password123',
-        password_confirmation: 'password123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
         role: 'super_admin' as const,
       };
       const result = registerSchema.safeParse(invalidData);
@@ -107,8 +108,8 @@ describe('Auth Validation Schemas', () => {
       const invalidData = {
         name: '',
         email: 'john@example.com',
-        password: 'password123',
-        password_confirmation: 'password123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
         role: 'admin' as const,
       };
       const result = registerSchema.safeParse(invalidData);
@@ -201,5 +202,26 @@ describe('Auth Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
   });
-});
 
+  describe('acceptInvitationSchema', () => {
+    it('should validate a token and matching passwords', () => {
+      const validData = {
+        token: 'invite-token-123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
+      };
+      const result = acceptInvitationSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should apply the password policy', () => {
+      const invalidData = {
+        token: 'invite-token-123',
+        password: 'password',
+        password_confirmation: 'password',
+      };
+      const result = acceptInvitationSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 // Zod Validation Schemas for Authentication
 import { z } from 'zod';
+import { passwordSchema } from '../passwordPolicy';
 
 // Login Schema
 export const loginSchema = z.object({
@@ -7,14 +8,27 @@ export const loginSchema = z.object({
     .string()
     .min(1, 'Email is required')
     .email('Invalid email format'),
-  password: z
-    .string()
-    .min(1, 'Password is required')
-    .min(6, 'Password must be at least 6 characters'),
+  // Only required: accounts may predate the current policy, so the backend decides
+  password: z.string().min(1, 'Password is required'),
+  // Keep the session after the browser closes
+  remember: z.boolean().optional(),
 });
 
 export type LoginFormData = z.infer<typeof loginSchema>;
 
+// Two-Factor Challenge Schema - an authenticator code, or a recovery code instead
+export const twoFactorChallengeSchema = z
+  .object({
+    code: z.string().trim().min(1, 'Code is required'),
+    useRecoveryCode: z.boolean(),
+  })
+  .refine((data) => data.useRecoveryCode || /^\d{6}$/.test(data.code.replace(/\s/g, '')), {
+    message: 'Enter the 6-digit code from your authenticator app',
+    path: ['code'],
+  });
+
+export type TwoFactorChallengeFormData = z.infer<typeof twoFactorChallengeSchema>;
+
 // Register Schema
 export const registerSchema = z
   .object({
@@ -26,10 +40,7 @@ export const registerSchema = z
       .string()
       .min(1, 'Email is required')
       .email('Invalid email format'),
-    password: z
-      .string()
-      .min(1, 'Password is required')
-      .min(6, 'Password must be at least 6 characters'),
+    password: passwordSchema(),
     password_confirmation: z
       .string()
       .min(1, 'Password confirmation is required'),
@@ -60,13 +71,7 @@ export const resetPasswordSchema = z
       .min(1, 'Email is required')
       .email('Invalid email format'),
     token: z.string().min(1, 'Token is required'),
-    password: z
-      .string()
-      .min(1, 'Password is required')
-      .min(8, 'Password must be at least 8 characters')
-      .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-      .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-      .regex(/\d/, 'Password must contain at least one number'),
+    password: passwordSchema(),
     password_confirmation: z
       .string()
       .min(1, 'Password confirmation is required'),
@@ -78,3 +83,34 @@ export const resetPasswordSchema = z
 
 export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
 
+// Accept Invitation Schema - the invitee sets their first password
+export const acceptInvitationSchema = z
+  .object({
+    token: z.string().min(1, 'Token is required'),
+    password: passwordSchema(),
+    password_confirmation: z
+      .string()
+      .min(1, 'Password confirmation is required'),
+  })
+  .refine((data) => data.password === data.password_confirmation, {
+    message: 'Passwords do not match',
+    path: ['password_confirmation'],
+  });
+
+export type AcceptInvitationFormData = z.infer<typeof acceptInvitationSchema>;
+
+// Change Password Schema (Settings)
+export const changePasswordSchema = z
+  .object({
+    current_password: z.string().min(1, 'Current password is required'),
+    password: passwordSchema(),
+    password_confirmation: z
+      .string()
+      .min(1, 'Password confirmation is required'),
+  })
+  .refine((data) => data.password === data.password_confirmation, {
+    message: 'Passwords do not match',
+    path: ['password_confirmation'],
+  });
+
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
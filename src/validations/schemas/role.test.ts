@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { roleFormSchema } from '@/validations/schemas/role';
+
+describe('Role Validation Schemas', () => {
+  describe('roleFormSchema', () => {
+    it('should validate a custom role', () => {
+      const validData = {
+        name: 'finance_viewer',
+        display_name: 'Finance Viewer',
+        description: 'Read-only access to merchants',
+      };
+      const result = roleFormSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject names that are not identifiers', () => {
+      ['Finance Viewer', 'finance-viewer', '1support', ''].forEach((name) => {
+        const result = roleFormSchema.safeParse({ name, display_name: 'Finance Viewer' });
+        expect(result.success).toBe(false);
+      });
+    });
+
+    it('should require a display name', () => {
+      const result = roleFormSchema.safeParse({ name: 'support', display_name: '' });
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+// Zod Validation Schemas for Role Management
+import { z } from 'zod';
+
+// Role Schema - name is the identifier users reference and cannot be changed later
+export const roleFormSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be at most 50 characters')
+    .regex(/^[a-z][a-z0-9_]*$/, 'Use lowercase letters, numbers and underscores, starting with a letter'),
+  display_name: z
+    .string()
+    .min(1, 'Display name is required')
+    .min(2, 'Display name must be at least 2 characters'),
+  description: z.string().max(255, 'Description must be at most 255 characters').optional(),
+});
+
+export type RoleFormData = z.infer<typeof roleFormSchema>;
@@ -2,7 +2,9 @@ import { describe, it, expect } from 'vitest';
 import {
   userFiltersSchema,
   createUserSchema,
+  inviteUserSchema,
   updateUserSchema,
+  updateUserSchemaFor,
 } from '@/validations/schemas/user';
 
 describe('User Validation Schemas', () => {
@@ -59,8 +61,8 @@ describe('User Validation Schemas', () => {
       const validData = {
         name: 'John Doe',
         email: 'john@example.com',
-        password: 'password123',
-        password_confirmation: 'password123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
         role: 'admin' as const,
       };
       const result = createUserSchema.safeParse(validData);
@@ -71,7 +73,7 @@ describe('User Validation Schemas', () => {
       const invalidData = {
         name: 'John Doe',
         email: 'john@example.com',
-        password: 'password123',
+        password: 'Password123',
         password_confirmation: 'differentpassword',
         role: 'merchant' as const,
       };
@@ -95,8 +97,8 @@ describe('User Validation Schemas', () => {
       const invalidData = {
         name: 'J',
         email: 'john@example.com',
-        password: 'password123',
-        password_confirmation: 'password123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
         role: 'admin' as const,
       };
       const result = createUserSchema.safeParse(invalidData);
@@ -107,8 +109,8 @@ describe('User Validation Schemas', () => {
       const invalidData = {
         name: 'John Doe',
         email: 'john@example.com',
-        password: 'password123',
-        password_confirmation: 'password123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
         role: 'super_admin' as const,
       };
       const result = createUserSchema.safeParse(invalidData);
@@ -119,8 +121,8 @@ describe('User Validation Schemas', () => {
       const invalidData = {
         name: 'John Doe',
         email: '',
-        password: 'password123',
-        password_confirmation: 'password123',
+        password: 'Password123',
+        password_confirmation: 'Password123',
         role: 'admin' as const,
       };
       const result = createUserSchema.safeParse(invalidData);
@@ -132,7 +134,7 @@ describe('User Validation Schemas', () => {
         name: 'John Doe',
         email: 'john@example.com',
         password: '',
-        password_confirmation: 'password123',
+        password_confirmation: 'Password123',
         role: 'admin' as const,
       };
       const result = createUserSchema.safeParse(invalidData);
@@ -145,8 +147,8 @@ describe('User Validation Schemas', () => {
       const validData = {
         name: 'John Updated',
         email: 'john.updated@example.com',
-        password: 'newpassword123',
-        password_confirmation: 'newpassword123',
+        password: 'NewPassword123',
+        password_confirmation: 'NewPassword123',
         role: 'merchant' as const,
       };
       const result = updateUserSchema.safeParse(validData);
@@ -169,7 +171,7 @@ describe('User Validation Schemas', () => {
 
     it('should reject password without confirmation', () => {
       const invalidData = {
-        password: 'newpassword123',
+        password: 'NewPassword123',
       };
       const result = updateUserSchema.safeParse(invalidData);
       expect(result.success).toBe(false);
@@ -177,7 +179,7 @@ describe('User Validation Schemas', () => {
 
     it('should reject mismatched passwords', () => {
       const invalidData = {
-        password: 'newpassword123',
+        password: 'NewPassword123',
         password_confirmation: 'differentpassword',
       };
       const result = updateUserSchema.safeParse(invalidData);
@@ -208,6 +210,52 @@ describe('User Validation Schemas', () => {
       const result = updateUserSchema.safeParse(invalidData);
       expect(result.success).toBe(false);
     });
+
+    it('should let a super admin be edited without changing their role', () => {
+      const validData = {
+        name: 'Root Renamed',
+        email: 'superadmin@example.com',
+        role: 'super_admin',
+      };
+      const result = updateUserSchemaFor('super_admin').safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should still reject making another user super admin', () => {
+      const result = updateUserSchemaFor('admin').safeParse({ role: 'super_admin' });
+      expect(result.success).toBe(false);
+    });
   });
-});
 
+  describe('inviteUserSchema', () => {
+    it('should validate an invite without a password', () => {
+      const validData = {
+        name: 'John Doe',
+        email: 'john@example.com',
+        role: 'merchant' as const,
+      };
+      const result = inviteUserSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept a custom role', () => {
+      const validData = {
+        name: 'John Doe',
+        email: 'john@example.com',
+        role: 'finance_viewer',
+      };
+      const result = inviteUserSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject inviting a super admin', () => {
+      const invalidData = {
+        name: 'John Doe',
+        email: 'john@example.com',
+        role: 'super_admin',
+      };
+      const result = inviteUserSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+  });
+});
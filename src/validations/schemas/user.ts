@@ -1,5 +1,14 @@
 // Zod Validation Schemas for User Management
 import { z } from 'zod';
+import { passwordSchema } from '../passwordPolicy';
+
+// Any built-in or custom role except super admin, which is never handed out from
+// a form. A user who already has a role keeps it, super admin included.
+const assignableRoleSchema = (currentRole?: string) =>
+  z
+    .string()
+    .min(1, 'Role is required')
+    .refine((role) => role === currentRole || role !== 'super_admin', 'This role cannot be assigned');
 
 // User Filter Schema
 export const userFiltersSchema = z.object({
@@ -22,14 +31,11 @@ export const createUserSchema = z
       .string()
       .min(1, 'Email is required')
       .email('Invalid email format'),
-    password: z
-      .string()
-      .min(1, 'Password is required')
-      .min(6, 'Password must be at least 6 characters'),
+    password: passwordSchema(),
     password_confirmation: z
       .string()
       .min(1, 'Password confirmation is required'),
-    role: z.enum(['admin', 'merchant']),
+    role: assignableRoleSchema(),
   })
   .refine((data) => data.password === data.password_confirmation, {
     message: 'Passwords do not match',
@@ -38,8 +44,23 @@ export const createUserSchema = z
 
 export type CreateUserFormData = z.infer<typeof createUserSchema>;
 
-// Update User Schema
-export const updateUserSchema = z.object({
+// Invite User Schema - no password, the invitee sets it when accepting
+export const inviteUserSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .min(2, 'Name must be at least 2 characters'),
+  email: z
+    .string()
+    .min(1, 'Email is required')
+    .email('Invalid email format'),
+  role: assignableRoleSchema(),
+});
+
+export type InviteUserFormData = z.infer<typeof inviteUserSchema>;
+
+// Update User Schema - currentRole is the role the user has before the edit
+export const updateUserSchemaFor = (currentRole?: string) => z.object({
   name: z
     .string()
     .min(1, 'Name is required')
@@ -50,12 +71,10 @@ export const updateUserSchema = z.object({
     .min(1, 'Email is required')
     .email('Invalid email format')
     .optional(),
-  password: z
-    .string()
-    .min(6, 'Password must be at least 6 characters')
-    .optional(),
+  // Blank keeps the current password
+  password: z.union([z.literal(''), passwordSchema()]).optional(),
   password_confirmation: z.string().optional(),
-  role: z.enum(['admin', 'merchant']).optional(),
+  role: assignableRoleSchema(currentRole).optional(),
 }).refine(
   (data) => {
     // If password is provided, password_confirmation must also be provided
@@ -74,5 +93,7 @@ export const updateUserSchema = z.object({
   }
 );
 
+export const updateUserSchema = updateUserSchemaFor();
+
 export type UpdateUserFormData = z.infer<typeof updateUserSchema>;
 